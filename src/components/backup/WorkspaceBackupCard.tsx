@@ -0,0 +1,256 @@
+import { ChangeEvent, useMemo, useRef, useState } from "react";
+import { ArchiveRestore, Download, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useWallet } from "@/store/WalletContext";
+import { useTaxConfig } from "@/store/TaxConfigContext";
+import { getPriceCache, setPriceCache } from "@/services/coingeckoService";
+import { BackupRestoreMode, WalletDiff, WorkspaceBackup, WorkspaceDiff, WorkspaceSnapshot } from "@/types/backup";
+import { getOutpoint } from "@/utils/utxo-utils";
+import {
+  applyWorkspaceBackup,
+  createDownloadableBackup,
+  createWorkspaceBackup,
+  diffWorkspaces,
+  parseWorkspaceBackup
+} from "@/utils/backup-utils";
+
+const WALLET_STATUS_LABELS: Record<WalletDiff['status'], string> = {
+  added: "Added",
+  updated: "Updated",
+  removed: "Removed",
+  unchanged: "Unchanged",
+};
+
+const describeWalletChanges = (wallet: WalletDiff) =>
+  [
+    wallet.addedUtxos && `${wallet.addedUtxos} UTXOs added`,
+    wallet.updatedUtxos && `${wallet.updatedUtxos} relabeled`,
+    wallet.removedUtxos && `${wallet.removedUtxos} removed`,
+  ].filter(Boolean).join(", ");
+
+function RestorePreview({ diff }: { diff: WorkspaceDiff }) {
+  const counts = [
+    diff.auditEntries.added && `${diff.auditEntries.added} audit entries added`,
+    diff.auditEntries.removed && `${diff.auditEntries.removed} audit entries removed`,
+    diff.priceCacheEntries.added && `${diff.priceCacheEntries.added} cached prices added`,
+    diff.priceCacheEntries.removed && `${diff.priceCacheEntries.removed} cached prices removed`,
+  ].filter(Boolean);
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <h4 className="font-medium">Wallets</h4>
+        {diff.wallets.length === 0 && <p className="text-muted-foreground">No wallets</p>}
+        {diff.wallets.map(wallet => (
+          <div key={`${wallet.status}-${wallet.name}`} className="flex items-center justify-between gap-2">
+            <span className="truncate">{wallet.name}</span>
+            <span className="flex items-center gap-2 text-muted-foreground">
+              {describeWalletChanges(wallet)}
+              <Badge variant={wallet.status === 'removed' ? "destructive" : "outline"}>
+                {WALLET_STATUS_LABELS[wallet.status]}
+              </Badge>
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {(diff.addedTags.length > 0 || diff.removedTags.length > 0) && (
+        <div className="space-y-1">
+          <h4 className="font-medium">Tags</h4>
+          {diff.addedTags.length > 0 && <p>Added: {diff.addedTags.join(", ")}</p>}
+          {diff.removedTags.length > 0 && <p className="text-destructive">Removed: {diff.removedTags.join(", ")}</p>}
+        </div>
+      )}
+
+      {diff.settings.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="font-medium">Settings</h4>
+          {diff.settings.map(change => (
+            <p key={change.label} className="break-all">
+              {change.label}: <span className="text-muted-foreground">{change.from}</span> → {change.to}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {counts.length > 0 && <p className="text-muted-foreground">{counts.join(", ")}</p>}
+    </div>
+  );
+}
+
+export function WorkspaceBackupCard() {
+  const {
+    wallets,
+    tags,
+    selectedCurrency,
+    chainBackendConfig,
+    selectedUTXOs,
+    auditLog,
+    restoreWorkspace
+  } = useWallet();
+  const { selectedJurisdiction, taxOverrides, restoreTaxConfig } = useTaxConfig();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null);
+  const [current, setCurrent] = useState<WorkspaceSnapshot | null>(null);
+  const [mode, setMode] = useState<BackupRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // The price cache lives in the price service, so a snapshot is always taken asynchronously
+  const takeSnapshot = async (): Promise<WorkspaceSnapshot> => ({
+    wallets,
+    tags,
+    selectedCurrency,
+    chainBackendConfig,
+    taxJurisdictionId: selectedJurisdiction?.id ?? null,
+    taxOverrides,
+    simulationOutpoints: selectedUTXOs.map(getOutpoint),
+    priceCache: await getPriceCache(),
+    auditLog,
+  });
+
+  const restored = useMemo(
+    () => backup && current ? applyWorkspaceBackup(current, backup, mode) : null,
+    [backup, current, mode]
+  );
+  const diff = useMemo(
+    () => current && restored ? diffWorkspaces(current, restored) : null,
+    [current, restored]
+  );
+
+  const handleDownload = async () => {
+    const snapshot = await takeSnapshot();
+    const downloadLink = document.createElement("a");
+    downloadLink.href = createDownloadableBackup(createWorkspaceBackup(snapshot));
+    downloadLink.download = `utxo-intelligence-backup-${new Date().toISOString().slice(0, 10)}.json`;
+    downloadLink.click();
+    toast.success("Backup downloaded");
+  };
+
+  const handleFileSelected = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const parsed = parseWorkspaceBackup(event.target?.result as string);
+        setCurrent(await takeSnapshot());
+        setMode('merge');
+        setBackup(parsed);
+      } catch (parseError) {
+        console.error("Failed to read backup:", parseError);
+        toast.error(parseError instanceof Error ? parseError.message : "Could not read the backup file");
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const closePreview = () => {
+    setBackup(null);
+    setCurrent(null);
+  };
+
+  const handleRestore = async () => {
+    if (!restored) return;
+    setIsRestoring(true);
+    try {
+      await restoreWorkspace(restored);
+      restoreTaxConfig(restored.taxJurisdictionId, restored.taxOverrides);
+      await setPriceCache(restored.priceCache);
+      toast.success(mode === 'replace' ? "Workspace replaced from backup" : "Backup merged into the workspace");
+      closePreview();
+    } catch (restoreError) {
+      console.error("Failed to restore backup:", restoreError);
+      toast.error(restoreError instanceof Error ? restoreError.message : "Could not restore the backup");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArchiveRestore className="h-5 w-5" />
+          Backup and Restore
+        </CardTitle>
+        <CardDescription>
+          One file with your wallets, tags, labels, cost basis, tax and currency settings, simulator selection,
+          cached prices and change history. The backup is not encrypted; store it somewhere safe.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download Backup
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          Restore from Backup
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+      </CardContent>
+
+      <Dialog open={backup !== null} onOpenChange={(open) => !open && closePreview()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Restore backup</DialogTitle>
+            <DialogDescription>
+              {backup && `Created ${new Date(backup.createdAt).toLocaleString()}. Review the changes before restoring.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as BackupRestoreMode)} className="space-y-2">
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+              <Label htmlFor="restore-merge" className="font-normal">
+                <span className="font-medium">Merge</span>: add wallets, coins, labels, tags and history from the backup,
+                keep your current settings
+              </Label>
+            </div>
+            <div className="flex items-start space-x-2">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+              <Label htmlFor="restore-replace" className="font-normal">
+                <span className="font-medium">Replace</span>: restore the workspace exactly as it was in the backup
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="max-h-[300px] overflow-y-auto rounded-md border p-3">
+            {diff && <RestorePreview diff={diff} />}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closePreview} disabled={isRestoring}>
+              Cancel
+            </Button>
+            <Button onClick={handleRestore} disabled={isRestoring}>
+              {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'replace' ? "Replace Workspace" : "Merge Backup"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
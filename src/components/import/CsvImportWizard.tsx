@@ -0,0 +1,272 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle2, FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UTXO } from "@/types/utxo";
+import { parseCsv } from "@/utils/csv-utils";
+import {
+  CSV_FIELDS,
+  CsvAmountUnit,
+  CsvColumnMapping,
+  CsvField,
+  guessCsvMapping,
+  loadSavedCsvMapping,
+  mapCsvRows,
+  saveCsvMapping,
+  validateCsvMapping
+} from "@/utils/csv-import-utils";
+
+interface CsvImportWizardProps {
+  isLoading: boolean;
+  onImport: (name: string, utxos: UTXO[]) => void;
+}
+
+const UNMAPPED = "unmapped";
+const PREVIEW_ROWS = 5;
+const MAX_LISTED_ERRORS = 20;
+
+export const CsvImportWizard = ({ isLoading, onImport }: CsvImportWizardProps) => {
+  const [rows, setRows] = useState<string[][]>([]);
+  const [fileName, setFileName] = useState("");
+  const [walletName, setWalletName] = useState("");
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [usedSavedMapping, setUsedSavedMapping] = useState(false);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+
+  const header = rows[0] ?? [];
+  const dataRows = useMemo(() => rows.slice(1), [rows]);
+
+  const mappingError = mapping ? validateCsvMapping(mapping) : null;
+  const result = useMemo(
+    () => (mapping && !mappingError ? mapCsvRows(dataRows, mapping, walletName || "CSV Import") : null),
+    [dataRows, mapping, mappingError, walletName]
+  );
+
+  const loadContent = (content: string, name: string) => {
+    const parsed = parseCsv(content);
+    setRows(parsed);
+    setFileName(name);
+    setWalletName(name.replace(/\.[^.]+$/, "") || "CSV Import");
+    setSkipInvalidRows(false);
+
+    if (parsed.length === 0) {
+      setMapping(null);
+      return;
+    }
+    // A file with the same header as before gets the mapping the user chose last time
+    const saved = loadSavedCsvMapping(parsed[0]);
+    setUsedSavedMapping(!!saved);
+    setMapping(saved ?? guessCsvMapping(parsed[0]));
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      loadContent(event.target?.result as string, file.name);
+    };
+    reader.readAsText(file);
+  };
+
+  const setFieldColumn = (field: CsvField, value: string) => {
+    if (!mapping) return;
+    const columns = { ...mapping.columns };
+    if (value === UNMAPPED) {
+      delete columns[field];
+    } else {
+      columns[field] = Number(value);
+    }
+    setMapping({ ...mapping, columns });
+  };
+
+  const handleImport = () => {
+    if (!mapping || !result) return;
+    saveCsvMapping(header, mapping);
+    onImport(walletName.trim() || "CSV Import", result.utxos);
+  };
+
+  const canImport = !!result
+    && result.utxos.length > 0
+    && (result.errors.length === 0 || skipInvalidRows)
+    && !isLoading;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid w-full max-w-sm items-center gap-1.5">
+        <Input
+          id="csvUpload"
+          type="file"
+          accept=".csv,.txt"
+          onChange={handleFileUpload}
+          className="cursor-pointer"
+        />
+      </div>
+
+      {rows.length === 0 && (
+        <div className="text-xs text-muted-foreground">
+          <p>
+            Upload a spreadsheet exported as CSV. The first row must contain column headers;
+            you'll map them to UTXO fields before anything is imported.
+          </p>
+        </div>
+      )}
+
+      {fileName && rows.length === 0 && (
+        <p className="text-sm text-destructive">{fileName} contains no rows.</p>
+      )}
+
+      {mapping && rows.length > 0 && (
+        <>
+          <div className="flex items-center text-sm text-muted-foreground">
+            <FileSpreadsheet className="h-4 w-4 mr-2 text-bitcoin" />
+            {fileName}: {dataRows.length} rows, {header.length} columns
+            {usedSavedMapping && " (using your saved mapping for this layout)"}
+          </div>
+
+          <div className="grid gap-1.5 max-w-sm">
+            <Label htmlFor="csvWalletName">Wallet name</Label>
+            <Input
+              id="csvWalletName"
+              value={walletName}
+              onChange={(e) => setWalletName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {CSV_FIELDS.map(({ field, label, hint }) => (
+              <div key={field} className="grid gap-1.5">
+                <Label>{label}</Label>
+                <Select
+                  value={mapping.columns[field] !== undefined ? String(mapping.columns[field]) : UNMAPPED}
+                  onValueChange={(value) => setFieldColumn(field, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {header.map((column, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {column || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-1.5">
+            <Label>Amount unit</Label>
+            <RadioGroup
+              className="flex gap-6"
+              value={mapping.amountUnit}
+              onValueChange={(value) => setMapping({ ...mapping, amountUnit: value as CsvAmountUnit })}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="btc" id="unit-btc" />
+                <Label htmlFor="unit-btc">BTC</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="sats" id="unit-sats" />
+                <Label htmlFor="unit-sats">sats</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {mappingError && (
+            <p className="text-sm text-destructive">{mappingError}</p>
+          )}
+
+          {result && (
+            <>
+              <div>
+                <h3 className="text-sm font-medium mb-2">Preview</h3>
+                <div className="overflow-x-auto rounded-md border border-dark-border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Outpoint</TableHead>
+                        <TableHead>Amount (BTC)</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Address</TableHead>
+                        <TableHead>Tags</TableHead>
+                        <TableHead>Cost basis</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.utxos.slice(0, PREVIEW_ROWS).map((utxo) => (
+                        <TableRow key={`${utxo.txid}:${utxo.vout}`}>
+                          <TableCell className="font-mono text-xs">
+                            {utxo.txid.substring(0, 8)}…:{utxo.vout}
+                          </TableCell>
+                          <TableCell>{utxo.amount.toFixed(8)}</TableCell>
+                          <TableCell>{utxo.acquisitionDate ?? "—"}</TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {utxo.address ? `${utxo.address.substring(0, 12)}…` : "—"}
+                          </TableCell>
+                          <TableCell>{utxo.tags.join(", ") || "—"}</TableCell>
+                          <TableCell>{utxo.acquisitionFiatValue ?? "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+
+              {result.errors.length === 0 ? (
+                <div className="flex items-center text-sm text-green-500">
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  All {result.utxos.length} rows are valid
+                </div>
+              ) : (
+                <div className="rounded-md border border-destructive/50 p-3 space-y-2">
+                  <div className="flex items-center text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    {result.errors.length} of {dataRows.length} rows have errors
+                  </div>
+                  <ul className="text-xs text-muted-foreground space-y-1 max-h-40 overflow-y-auto">
+                    {result.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                      <li key={error.row}>Line {error.row}: {error.message}</li>
+                    ))}
+                    {result.errors.length > MAX_LISTED_ERRORS && (
+                      <li>…and {result.errors.length - MAX_LISTED_ERRORS} more</li>
+                    )}
+                  </ul>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="skipInvalidRows"
+                      checked={skipInvalidRows}
+                      onCheckedChange={(checked) => setSkipInvalidRows(checked === true)}
+                    />
+                    <Label htmlFor="skipInvalidRows">
+                      Import the {result.utxos.length} valid rows and skip the rest
+                    </Label>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      <Button
+        onClick={handleImport}
+        disabled={!canImport}
+        className="w-full"
+      >
+        {isLoading ? "Importing..." : `Import ${result?.utxos.length ?? 0} UTXOs`}
+      </Button>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { FileCode } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { DecodedPsbt, decodePsbt, psbtToBase64 } from "@/utils/psbt-utils";
+
+interface PsbtLoaderProps {
+  onDecoded: (psbt: DecodedPsbt, base64: string) => void;
+}
+
+/**
+ * Paste or upload a PSBT (base64, hex or binary) and decode it
+ */
+export const PsbtLoader = ({ onDecoded }: PsbtLoaderProps) => {
+  const [content, setContent] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const decode = (input: string) => {
+    try {
+      const psbt = decodePsbt(input);
+      setError(null);
+      onDecoded(psbt, psbtToBase64(input));
+    } catch (decodeError) {
+      console.error("Failed to decode PSBT:", decodeError);
+      setError(decodeError instanceof Error ? decodeError.message : "Could not decode the PSBT");
+    }
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // Read as bytes: .psbt files from hardware wallets are binary
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const bytes = new Uint8Array(event.target?.result as ArrayBuffer);
+      try {
+        // Show binary uploads as base64 so the text area always holds what was decoded
+        const base64 = psbtToBase64(bytes);
+        setContent(base64);
+        decode(base64);
+      } catch (readError) {
+        setError(readError instanceof Error ? readError.message : "Could not read the PSBT file");
+      }
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid w-full max-w-sm items-center gap-1.5">
+        <Input
+          id="psbtUpload"
+          type="file"
+          accept=".psbt,.txt"
+          onChange={handleFileUpload}
+          className="cursor-pointer"
+        />
+      </div>
+
+      <Textarea
+        className="min-h-[120px] font-mono text-xs"
+        placeholder="Paste a base64 or hex PSBT (cHNidP8...)"
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+      />
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button
+        variant="outline"
+        onClick={() => decode(content)}
+        disabled={!content.trim()}
+        className="w-full"
+      >
+        <FileCode className="mr-2 h-4 w-4" />
+        Decode PSBT
+      </Button>
+    </div>
+  );
+};
+
+export default PsbtLoader;
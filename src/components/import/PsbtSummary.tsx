@@ -0,0 +1,75 @@
+import { ArrowRight, KeyRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatBTC } from "@/utils/utxo-utils";
+import { DecodedPsbt } from "@/utils/psbt-utils";
+
+interface PsbtSummaryProps {
+  psbt: DecodedPsbt;
+}
+
+const shortOutpoint = (txid: string, vout: number) => `${txid.substring(0, 8)}…${txid.substring(txid.length - 8)}:${vout}`;
+
+/**
+ * Read-only view of a decoded PSBT: inputs with what they spend, outputs and fee
+ */
+export const PsbtSummary = ({ psbt }: PsbtSummaryProps) => {
+  const signedCount = psbt.inputs.filter(input => input.signed).length;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-mono text-xs text-muted-foreground break-all">txid {psbt.txid}</span>
+        <Badge variant="outline">{psbt.network}</Badge>
+        <Badge variant="outline">{signedCount}/{psbt.inputs.length} signed</Badge>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-3 items-start">
+        <div className="space-y-2">
+          <h4 className="font-medium">Inputs ({psbt.inputs.length})</h4>
+          {psbt.inputs.map((input, index) => (
+            <div key={`${input.txid}:${input.vout}`} className="p-2 rounded-md bg-muted space-y-1">
+              <div className="font-mono text-xs">{shortOutpoint(input.txid, input.vout)}</div>
+              <div>
+                {input.value !== null ? formatBTC(input.value / 100000000) : "Unknown amount"}
+                {input.scriptType && <span className="ml-2 text-xs text-muted-foreground">{input.scriptType}</span>}
+              </div>
+              {input.address && <div className="font-mono text-xs text-muted-foreground break-all">{input.address}</div>}
+              {input.derivations.map(derivation => (
+                <div key={derivation.pubkey} className="flex items-center text-xs text-muted-foreground">
+                  <KeyRound className="h-3 w-3 mr-1" />
+                  [{derivation.fingerprint}] {derivation.path}
+                </div>
+              ))}
+              {!input.utxoSource && (
+                <div className="text-xs text-amber-500">Input {index} carries no UTXO data</div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <ArrowRight className="hidden md:block h-5 w-5 mt-8 text-muted-foreground" />
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Outputs ({psbt.outputs.length})</h4>
+          {psbt.outputs.map((output, index) => (
+            <div key={index} className="p-2 rounded-md bg-muted space-y-1">
+              <div className="flex items-center justify-between">
+                <span>{formatBTC(output.value / 100000000)}</span>
+                {output.derivations.length > 0 && <Badge variant="secondary">Change</Badge>}
+              </div>
+              <div className="font-mono text-xs text-muted-foreground break-all">
+                {output.address ?? `script ${output.scriptPubKey}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-muted-foreground">
+        Fee: {psbt.fee !== null ? formatBTC(psbt.fee / 100000000) : "unknown (inputs without UTXO data)"}
+      </div>
+    </div>
+  );
+};
+
+export default PsbtSummary;
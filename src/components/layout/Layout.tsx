@@ -2,6 +2,7 @@
 import { ReactNode } from "react";
 import { SideNav } from "./SideNav";
 import { useLocation } from "react-router-dom";
+import { useEditHistoryShortcuts } from "@/hooks/useEditHistoryShortcuts";
 
 interface LayoutProps {
   children: ReactNode;
@@ -11,6 +12,8 @@ export function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const isHomePage = location.pathname === "/";
 
+  useEditHistoryShortcuts();
+
   return (
     <div className="min-h-screen bg-background flex">
       {!isHomePage && <SideNav />}
@@ -14,10 +14,13 @@ import {
   Settings,
   ChartLine,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Lock
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useWallet } from "@/store/WalletContext";
+import { useVault } from "@/store/VaultContext";
+import { WalletScopeSelector } from "@/components/wallet/WalletScopeSelector";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
@@ -26,6 +29,7 @@ export function SideNav() {
   const location = useLocation();
   const navigate = useNavigate();
   const { hasWallet } = useWallet();
+  const { isVaultEnabled, lock } = useVault();
   const [openSections, setOpenSections] = useState<string[]>([]);
 
   // Define main routes
@@ -177,6 +181,10 @@ export function SideNav() {
             <X className="h-5 w-5" />
           </Button>
         </div>
+
+        <div className="px-4 mt-4">
+          <WalletScopeSelector />
+        </div>
         
         <nav className="mt-8">
           <ul className="space-y-2 px-2">
@@ -300,6 +308,12 @@ export function SideNav() {
         </nav>
 
         <div className="absolute bottom-0 left-0 right-0 p-4">
+          {isVaultEnabled && (
+            <Button variant="outline" className="w-full mb-4" onClick={() => lock()}>
+              <Lock className="mr-2 h-4 w-4" />
+              Lock
+            </Button>
+          )}
           <div className="text-sm text-muted-foreground text-center">
             <p>UTXO Intelligence</p>
             <p>v0.1.0 (Demo)</p>
@@ -30,6 +30,7 @@ import {
 } from "@/components/ui/select";
 import { TagSelector } from "@/components/utxo/TagSelector";
 import { getBitcoinHistoricalPrice } from "@/services/coingeckoService";
+import { addressToScriptPubKey, validateAddress } from "@/utils/address-utils";
 
 interface AddUTXOModalProps {
   open: boolean;
@@ -37,7 +38,7 @@ interface AddUTXOModalProps {
 }
 
 export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
-  const { selectedCurrency, walletData, tags, importWallet } = useWallet();
+  const { selectedCurrency, wallets, scopedWallets, tags, addUTXO } = useWallet();
   const [txid, setTxid] = useState("");
   const [amount, setAmount] = useState("");
   const [senderAddress, setSenderAddress] = useState("");
@@ -52,8 +53,13 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
   const [isTagSelectorOpen, setIsTagSelectorOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
-  // Define available wallets (for demonstration)
-  const availableWallets = walletData ? [walletData.name, "Wallet 2"] : [];
+  // Without a choice, coins go to the first wallet in scope
+  const targetWallet = wallets.find(wallet => wallet.id === selectedWallet) ?? scopedWallets[0];
+
+  // Addresses are optional, but anything typed in has to be valid for the wallet's network
+  const network = targetWallet?.network;
+  const senderError = senderAddress.trim() ? validateAddress(senderAddress, network).error : null;
+  const receiverError = receiverAddress.trim() ? validateAddress(receiverAddress, network).error : null;
 
   const fetchBtcPrice = async () => {
     if (!acquisitionDate) return;
@@ -93,7 +99,7 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
   };
 
   const handleSubmit = async () => {
-    if (!walletData || !amount || !acquisitionDate) {
+    if (!targetWallet || !amount || !acquisitionDate) {
       toast.error("Amount and acquisition date are required");
       return;
     }
@@ -105,8 +111,12 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
       return;
     }
 
-    // If no wallet is selected, use the default wallet
-    const walletName = selectedWallet || walletData.name;
+    if (senderError || receiverError) {
+      toast.error(senderError ? `Sender address: ${senderError}` : `Receiver address: ${receiverError}`);
+      return;
+    }
+    const sender = senderAddress.trim();
+    const receiver = receiverAddress.trim();
 
     // Map selected tag IDs to tag names
     const tagNames = selectedTags.map(tagId => {
@@ -118,10 +128,10 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
     const newUtxo: UTXO = {
       txid: txid || `manual-${Date.now()}`,
       vout: 0,
-      address: receiverAddress || "Manual Entry",
+      address: receiver || "Manual Entry",
       amount: btcAmount,
       confirmations: 6,
-      scriptPubKey: "",
+      scriptPubKey: receiver ? addressToScriptPubKey(receiver) : "",
       tags: tagNames,
       createdAt: new Date().toISOString(),
       privacyRisk: 'low' as const,
@@ -133,20 +143,12 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
       realizedGainFiat: null,
       costAutoPopulated: false,
       notes: notes || null,
-      senderAddress: senderAddress || null,
-      receiverAddress: receiverAddress || null,
-      walletName: walletName !== walletData.name ? walletName : undefined  // Only set if different from default
-    };
-
-    // Update wallet data
-    const updatedWalletData = {
-      ...walletData,
-      totalBalance: walletData.totalBalance + btcAmount,
-      utxos: [...walletData.utxos, newUtxo]
+      senderAddress: sender || null,
+      receiverAddress: receiver || null
     };
 
     try {
-      importWallet(updatedWalletData);
+      addUTXO(targetWallet.id, newUtxo);
       toast.success("UTXO added successfully");
       
       // Reset form
@@ -237,8 +239,9 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
                 value={senderAddress}
                 onChange={(e) => setSenderAddress(e.target.value)}
                 placeholder="Enter sender address"
-                className="font-mono text-sm"
+                className={`font-mono text-sm ${senderError ? "border-destructive" : ""}`}
               />
+              {senderError && <p className="text-xs text-destructive">{senderError}</p>}
             </div>
 
             <div className="space-y-2">
@@ -250,8 +253,9 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
                 value={receiverAddress}
                 onChange={(e) => setReceiverAddress(e.target.value)}
                 placeholder="Enter receiver address"
-                className="font-mono text-sm"
+                className={`font-mono text-sm ${receiverError ? "border-destructive" : ""}`}
               />
+              {receiverError && <p className="text-xs text-destructive">{receiverError}</p>}
             </div>
           </div>
 
@@ -261,21 +265,21 @@ export function AddUTXOModal({ open, onOpenChange }: AddUTXOModalProps) {
             </label>
             <Select value={selectedWallet} onValueChange={setSelectedWallet}>
               <SelectTrigger id="wallet" className="w-full">
-                <SelectValue placeholder={walletData ? walletData.name : "Select wallet"} />
+                <SelectValue placeholder={targetWallet ? targetWallet.name : "Select wallet"} />
               </SelectTrigger>
               <SelectContent>
-                {availableWallets.map((wallet) => (
-                  <SelectItem key={wallet} value={wallet}>
+                {wallets.map((wallet) => (
+                  <SelectItem key={wallet.id} value={wallet.id}>
                     <div className="flex items-center gap-2">
-                      <Wallet className="h-4 w-4" />
-                      <span>{wallet}</span>
+                      <Wallet className="h-4 w-4" style={{ color: wallet.color }} />
+                      <span>{wallet.name}</span>
                     </div>
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              Leave empty to use your default wallet
+              Leave empty to add it to {scopedWallets[0]?.name ?? "your first wallet"}
             </p>
           </div>
 
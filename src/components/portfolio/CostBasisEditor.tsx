@@ -10,7 +10,7 @@ import { Calendar } from "@/components/ui/calendar";
 import { useWallet } from "@/store/WalletContext";
 import { UTXO } from "@/types/utxo";
 import { Textarea } from "@/components/ui/textarea";
-import { formatBTC } from "@/utils/utxo-utils";
+import { formatBTC, getOutpoint } from "@/utils/utxo-utils";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { 
   Form, 
@@ -37,7 +37,7 @@ export function CostBasisEditor({ utxo, onClose }: CostBasisEditorProps) {
   const { 
     updateUtxoCostBasis, 
     autoPopulateUTXOCostBasis, 
-    walletData, 
+    getUTXO, 
     selectedCurrency 
   } = useWallet();
   
@@ -93,7 +93,7 @@ export function CostBasisEditor({ utxo, onClose }: CostBasisEditorProps) {
       const formattedDate = acquisitionDate ? format(acquisitionDate, "yyyy-MM-dd") : null;
       
       updateUtxoCostBasis(
-        utxo.txid,
+        getOutpoint(utxo),
         formattedDate,
         fiatValue,
         values.notes.trim() === "" ? null : values.notes
@@ -124,14 +124,14 @@ export function CostBasisEditor({ utxo, onClose }: CostBasisEditorProps) {
       return;
     }
     
-    const utxoId = utxo.txid;
+    const outpoint = getOutpoint(utxo);
     
     setIsLoading(true);
     try {
-      const success = await autoPopulateUTXOCostBasis(utxoId);
+      const success = await autoPopulateUTXOCostBasis(outpoint);
       
       if (success) {
-        const updatedUtxo = walletData?.utxos.find(u => u.txid === utxoId);
+        const updatedUtxo = getUTXO(outpoint);
         
         if (updatedUtxo) {
           form.setValue(
@@ -1,14 +1,16 @@
 
-import { Download, FileText, Tag, CreditCard } from "lucide-react";
+import { Download, FileText, Tag, CreditCard, Tags, History } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 
 interface ExportOptionsProps {
   onDownloadJSON: () => void;
   onDownloadCSV: () => void;
+  onDownloadBip329: () => void;
+  onDownloadAuditTrail: () => void;
 }
 
-const ExportOptions = ({ onDownloadJSON, onDownloadCSV }: ExportOptionsProps) => {
+const ExportOptions = ({ onDownloadJSON, onDownloadCSV, onDownloadBip329, onDownloadAuditTrail }: ExportOptionsProps) => {
   return (
     <Card className="bg-dark-card border-dark-border shadow-lg">
       <CardHeader>
@@ -18,7 +20,7 @@ const ExportOptions = ({ onDownloadJSON, onDownloadCSV }: ExportOptionsProps) =>
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
           <div className="p-4 border border-dashed border-dark-border rounded-md text-center space-y-4">
             <FileText className="mx-auto h-12 w-12 text-bitcoin" />
             <div>
@@ -54,6 +56,42 @@ const ExportOptions = ({ onDownloadJSON, onDownloadCSV }: ExportOptionsProps) =>
               Download CSV
             </Button>
           </div>
+
+          <div className="p-4 border border-dashed border-dark-border rounded-md text-center space-y-4">
+            <Tags className="mx-auto h-12 w-12 text-bitcoin" />
+            <div>
+              <h3 className="text-lg font-medium">Export Labels</h3>
+              <p className="text-muted-foreground text-sm">
+                BIP329 labels for Sparrow and other wallets
+              </p>
+            </div>
+            <Button
+              onClick={onDownloadBip329}
+              variant="outline"
+              className="w-full"
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download JSONL
+            </Button>
+          </div>
+
+          <div className="p-4 border border-dashed border-dark-border rounded-md text-center space-y-4">
+            <History className="mx-auto h-12 w-12 text-bitcoin" />
+            <div>
+              <h3 className="text-lg font-medium">Export Audit Trail</h3>
+              <p className="text-muted-foreground text-sm">
+                Every recorded change to tags, cost basis and notes, in CSV format
+              </p>
+            </div>
+            <Button
+              onClick={onDownloadAuditTrail}
+              variant="outline"
+              className="w-full"
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download CSV
+            </Button>
+          </div>
         </div>
       </CardContent>
     </Card>
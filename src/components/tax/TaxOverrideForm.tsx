@@ -5,12 +5,10 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { useTaxConfig } from "@/store/TaxConfigContext";
-import { useState } from "react";
-import { TaxConfig, TaxMethod } from "@/types/tax";
+import { TaxMethod } from "@/types/tax";
 
 export function TaxOverrideForm() {
-  const { selectedJurisdiction } = useTaxConfig();
-  const [overrides, setOverrides] = useState<Partial<TaxConfig>>({});
+  const { selectedJurisdiction, taxOverrides: overrides, setTaxOverrides } = useTaxConfig();
 
   if (!selectedJurisdiction) {
     return null;
@@ -19,15 +17,15 @@ export function TaxOverrideForm() {
   const { config } = selectedJurisdiction;
 
   const handleMethodChange = (value: TaxMethod) => {
-    setOverrides((prev) => ({ ...prev, defaultMethod: value }));
+    setTaxOverrides({ ...overrides, defaultMethod: value });
   };
 
   const handleLegalTenderChange = (checked: boolean) => {
-    setOverrides((prev) => ({ ...prev, isBTCLegalTender: checked }));
+    setTaxOverrides({ ...overrides, isBTCLegalTender: checked });
   };
 
   const handleExemptThresholdChange = (value: string) => {
-    setOverrides((prev) => ({ ...prev, exemptThreshold: Number(value) }));
+    setTaxOverrides({ ...overrides, exemptThreshold: Number(value) });
   };
 
   return (
@@ -0,0 +1,58 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { AuditEntry } from "@/types/history";
+import { formatAuditValue } from "@/utils/history-utils";
+
+interface AuditTrailProps {
+  entries: AuditEntry[];
+}
+
+// Field names as shown to the user
+const FIELD_LABELS: Record<string, string> = {
+  acquisitionDate: "Acquisition date",
+  acquisitionFiatValue: "Cost basis",
+  acquisitionBtcPrice: "BTC price",
+  costAutoPopulated: "Cost basis auto-filled",
+  status: "Status",
+  spend: "Spend",
+  disposalDate: "Disposal date",
+  disposalFiatValue: "Proceeds",
+  realizedGainFiat: "Realized gain",
+  notes: "Notes",
+  tags: "Tags",
+  senderAddress: "Sender address",
+  receiverAddress: "Receiver address",
+  createdAt: "Date",
+  coinjoin: "Coinjoin",
+  anonset: "Anonymity set",
+  deleted: "Deleted",
+};
+
+export function AuditTrail({ entries }: AuditTrailProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded for this coin.</p>;
+  }
+
+  return (
+    <ul className="space-y-2 max-h-64 overflow-y-auto pr-1">
+      {[...entries].reverse().map((entry, index) => (
+        <li key={`${entry.timestamp}-${entry.field}-${index}`} className="rounded-md border p-2 text-xs space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{FIELD_LABELS[entry.field] ?? entry.field}</span>
+            <Badge variant={entry.source === "automatic" ? "secondary" : "outline"}>
+              {entry.source === "automatic" ? "Automatic" : "Manual"}
+            </Badge>
+          </div>
+          <div className="break-all">
+            <span className="text-muted-foreground line-through">{formatAuditValue(entry.oldValue) || "empty"}</span>
+            <span className="mx-1">→</span>
+            <span>{formatAuditValue(entry.newValue) || "empty"}</span>
+          </div>
+          <div className="text-muted-foreground">
+            {format(new Date(entry.timestamp), "yyyy-MM-dd HH:mm:ss")} · {entry.reason}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
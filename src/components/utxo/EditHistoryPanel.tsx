@@ -0,0 +1,96 @@
+import { format } from "date-fns";
+import { CircleDot, Coins, History, MapPin, Redo2, StickyNote, Tag as TagIcon, Trash2, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useWallet } from "@/store/WalletContext";
+import { UTXOEditKind } from "@/types/history";
+
+const KIND_ICONS: Record<UTXOEditKind, JSX.Element> = {
+  'tag': <TagIcon className="h-4 w-4" />,
+  'cost-basis': <Coins className="h-4 w-4" />,
+  'addresses': <MapPin className="h-4 w-4" />,
+  'notes': <StickyNote className="h-4 w-4" />,
+  'lifecycle': <CircleDot className="h-4 w-4" />,
+  'delete': <Trash2 className="h-4 w-4" />,
+};
+
+export function EditHistoryPanel() {
+  const { editHistory, canUndo, canRedo, undo, redo } = useWallet();
+
+  // Newest first: undone edits happened after everything still applied
+  const entries = [
+    ...editHistory.future.map(command => ({ command, undone: true })),
+    ...[...editHistory.past].reverse().map(command => ({ command, undone: false })),
+  ];
+
+  const handleUndo = () => {
+    const command = undo();
+    if (command) toast(`Undid: ${command.label}`);
+  };
+
+  const handleRedo = () => {
+    const command = redo();
+    if (command) toast(`Redid: ${command.label}`);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="mr-2 h-4 w-4" />
+          History
+          {editHistory.past.length > 0 && (
+            <Badge variant="secondary" className="ml-2">{editHistory.past.length}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Edit History</SheetTitle>
+          <SheetDescription>
+            Tag, cost basis, address and note edits and deletions made in this session.
+            Press Ctrl+Z to undo and Ctrl+Shift+Z to redo.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex gap-2 my-4">
+          <Button variant="outline" size="sm" onClick={handleUndo} disabled={!canUndo}>
+            <Undo2 className="mr-2 h-4 w-4" />
+            Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleRedo} disabled={!canRedo}>
+            <Redo2 className="mr-2 h-4 w-4" />
+            Redo
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 pr-4">
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No edits yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map(({ command, undone }) => (
+                <li
+                  key={command.id}
+                  className={`flex items-start gap-3 rounded-md border p-2 text-sm ${undone ? "opacity-50" : ""}`}
+                >
+                  <span className="mt-0.5 text-muted-foreground">{KIND_ICONS[command.kind]}</span>
+                  <div className="flex-1 space-y-1">
+                    <div className={undone ? "line-through" : ""}>{command.label}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(command.timestamp), "HH:mm:ss")}
+                      {undone && <Badge variant="outline" className="ml-2">Undone</Badge>}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
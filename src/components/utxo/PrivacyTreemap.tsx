@@ -1,14 +1,18 @@
 import React, { useState, useEffect } from "react";
 import { UTXO } from "@/types/utxo";
-import { ZoomIn, ZoomOut } from "lucide-react";
+import { Code, Link, ZoomIn, ZoomOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { getRiskColor, formatBTC } from "@/utils/utxo-utils";
 import { TreemapTile } from "@/types/utxo-graph";
+import { AddressCluster } from "@/types/cluster";
+import { getScriptTypeLabel, SCRIPT_TYPE_ORDER } from "@/utils/script-utils";
+import { getClusterColor, groupUtxosByCluster } from "@/utils/cluster-utils";
 
 interface PrivacyTreemapProps {
   utxos: UTXO[];
   onSelectUtxo?: (utxo: UTXO | null) => void;
   zoomLevel?: number;
+  clusters?: AddressCluster[];
 }
 
 interface Rectangle {
@@ -19,13 +23,80 @@ interface Rectangle {
   utxo: UTXO;
 }
 
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface GroupRectangle extends Box {
+  label: string;
+  amount: number;
+  color?: string;
+}
+
+// Recursively splits the area in two at the most balanced point, returning one box per weight (in order)
+const splitLayout = (weights: number[], x: number, y: number, width: number, height: number): Box[] => {
+  const boxes: Box[] = new Array(weights.length);
+
+  const layout = (indices: number[], x: number, y: number, width: number, height: number) => {
+    if (indices.length === 0) return;
+
+    if (indices.length === 1) {
+      // Single rectangle - fill the space
+      boxes[indices[0]] = { x, y, width, height };
+      return;
+    }
+
+    // Find the best split point
+    const total = indices.reduce((sum, i) => sum + weights[i], 0);
+    let bestSplit = 1;
+    let bestRatio = Infinity;
+
+    for (let split = 1; split < indices.length; split++) {
+      const leftWeight = indices.slice(0, split).reduce((sum, i) => sum + weights[i], 0);
+      const rightWeight = total - leftWeight;
+      const ratio = Math.max(leftWeight / rightWeight, rightWeight / leftWeight);
+
+      if (ratio < bestRatio) {
+        bestRatio = ratio;
+        bestSplit = split;
+      }
+    }
+
+    // Split the area
+    const leftIndices = indices.slice(0, bestSplit);
+    const rightIndices = indices.slice(bestSplit);
+    const leftRatio = leftIndices.reduce((sum, i) => sum + weights[i], 0) / total;
+
+    if (width > height) {
+      // Split vertically
+      const leftWidth = width * leftRatio;
+      layout(leftIndices, x, y, leftWidth, height);
+      layout(rightIndices, x + leftWidth, y, width - leftWidth, height);
+    } else {
+      // Split horizontally
+      const leftHeight = height * leftRatio;
+      layout(leftIndices, x, y, width, leftHeight);
+      layout(rightIndices, x, y + leftHeight, width, height - leftHeight);
+    }
+  };
+
+  layout(weights.map((_, i) => i), x, y, width, height);
+  return boxes;
+};
+
 export const PrivacyTreemap: React.FC<PrivacyTreemapProps> = ({
   utxos,
   onSelectUtxo,
-  zoomLevel: initialZoomLevel = 1
+  zoomLevel: initialZoomLevel = 1,
+  clusters = []
 }) => {
   const [zoomLevel, setZoomLevel] = useState(initialZoomLevel);
   const [rectangles, setRectangles] = useState<Rectangle[]>([]);
+  const [groupRectangles, setGroupRectangles] = useState<GroupRectangle[]>([]);
+  const [groupBy, setGroupBy] = useState<"none" | "scriptType" | "cluster">("none");
   const [selectedTile, setSelectedTile] = useState<string | null>(null);
   const [hoveredTile, setHoveredTile] = useState<string | null>(null);
   const [containerSize, setContainerSize] = useState({ width: 800, height: 600 });
@@ -62,86 +133,60 @@ export const PrivacyTreemap: React.FC<PrivacyTreemapProps> = ({
     // Sort UTXOs by amount (largest first) for optimal packing
     const sortedUtxos = [...utxos].sort((a, b) => b.amount - a.amount);
     
-    // Calculate total amount for proportional sizing
-    const totalAmount = sortedUtxos.reduce((sum, utxo) => sum + utxo.amount, 0);
-    
     // Container dimensions with proper padding
     const padding = 20;
     const containerWidth = containerSize.width - (padding * 2);
     const containerHeight = containerSize.height - (padding * 2);
-    const totalArea = containerWidth * containerHeight;
     
-    // Squarified treemap algorithm for proper non-overlapping layout
     const newRectangles: Rectangle[] = [];
-    
-    // Calculate normalized areas based on BTC amounts
-    const areas = sortedUtxos.map(utxo => (utxo.amount / totalAmount) * totalArea);
-    
-    // Recursive function to layout rectangles
-    const layoutRectangles = (
-      utxoIndices: number[],
-      x: number,
-      y: number,
-      width: number,
-      height: number
-    ) => {
-      if (utxoIndices.length === 0) return;
-      
-      if (utxoIndices.length === 1) {
-        // Single rectangle - fill the space
-        const index = utxoIndices[0];
-        const utxo = sortedUtxos[index];
+    const newGroups: GroupRectangle[] = [];
+
+    // Tiles inset slightly so neighbours don't touch
+    const placeTiles = (tileUtxos: UTXO[], x: number, y: number, width: number, height: number) => {
+      splitLayout(tileUtxos.map(utxo => utxo.amount), x, y, width, height).forEach((box, index) => {
         newRectangles.push({
-          x: x + 2,
-          y: y + 2,
-          width: width - 4,
-          height: height - 4,
-          utxo
+          x: box.x + 2,
+          y: box.y + 2,
+          width: box.width - 4,
+          height: box.height - 4,
+          utxo: tileUtxos[index]
         });
-        return;
-      }
-      
-      // Find the best split point
-      const totalAreaForGroup = utxoIndices.reduce((sum, i) => sum + areas[i], 0);
-      let bestSplit = 1;
-      let bestRatio = Infinity;
-      
-      for (let split = 1; split < utxoIndices.length; split++) {
-        const leftArea = utxoIndices.slice(0, split).reduce((sum, i) => sum + areas[i], 0);
-        const rightArea = totalAreaForGroup - leftArea;
-        const ratio = Math.max(leftArea / rightArea, rightArea / leftArea);
-        
-        if (ratio < bestRatio) {
-          bestRatio = ratio;
-          bestSplit = split;
-        }
-      }
-      
-      // Split the area
-      const leftIndices = utxoIndices.slice(0, bestSplit);
-      const rightIndices = utxoIndices.slice(bestSplit);
-      const leftArea = leftIndices.reduce((sum, i) => sum + areas[i], 0);
-      const leftRatio = leftArea / totalAreaForGroup;
-      
-      if (width > height) {
-        // Split vertically
-        const leftWidth = width * leftRatio;
-        layoutRectangles(leftIndices, x, y, leftWidth, height);
-        layoutRectangles(rightIndices, x + leftWidth, y, width - leftWidth, height);
-      } else {
-        // Split horizontally
-        const leftHeight = height * leftRatio;
-        layoutRectangles(leftIndices, x, y, width, leftHeight);
-        layoutRectangles(rightIndices, x, y + leftHeight, width, height - leftHeight);
-      }
+      });
     };
-    
-    // Start the layout process
-    const indices = Array.from({ length: sortedUtxos.length }, (_, i) => i);
-    layoutRectangles(indices, padding, padding, containerWidth, containerHeight);
+
+    // One block per group, with the coins laid out inside it
+    const placeGroups = (groups: { label: string; color?: string; utxos: UTXO[] }[]) => {
+      const totals = groups.map(group => group.utxos.reduce((sum, utxo) => sum + utxo.amount, 0));
+      splitLayout(totals, padding, padding, containerWidth, containerHeight).forEach((box, index) => {
+        const group = groups[index];
+        newGroups.push({ ...box, label: group.label, amount: totals[index], color: group.color });
+        const headerHeight = box.height > 40 ? 18 : 0;
+        placeTiles(group.utxos, box.x + 2, box.y + headerHeight + 2, box.width - 4, box.height - headerHeight - 4);
+      });
+    };
+
+    if (groupBy === "scriptType") {
+      // Newest script types first
+      placeGroups([...SCRIPT_TYPE_ORDER, undefined]
+        .map(scriptType => ({
+          label: getScriptTypeLabel(scriptType),
+          utxos: sortedUtxos.filter(utxo => utxo.scriptType === scriptType)
+        }))
+        .filter(group => group.utxos.length > 0));
+    } else if (groupBy === "cluster") {
+      // Coins an observer can already link together share a block
+      placeGroups(groupUtxosByCluster(sortedUtxos, clusters).map(({ cluster, utxos: groupUtxos }) => ({
+        label: cluster ? cluster.label : "Unlinked",
+        color: cluster ? getClusterColor(cluster.id) : undefined,
+        utxos: groupUtxos
+      })));
+    } else {
+      placeTiles(sortedUtxos, padding, padding, containerWidth, containerHeight);
+    }
     
     setRectangles(newRectangles);
-  }, [utxos, containerSize]);
+    setGroupRectangles(newGroups);
+  }, [utxos, containerSize, groupBy, clusters]);
 
   // Handle tile selection
   const handleTileClick = (rectangle: Rectangle) => {
@@ -181,6 +226,26 @@ export const PrivacyTreemap: React.FC<PrivacyTreemapProps> = ({
     <div className="relative h-full w-full" ref={containerRef}>
       {/* Zoom controls */}
       <div className="absolute top-2 right-2 flex items-center gap-2 z-10">
+        <Button
+          variant={groupBy === "scriptType" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setGroupBy(prev => prev === "scriptType" ? "none" : "scriptType")}
+          title="Group by script type"
+        >
+          <Code className="mr-1 h-4 w-4" />
+          Script type
+        </Button>
+
+        <Button
+          variant={groupBy === "cluster" ? "default" : "outline"}
+          size="sm"
+          onClick={() => setGroupBy(prev => prev === "cluster" ? "none" : "cluster")}
+          title="Group coins an outside observer can link together"
+        >
+          <Link className="mr-1 h-4 w-4" />
+          Clusters
+        </Button>
+
         <Button variant="outline" size="icon" onClick={handleZoomOut} title="Zoom Out">
           <ZoomOut className="h-4 w-4" />
         </Button>
@@ -221,6 +286,27 @@ export const PrivacyTreemap: React.FC<PrivacyTreemapProps> = ({
           transition: 'transform 0.2s ease'
         }}
       >
+        {/* Script type or cluster groups */}
+        {groupRectangles.map(group => (
+          <g key={group.label}>
+            <rect
+              x={group.x}
+              y={group.y}
+              width={group.width}
+              height={group.height}
+              fill="none"
+              stroke={group.color ?? "#94a3b8"}
+              strokeDasharray="4 2"
+              rx={4}
+            />
+            {group.height > 40 && group.width > 80 && (
+              <text x={group.x + 6} y={group.y + 13} className="fill-gray-500" style={{ fontSize: 11 }}>
+                {group.label} · {formatBTC(group.amount, { trimZeros: true, maxDecimals: 4 })}
+              </text>
+            )}
+          </g>
+        ))}
+
         {/* Render tiles */}
         {rectangles.map((rect, index) => {
           const tileId = `${rect.utxo.txid}-${rect.utxo.vout}`;
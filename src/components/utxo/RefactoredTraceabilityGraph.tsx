@@ -8,6 +8,7 @@ import { Slider } from "@/components/ui/slider";
 import { Box, Filter, ZoomIn, ZoomOut, Maximize, Minimize, Layers, Plus, Minus } from "lucide-react";
 import { GraphNode, GraphLink } from "@/types/utxo-graph";
 import { toast } from "sonner";
+import { useWallet } from "@/store/WalletContext";
 import { getRiskBadgeStyle } from "@/utils/utxo-utils";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -33,6 +34,8 @@ export const RefactoredTraceabilityGraph: React.FC<RefactoredTraceabilityGraphPr
   utxos, 
   onSelectUtxo 
 }) => {
+  const { chainTransactions } = useWallet();
+
   // State for graph visualization
   const [graph, setGraph] = useState<{nodes: GraphNode[], links: GraphLink[]}>({ nodes: [], links: [] });
   const [zoom, setZoom] = useState(1);
@@ -49,12 +52,12 @@ export const RefactoredTraceabilityGraph: React.FC<RefactoredTraceabilityGraphPr
   
   // Calculate graph data from UTXOs
   useEffect(() => {
-    const graphData = createTraceabilityGraph(utxos);
+    const graphData = createTraceabilityGraph(utxos, chainTransactions);
     
     // Optimize layout to minimize overlapping
     const optimizedGraph = optimizeGraphLayout(graphData.nodes, graphData.links);
     setGraph(optimizedGraph);
-  }, [utxos, groupByWallet]);
+  }, [utxos, groupByWallet, chainTransactions]);
 
   // Calculate dimensions
   const dimensions = useMemo(() => {
@@ -374,6 +377,7 @@ export const RefactoredTraceabilityGraph: React.FC<RefactoredTraceabilityGraphPr
                       opacity={isHighlighted ? 1 : 0.7}
                     >
                       {link.value < 0.0001 ? "<0.0001" : link.value.toFixed(4)}
+                      {link.isChangeOutput && link.changeConfidence !== undefined && ` · change ${Math.round(link.changeConfidence * 100)}%`}
                     </text>
                   )}
                 </g>
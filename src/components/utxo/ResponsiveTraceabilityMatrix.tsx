@@ -1,10 +1,13 @@
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { toast } from "sonner";
 import { ZoomIn, ZoomOut, ArrowLeft } from "lucide-react";
 import { UTXO } from "@/types/utxo";
 import { MatrixNode, MatrixConnection } from "@/types/utxo-graph";
-import { formatBTC, formatTxid, getRiskColor } from "@/utils/utxo-utils";
+import { AddressCluster } from "@/types/cluster";
+import { formatBTC, formatTxid, getRiskColor, getUtxoTooltipContent } from "@/utils/utxo-utils";
+import { getHullPath } from "@/utils/visualization-utils";
+import { getClusterColor } from "@/utils/cluster-utils";
 import { Button } from "@/components/ui/button";
 
 interface ResponsiveTraceabilityMatrixProps {
@@ -13,6 +16,7 @@ interface ResponsiveTraceabilityMatrixProps {
   selectedUtxo?: UTXO | null;
   showConnections?: boolean;
   zoomLevel?: number;
+  clusters?: AddressCluster[];
 }
 
 export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrixProps> = ({
@@ -20,7 +24,8 @@ export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrix
   onSelectUtxo,
   selectedUtxo,
   showConnections: initialShowConnections = true,
-  zoomLevel: initialZoomLevel = 1
+  zoomLevel: initialZoomLevel = 1,
+  clusters = []
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [nodes, setNodes] = useState<MatrixNode[]>([]);
@@ -32,6 +37,7 @@ export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrix
   const [highlightedNodes, setHighlightedNodes] = useState<Set<string>>(new Set());
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const [zoomLevel, setZoomLevel] = useState(initialZoomLevel);
+  const [showClusters, setShowClusters] = useState(true);
   
   // Process UTXOs into a Sankey-style matrix layout
   useEffect(() => {
@@ -265,6 +271,22 @@ export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrix
     }
   }, [utxos]);
   
+  // One hull per cluster around the address nodes it ties together
+  const clusterHulls = useMemo(() => clusters.flatMap(cluster => {
+    const members = new Set(cluster.addresses);
+    const clusterNodes = nodes.filter(node => node.type !== 'transaction' && members.has(node.data.txid));
+    if (clusterNodes.length < 2) return [];
+    const top = clusterNodes.reduce((first, node) => node.y < first.y ? node : first);
+    return [{
+      id: cluster.id,
+      label: cluster.label,
+      color: getClusterColor(cluster.id),
+      path: getHullPath(clusterNodes),
+      labelX: top.x,
+      labelY: top.y - 14
+    }];
+  }), [clusters, nodes]);
+
   // Generate a smooth curved path between two points
   const generateCurvePath = (x1: number, y1: number, x2: number, y2: number) => {
     const dx = x2 - x1;
@@ -441,6 +463,8 @@ export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrix
     }
   };
   
+  const hoveredNodeData = nodes.find(node => node.id === hoveredNode);
+
   return (
     <div className="relative h-full w-full overflow-hidden border border-muted-foreground/20 rounded-md bg-background">
       {/* Visualization controls */}
@@ -454,6 +478,18 @@ export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrix
           {showConnections ? "Hide Connections" : "Show Connections"}
         </Button>
         
+        {clusterHulls.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowClusters(prev => !prev)}
+            className={showClusters ? "bg-primary/10" : ""}
+            title="Addresses an outside observer can tie to one owner"
+          >
+            {showClusters ? "Hide Clusters" : "Show Clusters"}
+          </Button>
+        )}
+
         <Button variant="outline" size="icon" onClick={handleZoomOut} title="Zoom Out">
           <ZoomOut className="h-4 w-4" />
         </Button>
@@ -506,6 +542,23 @@ export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrix
             transition: isDragging ? 'none' : 'transform 0.1s ease'
           }}
         >
+          {/* Cluster hulls */}
+          {showClusters && clusterHulls.map(hull => (
+            <g key={hull.id} className="pointer-events-none">
+              <path
+                d={hull.path}
+                fill={hull.color}
+                fillOpacity={0.12}
+                stroke={hull.color}
+                strokeDasharray="6 3"
+                strokeLinejoin="round"
+              />
+              <text x={hull.labelX} y={hull.labelY} fill={hull.color} className="text-xs font-medium">
+                {hull.label}
+              </text>
+            </g>
+          ))}
+
           {/* Connection lines */}
           {showConnections && connections.map((conn, index) => (
             <path
@@ -606,6 +659,14 @@ export const ResponsiveTraceabilityMatrix: React.FC<ResponsiveTraceabilityMatrix
           </defs>
         </svg>
       </div>
+
+      {/* Risk factors of the hovered node's coins */}
+      {hoveredNodeData && !isDragging && hoveredNodeData.data.utxos.length > 0 && (
+        <div
+          className="absolute right-4 bottom-4 z-10 max-w-xs max-h-[60%] overflow-y-auto rounded-lg border bg-popover text-popover-foreground shadow-md pointer-events-none"
+          dangerouslySetInnerHTML={{ __html: hoveredNodeData.data.utxos.map(getUtxoTooltipContent).join('') }}
+        />
+      )}
       
       {/* Empty state */}
       {nodes.length === 0 && (
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { UTXO } from "@/types/utxo";
+import { getRiskBadgeStyle } from "@/utils/utxo-utils";
+import { RISK_SIGNAL_LABELS } from "@/utils/risk-utils";
+
+interface RiskExplanationProps {
+  utxo: UTXO;
+}
+
+// Breaks a coin's privacy risk down into the signals that raised it and what to do about each
+export function RiskExplanation({ utxo }: RiskExplanationProps) {
+  const factors = [...(utxo.riskFactors ?? [])].sort((a, b) => b.points - a.points);
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className={getRiskBadgeStyle(utxo.privacyRisk)}>
+          {utxo.privacyRisk.charAt(0).toUpperCase() + utxo.privacyRisk.slice(1)}
+        </Badge>
+        {utxo.riskScore !== undefined && (
+          <span className="text-muted-foreground">Score {utxo.riskScore}/100</span>
+        )}
+      </div>
+
+      {factors.length === 0 ? (
+        <p className="text-muted-foreground">Nothing in this wallet links the coin to you or your other coins.</p>
+      ) : (
+        <ul className="space-y-2">
+          {factors.map(factor => (
+            <li key={factor.signal} className="rounded-md border p-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{RISK_SIGNAL_LABELS[factor.signal]}</span>
+                <span className="text-xs text-muted-foreground">+{factor.points}</span>
+              </div>
+              <div className="text-muted-foreground">{factor.detail}</div>
+              <div className="mt-1 text-xs">{factor.remedy}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
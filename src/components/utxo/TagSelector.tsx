@@ -17,7 +17,7 @@ import {
 import { Tooltip } from "@/components/ui/tooltip";
 
 interface TagSelectorProps {
-  utxoId: string;
+  outpoint: string;
   onSelect: (tagId: string, remove?: boolean) => void;
   utxoTags: string[];
   selectedTags?: string[];
@@ -25,26 +25,26 @@ interface TagSelectorProps {
 }
 
 export const TagSelector = ({ 
-  utxoId, 
+  outpoint, 
   onSelect, 
   utxoTags, 
   selectedTags = [],
   trigger 
 }: TagSelectorProps) => {
-  const { tags, addTag, walletData } = useWallet();
+  const { tags, addTag, getUTXO } = useWallet();
   const location = useLocation();
   const [isOpen, setIsOpen] = useState(false);
   const [newTagName, setNewTagName] = useState("");
   const [newTagColor, setNewTagColor] = useState("#3b82f6");
   
   useEffect(() => {
-    console.log("TagSelector mounted for UTXO:", utxoId?.substring(0, 6));
+    console.log("TagSelector mounted for UTXO:", outpoint);
     console.log("Current tags for this UTXO:", utxoTags);
     
     return () => {
       console.log("TagSelector unmounted");
     };
-  }, [utxoId, utxoTags, location.pathname]);
+  }, [outpoint, utxoTags, location.pathname]);
 
   const handleAddTag = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -63,10 +63,7 @@ export const TagSelector = ({
       console.log("Calling onSelect with new tag ID:", newTag.id);
       onSelect(newTag.id);
       
-      if (walletData) {
-        const updatedUtxo = walletData.utxos.find(u => u.txid === utxoId);
-        console.log("Updated UTXO tags after add:", updatedUtxo?.tags);
-      }
+      console.log("Updated UTXO tags after add:", getUTXO(outpoint)?.tags);
     }
   };
 
@@ -85,7 +82,7 @@ export const TagSelector = ({
     const tag = tags.find(t => t.id === tagId);
     if (!tag) return;
     
-    const isTagApplied = walletData?.utxos.find(u => u.txid === utxoId)?.tags.some(tagName => {
+    const isTagApplied = getUTXO(outpoint)?.tags.some(tagName => {
       const existingTag = tags.find(t => t.name === tagName);
       return existingTag?.id === tag.id;
     });
@@ -99,10 +96,7 @@ export const TagSelector = ({
     }
     
     setTimeout(() => {
-      if (walletData) {
-        const updatedUtxo = walletData.utxos.find(u => u.txid === utxoId);
-        console.log("Updated UTXO tags after selection:", updatedUtxo?.tags);
-      }
+      console.log("Updated UTXO tags after selection:", getUTXO(outpoint)?.tags);
     }, 0);
   };
 
@@ -166,7 +160,7 @@ export const TagSelector = ({
               <ScrollArea className="h-[180px] pr-4 border rounded-md">
                 <div className="space-y-1 p-2">
                   {tags.map((tag) => {
-                    const isTagApplied = walletData?.utxos.find(u => u.txid === utxoId)?.tags.some(tagName => {
+                    const isTagApplied = getUTXO(outpoint)?.tags.some(tagName => {
                       const existingTag = tags.find(t => t.name === tagName);
                       return existingTag?.id === tag.id;
                     });
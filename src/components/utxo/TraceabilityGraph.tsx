@@ -10,6 +10,7 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import { useWallet } from "@/store/WalletContext";
 import {
   Drawer,
   DrawerClose,
@@ -29,6 +30,8 @@ export const TraceabilityGraph: React.FC<TraceabilityGraphProps> = ({
   utxos, 
   onSelectUtxo 
 }) => {
+  const { chainTransactions } = useWallet();
+
   // State for graph data
   const [graphData, setGraphData] = useState<{ nodes: GraphNode[], links: GraphLink[] }>({ nodes: [], links: [] });
   
@@ -74,7 +77,7 @@ export const TraceabilityGraph: React.FC<TraceabilityGraphProps> = ({
   // Generate graph data from filtered UTXOs
   useEffect(() => {
     const filteredUtxos = filterUTXOs(utxos, filters);
-    const newGraphData = createTraceabilityGraph(filteredUtxos);
+    const newGraphData = createTraceabilityGraph(filteredUtxos, chainTransactions);
     
     // Assign initial positions to nodes (simple force-directed layout)
     newGraphData.nodes.forEach((node, i) => {
@@ -90,7 +93,7 @@ export const TraceabilityGraph: React.FC<TraceabilityGraphProps> = ({
     });
     
     setGraphData(newGraphData);
-  }, [utxos, filters]);
+  }, [utxos, filters, chainTransactions]);
 
   // Apply simple force-directed layout (simulation)
   useEffect(() => {
@@ -2,7 +2,9 @@
 import React, { useState, useMemo } from "react";
 import { UTXO } from "@/types/utxo";
 import { UTXOFiltersState, TreemapGroupingOption } from "@/types/utxo-graph";
+import { AddressCluster } from "@/types/cluster";
 import { createTreemapData, safeFormatBTC, filterUTXOs } from "@/utils/visualization-utils";
+import { groupUtxosByCluster } from "@/utils/cluster-utils";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -39,11 +41,13 @@ import {
 interface TreemapVisualizationProps {
   utxos: UTXO[];
   onSelectUtxo?: (utxo: UTXO | null) => void;
+  clusters?: AddressCluster[];
 }
 
 export const TreemapVisualization: React.FC<TreemapVisualizationProps> = ({ 
   utxos, 
-  onSelectUtxo 
+  onSelectUtxo,
+  clusters = []
 }) => {
   // State for filters and selection
   const [filters, setFilters] = useState<UTXOFiltersState>({
@@ -85,8 +89,8 @@ export const TreemapVisualization: React.FC<TreemapVisualizationProps> = ({
   
   // Generate treemap data
   const treemapData = useMemo(() => {
-    return createTreemapData(filteredUtxos, groupingOption);
-  }, [filteredUtxos, groupingOption]);
+    return createTreemapData(filteredUtxos, groupingOption, clusters);
+  }, [filteredUtxos, groupingOption, clusters]);
   
   // Calculate total BTC amount
   const totalAmount = useMemo(() => {
@@ -196,6 +200,11 @@ export const TreemapVisualization: React.FC<TreemapVisualizationProps> = ({
       }
       return filteredUtxos.filter(utxo => utxo.tags.includes(categoryName));
     }
+    else if (groupingOption === "cluster") {
+      const group = groupUtxosByCluster(filteredUtxos, clusters)
+        .find(({ cluster }) => (cluster ? cluster.label : "Unlinked") === categoryName);
+      return group ? group.utxos : [];
+    }
     
     // For "none" grouping or fallback
     return [];
@@ -236,6 +245,7 @@ export const TreemapVisualization: React.FC<TreemapVisualizationProps> = ({
                 <SelectItem value="risk">Risk Level</SelectItem>
                 <SelectItem value="wallet">Wallet</SelectItem>
                 <SelectItem value="tag">Tag</SelectItem>
+                <SelectItem value="cluster">Cluster</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -1,39 +1,46 @@
 
 import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { useWallet } from "@/store/WalletContext";
 import { UTXO } from "@/types/utxo";
 import { TagSelector } from "./TagSelector";
+import { AuditTrail } from "./AuditTrail";
+import { UTXOLifecycleEditor } from "./UTXOLifecycleEditor";
+import { RiskExplanation } from "./RiskExplanation";
+import { getOutpoint } from "@/utils/utxo-utils";
+import { COINJOIN_PROTOCOL_LABELS } from "@/utils/coinjoin-utils";
 
 interface UTXODetailsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  utxoId: string | null;
-  onTagUpdate?: (utxoId: string, tagId: string | null, remove?: boolean) => void;
+  outpoint: string | null;
+  onTagUpdate?: (outpoint: string, tagId: string | null, remove?: boolean) => void;
 }
 
 export const UTXODetailsModal = ({
   open,
   onOpenChange,
-  utxoId,
+  outpoint,
   onTagUpdate,
 }: UTXODetailsModalProps) => {
   console.count("UTXODetailsModal render");
   console.log("Modal open:", open);
   
-  const { walletData } = useWallet();
+  const navigate = useNavigate();
+  const { getUTXO, getAuditTrail } = useWallet();
   const [count, setCount] = useState(0);
   
   const selectedUTXO = React.useMemo(() => {
-    if (!utxoId || !walletData) return null;
-    return walletData.utxos.find(u => u.txid === utxoId) || null;
-  }, [utxoId, walletData]);
+    if (!outpoint) return null;
+    return getUTXO(outpoint) || null;
+  }, [outpoint, getUTXO]);
 
   useEffect(() => {
     if (!open) {
       console.log("UTXODetailsModal: Dialog closed, resetting internal state");
     } else {
-      console.log("UTXODetailsModal: Dialog opened with UTXO ID:", utxoId?.substring(0, 6));
+      console.log("UTXODetailsModal: Dialog opened with UTXO:", outpoint);
       
       if (selectedUTXO) {
         console.log("Selected UTXO:", {
@@ -42,7 +49,7 @@ export const UTXODetailsModal = ({
         });
       }
     }
-  }, [open, utxoId, selectedUTXO]);
+  }, [open, outpoint, selectedUTXO]);
 
   useEffect(() => {
     const handleEscapeKey = (event: KeyboardEvent) => {
@@ -65,9 +72,9 @@ export const UTXODetailsModal = ({
   };
 
   const handleTagUpdate = (tagId: string, remove?: boolean) => {
-    if (utxoId && onTagUpdate) {
+    if (outpoint && onTagUpdate) {
       // Pass the remove flag to the parent component
-      onTagUpdate(utxoId, tagId, remove);
+      onTagUpdate(outpoint, tagId, remove);
     }
   };
 
@@ -104,8 +111,15 @@ export const UTXODetailsModal = ({
             <div className="grid gap-2">
               <div className="text-sm font-medium">Transaction ID</div>
               <div className="text-sm text-muted-foreground break-all">
-                {selectedUTXO.txid}
+                {selectedUTXO.txid}:{selectedUTXO.vout}
               </div>
+              <Button
+                variant="link"
+                className="h-auto p-0 justify-start"
+                onClick={() => navigate(`/transaction/${selectedUTXO.txid}`)}
+              >
+                Inspect the transaction that created this coin
+              </Button>
             </div>
 
             <div className="grid gap-2">
@@ -115,14 +129,39 @@ export const UTXODetailsModal = ({
               </div>
             </div>
 
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Status</div>
+              <UTXOLifecycleEditor utxo={selectedUTXO} />
+            </div>
+
+            {selectedUTXO.coinjoin && (
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Coinjoin</div>
+                <div className="text-sm text-muted-foreground">
+                  {COINJOIN_PROTOCOL_LABELS[selectedUTXO.coinjoin]}, anonset {selectedUTXO.anonset ?? 1}
+                  {(selectedUTXO.anonset ?? 1) === 1 && " (change, not mixed)"}
+                </div>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Privacy Risk</div>
+              <RiskExplanation utxo={selectedUTXO} />
+            </div>
+
             <div className="grid gap-2">
               <div className="text-sm font-medium">Tags</div>
               <TagSelector
-                utxoId={selectedUTXO.txid}
+                outpoint={getOutpoint(selectedUTXO)}
                 onSelect={handleTagUpdate}
                 utxoTags={selectedUTXO.tags || []}
               />
             </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Change History</div>
+              <AuditTrail entries={getAuditTrail(getOutpoint(selectedUTXO))} />
+            </div>
           </div>
         )}
 
@@ -7,9 +7,10 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Filter, Tag, Wallet } from "lucide-react";
+import { Code, Filter, Tag, Wallet } from "lucide-react";
 import { useWallet } from "@/store/WalletContext";
 import { getRiskColor } from "@/utils/utxo-utils";
+import { getScriptTypeLabel, SCRIPT_TYPE_ORDER } from "@/utils/script-utils";
 
 interface UTXOFiltersProps {
   searchTerm: string;
@@ -18,6 +19,8 @@ interface UTXOFiltersProps {
   setSelectedTags: (tags: string[]) => void;
   selectedRisk: string[];
   setSelectedRisk: (risk: string[]) => void;
+  selectedScriptTypes: string[];
+  setSelectedScriptTypes: (scriptTypes: string[]) => void;
   selectedWallet: string;
   setSelectedWallet: (wallet: string) => void;
   clearFilters: () => void;
@@ -31,6 +34,8 @@ export const UTXOFilters = ({
   setSelectedTags,
   selectedRisk,
   setSelectedRisk,
+  selectedScriptTypes,
+  setSelectedScriptTypes,
   selectedWallet,
   setSelectedWallet,
   clearFilters,
@@ -41,6 +46,12 @@ export const UTXOFilters = ({
   // Get unique wallet names from wallet data
   const wallets = walletData ? ["All Wallets", walletData.name, "Wallet 2"] : ["All Wallets"];
 
+  // Only offer script types that occur in the wallet; coins without one are "unknown"
+  const scriptTypes = walletData
+    ? [...SCRIPT_TYPE_ORDER, 'unknown' as const].filter(type =>
+        walletData.utxos.some(utxo => (utxo.scriptType ?? 'unknown') === type))
+    : [];
+
   return (
     <div className="flex flex-col space-y-4 mb-4">
       <div className="flex flex-col md:flex-row justify-between gap-3">
@@ -124,6 +135,37 @@ export const UTXOFilters = ({
           </DropdownMenuContent>
         </DropdownMenu>
 
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Code className="mr-2 h-4 w-4" />
+              Script Type
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="bg-popover text-popover-foreground z-50">
+            {scriptTypes.map((scriptType) => (
+              <DropdownMenuItem
+                key={scriptType}
+                className="flex items-center gap-2"
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  if (selectedScriptTypes.includes(scriptType)) {
+                    setSelectedScriptTypes(selectedScriptTypes.filter(t => t !== scriptType));
+                  } else {
+                    setSelectedScriptTypes([...selectedScriptTypes, scriptType]);
+                  }
+                }}
+              >
+                <span>{scriptType === 'unknown' ? 'Unknown' : getScriptTypeLabel(scriptType)}</span>
+                {selectedScriptTypes.includes(scriptType) && (
+                  <span className="ml-auto">✓</span>
+                )}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="outline" size="sm">
@@ -152,7 +194,7 @@ export const UTXOFilters = ({
           </DropdownMenuContent>
         </DropdownMenu>
         
-        {(searchTerm || selectedTags.length > 0 || selectedRisk.length > 0 || selectedWallet) && (
+        {(searchTerm || selectedTags.length > 0 || selectedRisk.length > 0 || selectedScriptTypes.length > 0 || selectedWallet) && (
           <Button variant="ghost" size="sm" onClick={clearFilters}>
             Clear Filters
           </Button>
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useNavigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useWallet } from "@/store/WalletContext";
+import { getBitcoinHistoricalPrice } from "@/services/coingeckoService";
+import { UTXO } from "@/types/utxo";
+import { formatBTC, formatFiat, formatTxid, getOutpoint } from "@/utils/utxo-utils";
+import { getUtxoStatus, UTXO_STATUS_LABELS } from "@/utils/lifecycle-utils";
+
+interface UTXOLifecycleEditorProps {
+  utxo: UTXO;
+}
+
+const parseOptionalNumber = (value: string): number | null => {
+  if (value.trim() === "") return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Shows where a coin is in its lifecycle and lets the user record a spend the chain backend can't see
+export function UTXOLifecycleEditor({ utxo }: UTXOLifecycleEditorProps) {
+  const navigate = useNavigate();
+  const { updateUtxoLifecycle, selectedCurrency } = useWallet();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLoadingPrice, setIsLoadingPrice] = useState(false);
+  const [spendTxid, setSpendTxid] = useState("");
+  const [spendDate, setSpendDate] = useState("");
+  const [pending, setPending] = useState(false);
+  const [feeShare, setFeeShare] = useState("");
+  const [proceeds, setProceeds] = useState("");
+
+  const outpoint = getOutpoint(utxo);
+  const status = getUtxoStatus(utxo);
+  const currency = selectedCurrency.toUpperCase();
+
+  const startEditing = () => {
+    setSpendTxid(utxo.spend?.txid ?? "");
+    setSpendDate(utxo.spend?.date ? format(new Date(utxo.spend.date), "yyyy-MM-dd") : "");
+    setPending(status === 'pending-spend');
+    setFeeShare(utxo.spend?.feeShare?.toString() ?? "");
+    setProceeds(utxo.disposalFiatValue?.toString() ?? "");
+    setIsEditing(true);
+  };
+
+  const fillProceedsFromPrice = async () => {
+    if (!spendDate) return;
+    setIsLoadingPrice(true);
+    try {
+      const price = await getBitcoinHistoricalPrice(spendDate, selectedCurrency);
+      if (price) {
+        setProceeds((utxo.amount * price).toFixed(2));
+      } else {
+        toast.error("Could not fetch the BTC price for that date");
+      }
+    } finally {
+      setIsLoadingPrice(false);
+    }
+  };
+
+  const saveSpend = () => {
+    const txid = spendTxid.trim();
+    if (txid && !/^[0-9a-fA-F]{64}$/.test(txid)) {
+      toast.error("The spending transaction id must be 64 hex characters");
+      return;
+    }
+    if (!pending && !spendDate) {
+      toast.error("Enter the date the coin was spent");
+      return;
+    }
+
+    updateUtxoLifecycle(outpoint, pending ? 'pending-spend' : 'spent', {
+      spend: {
+        txid: txid ? txid.toLowerCase() : null,
+        date: !pending && spendDate ? new Date(spendDate).toISOString() : null,
+        feeShare: parseOptionalNumber(feeShare),
+      },
+      disposalFiatValue: parseOptionalNumber(proceeds),
+    });
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant={status === 'unspent' ? "outline" : "secondary"}>{UTXO_STATUS_LABELS[status]}</Badge>
+        {!isEditing && (
+          <div className="flex flex-wrap justify-end gap-2">
+            {status !== 'abandoned' && (
+              <Button variant="outline" size="sm" onClick={startEditing}>
+                {status === 'unspent' ? "Mark as spent" : "Edit spend"}
+              </Button>
+            )}
+            {status === 'unspent' ? (
+              <Button variant="outline" size="sm" onClick={() => updateUtxoLifecycle(outpoint, 'abandoned')}>
+                Abandon
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => updateUtxoLifecycle(outpoint, 'unspent')}>
+                Mark as unspent
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {!isEditing && status !== 'unspent' && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-muted-foreground">
+          {utxo.spend && (
+            <>
+              <dt>Spent in</dt>
+              <dd>
+                {utxo.spend.txid ? (
+                  <Button
+                    variant="link"
+                    className="h-auto p-0 font-mono"
+                    onClick={() => navigate(`/transaction/${utxo.spend?.txid}`)}
+                  >
+                    {formatTxid(utxo.spend.txid, 8)}
+                  </Button>
+                ) : "Unknown transaction"}
+              </dd>
+              <dt>Fee share</dt>
+              <dd>{utxo.spend.feeShare !== null ? formatBTC(utxo.spend.feeShare, { trimZeros: true }) : "-"}</dd>
+            </>
+          )}
+          <dt>{status === 'abandoned' ? "Abandoned" : "Date"}</dt>
+          <dd>
+            {utxo.disposalDate
+              ? format(new Date(utxo.disposalDate), "MMM d, yyyy")
+              : status === 'pending-spend' ? "Unconfirmed" : "Unknown"}
+          </dd>
+          <dt>Proceeds</dt>
+          <dd>{formatFiat(utxo.disposalFiatValue, currency)}</dd>
+          <dt>Realized gain</dt>
+          <dd>{formatFiat(utxo.realizedGainFiat, currency)}</dd>
+        </dl>
+      )}
+
+      {isEditing && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid gap-1">
+            <Label htmlFor="spend-txid">Spending transaction</Label>
+            <Input
+              id="spend-txid"
+              value={spendTxid}
+              onChange={(e) => setSpendTxid(e.target.value)}
+              placeholder="Transaction id (optional)"
+              className="font-mono text-xs"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="spend-pending" checked={pending} onCheckedChange={(checked) => setPending(checked === true)} />
+            <Label htmlFor="spend-pending" className="font-normal">Not confirmed yet</Label>
+          </div>
+          {!pending && (
+            <div className="grid gap-1">
+              <Label htmlFor="spend-date">Date spent</Label>
+              <Input id="spend-date" type="date" value={spendDate} onChange={(e) => setSpendDate(e.target.value)} />
+            </div>
+          )}
+          <div className="grid gap-1">
+            <Label htmlFor="spend-fee">Fee share (BTC)</Label>
+            <Input
+              id="spend-fee"
+              type="number"
+              step="0.00000001"
+              value={feeShare}
+              onChange={(e) => setFeeShare(e.target.value)}
+              placeholder="This coin's part of the fee"
+            />
+          </div>
+          <div className="grid gap-1">
+            <Label htmlFor="spend-proceeds">Proceeds ({currency})</Label>
+            <div className="flex gap-2">
+              <Input
+                id="spend-proceeds"
+                type="number"
+                step="0.01"
+                value={proceeds}
+                onChange={(e) => setProceeds(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                onClick={fillProceedsFromPrice}
+                disabled={!spendDate || pending || isLoadingPrice}
+              >
+                {isLoadingPrice && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Price on date
+              </Button>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button size="sm" onClick={saveSpend}>Save</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
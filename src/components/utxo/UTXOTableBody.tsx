@@ -1,16 +1,19 @@
 import React, { useState } from "react";
-import { formatBTC, formatFiat, getRiskBadgeStyle, formatTxid } from "@/utils/utxo-utils";
+import { formatBTC, formatFiat, getRiskBadgeStyle, formatTxid, getOutpoint } from "@/utils/utxo-utils";
 import { UTXO } from "@/types/utxo";
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell, EditableCell } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Pencil, Save, X, Trash2, Plus, Calendar } from "lucide-react";
+import { Pencil, Save, X, Trash2, Plus, Calendar, AlertTriangle, History } from "lucide-react";
 import { useWallet } from "@/store/WalletContext";
 import { TagSelector } from "./TagSelector";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { format } from "date-fns";
 import { toast } from "sonner";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { getScriptTypeLabel } from "@/utils/script-utils";
+import { getUtxoStatus, UTXO_STATUS_LABELS } from "@/utils/lifecycle-utils";
 
 interface UTXOTableBodyProps {
   filteredUtxos: UTXO[];
@@ -19,19 +22,20 @@ interface UTXOTableBodyProps {
   sortConfig: { key: keyof UTXO; direction: 'asc' | 'desc' };
   handleSort: (key: keyof UTXO) => void;
   editableUtxo: string | null;
-  setEditableUtxo: (id: string | null) => void;
+  setEditableUtxo: (outpoint: string | null) => void;
   datePickerOpen: string | null;
-  setDatePickerOpen: (id: string | null) => void;
-  confirmDeleteUtxo: (id: string) => void;
-  handleTagSelection: (utxoId: string, tagId: string, remove?: boolean) => void;
+  setDatePickerOpen: (outpoint: string | null) => void;
+  confirmDeleteUtxo: (outpoint: string) => void;
+  handleTagSelection: (outpoint: string, tagId: string, remove?: boolean) => void;
   handleAddToSimulation: (utxo: UTXO) => void;
-  handleSenderAddressEdit: (utxoId: string, newValue: string) => void;
-  handleReceiverAddressEdit: (utxoId: string, newValue: string) => void;
-  handleDateEdit: (utxoId: string, date: Date | undefined) => void;
-  handleBtcPriceEdit: (utxoId: string, newValue: string) => void;
-  handleCostBasisEdit: (utxoId: string, newValue: string) => void;
-  handleNotesEdit: (utxoId: string, newValue: string) => void;
+  handleSenderAddressEdit: (outpoint: string, newValue: string) => void;
+  handleReceiverAddressEdit: (outpoint: string, newValue: string) => void;
+  handleDateEdit: (outpoint: string, date: Date | undefined) => void;
+  handleBtcPriceEdit: (outpoint: string, newValue: string) => void;
+  handleCostBasisEdit: (outpoint: string, newValue: string) => void;
+  handleNotesEdit: (outpoint: string, newValue: string) => void;
   onRowClick?: (utxo: UTXO) => void;
+  onShowDetails?: (outpoint: string) => void;
 }
 
 export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
@@ -53,7 +57,8 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
   handleBtcPriceEdit,
   handleCostBasisEdit,
   handleNotesEdit,
-  onRowClick
+  onRowClick,
+  onShowDetails
 }) => {
   const { tags, isUTXOSelected } = useWallet();
 
@@ -108,6 +113,14 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 Receiver {renderSortIndicator('receiverAddress')}
               </TableHead>
             )}
+            {visibleColumns.scriptType && (
+              <TableHead 
+                className="w-[90px] cursor-pointer" 
+                onClick={() => handleSort('scriptType')}
+              >
+                Script {renderSortIndicator('scriptType')}
+              </TableHead>
+            )}
             {visibleColumns.amount && (
               <TableHead 
                 className="w-[120px] cursor-pointer" 
@@ -174,11 +187,11 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
           ) : (
             filteredUtxos.map((utxo) => (
               <TableRow
-                key={`${utxo.txid}-${utxo.vout}`}
+                key={getOutpoint(utxo)}
                 className={`
                   border-b hover:bg-muted/50 
                   ${isUTXOSelected(utxo) ? 'bg-primary/10' : ''}
-                  ${editableUtxo === utxo.txid ? 'bg-muted/20' : ''}
+                  ${editableUtxo === getOutpoint(utxo) ? 'bg-muted/20' : ''}
                 `}
                 onClick={() => onRowClick && onRowClick(utxo)}
               >
@@ -188,6 +201,11 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                     <div className="flex flex-col">
                       <span className="font-semibold break-all">{formatTxid(utxo.txid, 8)}</span>
                       <span className="text-muted-foreground">vout: {utxo.vout}</span>
+                      {getUtxoStatus(utxo) !== 'unspent' && (
+                        <Badge variant="secondary" className="mt-1 w-fit font-sans">
+                          {UTXO_STATUS_LABELS[getUtxoStatus(utxo)]}
+                        </Badge>
+                      )}
                     </div>
                   </TableCell>
                 )}
@@ -204,8 +222,8 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 {/* Sender Address */}
                 {visibleColumns.senderAddress && (
                   <EditableCell
-                    isEditing={editableUtxo === utxo.txid}
-                    onSave={(value) => handleSenderAddressEdit(utxo.txid, value)}
+                    isEditing={editableUtxo === getOutpoint(utxo)}
+                    onSave={(value) => handleSenderAddressEdit(getOutpoint(utxo), value)}
                     initialValue={utxo.senderAddress || ''}
                     placeholder="Enter sender address"
                     className="font-mono text-xs"
@@ -227,8 +245,8 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 {/* Receiver Address */}
                 {visibleColumns.receiverAddress && (
                   <EditableCell
-                    isEditing={editableUtxo === utxo.txid}
-                    onSave={(value) => handleReceiverAddressEdit(utxo.txid, value)}
+                    isEditing={editableUtxo === getOutpoint(utxo)}
+                    onSave={(value) => handleReceiverAddressEdit(getOutpoint(utxo), value)}
                     initialValue={utxo.receiverAddress || ''}
                     placeholder="Enter receiver address"
                     className="font-mono text-xs"
@@ -247,6 +265,29 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                   </EditableCell>
                 )}
                 
+                {/* Script type */}
+                {visibleColumns.scriptType && (
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Badge variant="outline" className="uppercase" title={getScriptTypeLabel(utxo.scriptType)}>
+                        {utxo.scriptType ?? "?"}
+                      </Badge>
+                      {utxo.scriptMismatch && (
+                        <TooltipProvider>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <AlertTriangle className="h-4 w-4 text-amber-500" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              The address doesn't match this coin's scriptPubKey
+                            </TooltipContent>
+                          </Tooltip>
+                        </TooltipProvider>
+                      )}
+                    </div>
+                  </TableCell>
+                )}
+                
                 {/* Amount */}
                 {visibleColumns.amount && (
                   <TableCell className="font-mono text-right">
@@ -257,14 +298,14 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 {/* Acquisition Date */}
                 {visibleColumns.date && (
                   <TableCell>
-                    {editableUtxo === utxo.txid ? (
-                      <Popover open={datePickerOpen === utxo.txid} onOpenChange={(open) => !open && setDatePickerOpen(null)}>
+                    {editableUtxo === getOutpoint(utxo) ? (
+                      <Popover open={datePickerOpen === getOutpoint(utxo)} onOpenChange={(open) => !open && setDatePickerOpen(null)}>
                         <PopoverTrigger asChild>
                           <Button
                             variant="outline"
                             size="sm"
                             className="w-full justify-start text-left font-normal"
-                            onClick={() => setDatePickerOpen(datePickerOpen === utxo.txid ? null : utxo.txid)}
+                            onClick={() => setDatePickerOpen(datePickerOpen === getOutpoint(utxo) ? null : getOutpoint(utxo))}
                           >
                             <Calendar className="mr-2 h-4 w-4" />
                             {utxo.acquisitionDate ? formatDate(utxo.acquisitionDate) : 'Select date'}
@@ -275,7 +316,7 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                             mode="single"
                             selected={utxo.acquisitionDate ? new Date(utxo.acquisitionDate) : undefined}
                             onSelect={(date) => {
-                              handleDateEdit(utxo.txid, date);
+                              handleDateEdit(getOutpoint(utxo), date);
                               setDatePickerOpen(null);
                             }}
                             initialFocus
@@ -293,8 +334,8 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 {/* BTC Price at Acquisition */}
                 {visibleColumns.btcPrice && (
                   <EditableCell
-                    isEditing={editableUtxo === utxo.txid}
-                    onSave={(value) => handleBtcPriceEdit(utxo.txid, value)}
+                    isEditing={editableUtxo === getOutpoint(utxo)}
+                    onSave={(value) => handleBtcPriceEdit(getOutpoint(utxo), value)}
                     initialValue={utxo.acquisitionBtcPrice ? utxo.acquisitionBtcPrice.toString() : ''}
                     inputType="number"
                     placeholder="0.00"
@@ -309,8 +350,8 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 {/* Cost Basis */}
                 {visibleColumns.costBasis && (
                   <EditableCell
-                    isEditing={editableUtxo === utxo.txid}
-                    onSave={(value) => handleCostBasisEdit(utxo.txid, value)}
+                    isEditing={editableUtxo === getOutpoint(utxo)}
+                    onSave={(value) => handleCostBasisEdit(getOutpoint(utxo), value)}
                     initialValue={utxo.acquisitionFiatValue ? utxo.acquisitionFiatValue.toString() : ''}
                     inputType="number"
                     placeholder="0.00"
@@ -332,8 +373,8 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 {/* Notes */}
                 {visibleColumns.notes && (
                   <EditableCell
-                    isEditing={editableUtxo === utxo.txid}
-                    onSave={(value) => handleNotesEdit(utxo.txid, value)}
+                    isEditing={editableUtxo === getOutpoint(utxo)}
+                    onSave={(value) => handleNotesEdit(getOutpoint(utxo), value)}
                     initialValue={utxo.notes || ''}
                     placeholder="Add notes..."
                     isDisabled={false}
@@ -356,7 +397,7 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                             className="whitespace-nowrap text-xs"
                           >
                             {tag}
-                            {editableUtxo === utxo.txid && (
+                            {editableUtxo === getOutpoint(utxo) && (
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -365,7 +406,7 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                                   e.stopPropagation();
                                   const tagObj = tags.find(t => t.name === tag);
                                   if (tagObj) {
-                                    handleTagSelection(utxo.txid, tagObj.id, true);
+                                    handleTagSelection(getOutpoint(utxo), tagObj.id, true);
                                   }
                                 }}
                               >
@@ -378,11 +419,11 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                         <span className="text-muted-foreground italic text-xs">No tags</span>
                       )}
                       
-                      {editableUtxo === utxo.txid && (
+                      {editableUtxo === getOutpoint(utxo) && (
                         <TagSelector 
-                          utxoId={utxo.txid}
+                          outpoint={getOutpoint(utxo)}
                           utxoTags={utxo.tags}
-                          onSelect={(tagId) => handleTagSelection(utxo.txid, tagId)}
+                          onSelect={(tagId) => handleTagSelection(getOutpoint(utxo), tagId)}
                         />
                       )}
                     </div>
@@ -401,7 +442,7 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                 {/* Actions */}
                 {visibleColumns.actions && (
                   <TableCell className="text-right space-x-2">
-                    {editableUtxo === utxo.txid ? (
+                    {editableUtxo === getOutpoint(utxo) ? (
                       <>
                         <Button
                           variant="ghost"
@@ -422,12 +463,26 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                       </>
                     ) : (
                       <>
+                        {onShowDetails && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onShowDetails(getOutpoint(utxo));
+                            }}
+                            className="h-8 w-8"
+                            title="Details and change history"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
                           onClick={(e) => {
                             e.stopPropagation();
-                            setEditableUtxo(utxo.txid);
+                            setEditableUtxo(getOutpoint(utxo));
                           }}
                           className="h-8 w-8"
                           title="Edit UTXO"
@@ -451,7 +506,7 @@ export const UTXOTableBody: React.FC<UTXOTableBodyProps> = ({
                           size="icon"
                           onClick={(e) => {
                             e.stopPropagation();
-                            confirmDeleteUtxo(utxo.txid);
+                            confirmDeleteUtxo(getOutpoint(utxo));
                           }}
                           className="h-8 w-8 text-destructive hover:text-destructive"
                           title="Delete UTXO"
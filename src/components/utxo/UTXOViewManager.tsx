@@ -8,6 +8,7 @@ import { ResponsiveTraceabilityMatrix } from "./ResponsiveTraceabilityMatrix";
 import { EnhancedTimelineView } from "./EnhancedTimelineView";
 import { Tooltip, TooltipProvider, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 import { Info } from "lucide-react";
+import { useWallet } from "@/store/WalletContext";
 
 interface UTXOViewManagerProps {
   view: UTXOViewType;
@@ -17,20 +18,21 @@ interface UTXOViewManagerProps {
   sortConfig: { key: keyof UTXO; direction: 'asc' | 'desc' };
   handleSort: (key: keyof UTXO) => void;
   editableUtxo: string | null;
-  setEditableUtxo: (id: string | null) => void;
+  setEditableUtxo: (outpoint: string | null) => void;
   datePickerOpen: string | null;
-  setDatePickerOpen: (id: string | null) => void;
-  confirmDeleteUtxo: (id: string) => void;
-  handleTagSelection: (utxoId: string, tagId: string, remove?: boolean) => void;
+  setDatePickerOpen: (outpoint: string | null) => void;
+  confirmDeleteUtxo: (outpoint: string) => void;
+  handleTagSelection: (outpoint: string, tagId: string, remove?: boolean) => void;
   handleAddToSimulation: (utxo: UTXO) => void;
-  handleSenderAddressEdit: (utxoId: string, newValue: string) => void;
-  handleReceiverAddressEdit: (utxoId: string, newValue: string) => void;
-  handleDateEdit: (utxoId: string, date: Date | undefined) => void;
-  handleBtcPriceEdit: (utxoId: string, newValue: string) => void;
-  handleCostBasisEdit: (utxoId: string, newValue: string) => void;
-  handleNotesEdit: (utxoId: string, newValue: string) => void;
+  handleSenderAddressEdit: (outpoint: string, newValue: string) => void;
+  handleReceiverAddressEdit: (outpoint: string, newValue: string) => void;
+  handleDateEdit: (outpoint: string, date: Date | undefined) => void;
+  handleBtcPriceEdit: (outpoint: string, newValue: string) => void;
+  handleCostBasisEdit: (outpoint: string, newValue: string) => void;
+  handleNotesEdit: (outpoint: string, newValue: string) => void;
   selectedVisualUtxo: UTXO | null;
   handleVisualSelect: (utxo: UTXO | null) => void;
+  onShowDetails?: (outpoint: string) => void;
 }
 
 export const UTXOViewManager: React.FC<UTXOViewManagerProps> = ({
@@ -55,7 +57,10 @@ export const UTXOViewManager: React.FC<UTXOViewManagerProps> = ({
   handleNotesEdit,
   selectedVisualUtxo,
   handleVisualSelect,
+  onShowDetails,
 }) => {
+  const { clusters } = useWallet();
+
   const handleRowClick = (utxo: UTXO) => {
     // Only select for visualization if not currently editing
     if (!editableUtxo) {
@@ -120,6 +125,7 @@ export const UTXOViewManager: React.FC<UTXOViewManagerProps> = ({
             handleCostBasisEdit={handleCostBasisEdit}
             handleNotesEdit={handleNotesEdit}
             onRowClick={handleRowClick}
+            onShowDetails={onShowDetails}
           />
         </div>
       )}
@@ -132,6 +138,7 @@ export const UTXOViewManager: React.FC<UTXOViewManagerProps> = ({
               selectedUtxo={selectedVisualUtxo}
               showConnections={true}
               zoomLevel={1}
+              clusters={clusters}
             />
           ) : (
             <div className="absolute inset-0 flex items-center justify-center bg-muted/20 rounded-md">
@@ -2,7 +2,7 @@
 import { useState, useEffect } from "react";
 import { UTXO } from "@/types/utxo";
 import { useWallet } from "@/store/WalletContext";
-import { formatBTC } from "@/utils/utxo-utils";
+import { formatBTC, getOutpoint } from "@/utils/utxo-utils";
 import { 
   Wallet, ArrowRight, Database, ExternalLink, Filter, Calendar, 
   Tag as TagIcon, X, Edit, Check
@@ -114,7 +114,7 @@ export const UTXOVisualizer = ({ selectedUtxo, filteredUtxos, onUtxoSelect }: UT
     if (!selectedUtxo) return;
     
     updateUtxoCostBasis(
-      selectedUtxo.txid,
+      getOutpoint(selectedUtxo),
       selectedUtxo.acquisitionDate,
       selectedUtxo.acquisitionFiatValue,
       noteValue
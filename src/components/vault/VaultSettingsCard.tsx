@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { KeyRound, Loader2, Lock } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useVault } from "@/store/VaultContext";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: "After 5 minutes" },
+  { minutes: 15, label: "After 15 minutes" },
+  { minutes: 30, label: "After 30 minutes" },
+  { minutes: 60, label: "After 1 hour" },
+  { minutes: 0, label: "Never" },
+];
+
+// Error for a new passphrase and its confirmation, null once both are acceptable
+const checkNewPassphrase = (passphrase: string, confirmation: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirmation) return "Passphrases do not match";
+  return null;
+};
+
+export function VaultSettingsCard() {
+  const { isVaultEnabled, autoLockMinutes, lock, enableVault, changePassphrase, disableVault, setAutoLockMinutes } = useVault();
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const newPassphraseError = newPassphrase || confirmPassphrase
+    ? checkNewPassphrase(newPassphrase, confirmPassphrase)
+    : null;
+  const canSubmitNew = Boolean(newPassphrase) && !newPassphraseError;
+
+  const resetFields = () => {
+    setCurrentPassphrase("");
+    setNewPassphrase("");
+    setConfirmPassphrase("");
+  };
+
+  // Key derivation takes a moment, so every vault action shows progress and reports its outcome
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+      resetFields();
+      toast.success(success);
+    } catch (error) {
+      console.error("Vault operation failed:", error);
+      toast.error(error instanceof Error ? error.message : "The vault operation failed");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAutoLockChange = async (value: string) => {
+    try {
+      await setAutoLockMinutes(Number(value));
+      toast.success("Auto-lock updated");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not update auto-lock");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="mr-2 h-5 w-5" />
+          Encryption
+        </CardTitle>
+        <CardDescription>
+          {isVaultEnabled
+            ? "Saved data is encrypted with AES-GCM using a key derived from your passphrase (PBKDF2-SHA256)."
+            : "Saved addresses, cost basis and notes are stored in cleartext. Set a passphrase to encrypt them."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isVaultEnabled && (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Lock automatically</Label>
+              <Select value={String(autoLockMinutes)} onValueChange={handleAutoLockChange}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(option => (
+                    <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={() => lock()}>
+              <Lock className="mr-2 h-4 w-4" />
+              Lock Now
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {isVaultEnabled && (
+            <div className="space-y-2">
+              <Label htmlFor="vault-current">Current passphrase</Label>
+              <Input
+                id="vault-current"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vault-new">{isVaultEnabled ? "New passphrase" : "Passphrase"}</Label>
+              <Input
+                id="vault-new"
+                type="password"
+                autoComplete="new-password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vault-confirm">Confirm passphrase</Label>
+              <Input
+                id="vault-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+              />
+            </div>
+          </div>
+          {newPassphraseError && <p className="text-sm text-destructive">{newPassphraseError}</p>}
+          <p className="text-sm text-muted-foreground">
+            There is no way to recover the passphrase. If you forget it, clear the saved data and import your wallet again.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {isVaultEnabled ? (
+            <>
+              <Button
+                onClick={() => run(() => changePassphrase(currentPassphrase, newPassphrase), "Passphrase changed")}
+                disabled={!currentPassphrase || !canSubmitNew || isWorking}
+              >
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Change Passphrase
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={!currentPassphrase || isWorking}>
+                    Remove Encryption
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Remove encryption?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Your saved wallet data will be decrypted and stored in cleartext in this browser.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => run(() => disableVault(currentPassphrase), "Encryption removed")}>
+                      Remove
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          ) : (
+            <Button
+              onClick={() => run(() => enableVault(newPassphrase), "Saved data is now encrypted")}
+              disabled={!canSubmitNew || isWorking}
+            >
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Encrypt Saved Data
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { FormEvent, useState } from "react";
+import { Loader2, Lock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface VaultUnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+export function VaultUnlockScreen({ onUnlock }: VaultUnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (unlockError) {
+      console.error("Failed to unlock vault:", unlockError);
+      setError(unlockError instanceof Error ? unlockError.message : "Could not unlock the vault");
+      setPassphrase("");
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Lock className="mr-2 h-5 w-5" />
+            UTXO Intelligence is locked
+          </CardTitle>
+          <CardDescription>
+            Your saved wallet data is encrypted. Enter your passphrase to unlock it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase">Passphrase</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                disabled={isUnlocking}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+              {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Unlock
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Pencil, Trash2, Wallet as WalletIcon } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useWallet } from "@/store/WalletContext";
+import { Wallet, WalletSource } from "@/types/utxo";
+import { formatBTC } from "@/utils/utxo-utils";
+import { WALLET_COLORS } from "@/utils/wallet-utils";
+
+const SOURCE_LABELS: Record<WalletSource['type'], string> = {
+  json: "JSON",
+  csv: "CSV",
+  descriptor: "Descriptor",
+  xpub: "xpub",
+  'bitcoin-core': "Bitcoin Core",
+  'wallet-export': "Wallet export",
+  psbt: "PSBT",
+  demo: "Demo",
+};
+
+const describeSync = (wallet: Wallet) => {
+  switch (wallet.sync.status) {
+    case 'syncing':
+      return "Syncing…";
+    case 'synced':
+      return wallet.sync.lastSyncedAt ? `Synced ${format(new Date(wallet.sync.lastSyncedAt), "MMM d, HH:mm")}` : "Synced";
+    case 'error':
+      return `Sync failed: ${wallet.sync.error ?? "unknown error"}`;
+    default:
+      return "Not synced";
+  }
+};
+
+function WalletRow({ wallet }: { wallet: Wallet }) {
+  const { updateWalletInfo, removeWallet } = useWallet();
+  const [editedName, setEditedName] = useState<string | null>(null);
+
+  const saveName = () => {
+    if (editedName === null) return;
+    try {
+      updateWalletInfo(wallet.id, { name: editedName });
+      setEditedName(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not rename the wallet");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-md border p-3">
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            className="h-5 w-5 rounded-full border shrink-0"
+            style={{ backgroundColor: wallet.color }}
+            title="Change color"
+          />
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-2">
+          <div className="grid grid-cols-4 gap-2">
+            {WALLET_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                className="h-6 w-6 rounded-full border"
+                style={{ backgroundColor: color, outline: color === wallet.color ? "2px solid currentColor" : undefined }}
+                onClick={() => updateWalletInfo(wallet.id, { color })}
+              />
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <div className="flex-1 min-w-[200px] space-y-1">
+        {editedName !== null ? (
+          <Input
+            autoFocus
+            value={editedName}
+            onChange={(e) => setEditedName(e.target.value)}
+            onBlur={saveName}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveName();
+              if (e.key === "Escape") setEditedName(null);
+            }}
+            className="h-8"
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            <span className="font-medium truncate">{wallet.name}</span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setEditedName(wallet.name)} title="Rename">
+              <Pencil className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="outline" className="capitalize">{wallet.network}</Badge>
+          {wallet.source && <Badge variant="outline">{SOURCE_LABELS[wallet.source.type]}</Badge>}
+          {wallet.watchOnly && <Badge variant="outline">Watch-only</Badge>}
+          <span className={wallet.sync.status === 'error' ? "text-destructive" : undefined}>{describeSync(wallet)}</span>
+        </div>
+      </div>
+
+      <div className="text-right text-sm">
+        <div className="font-mono">{formatBTC(wallet.totalBalance)}</div>
+        <div className="text-muted-foreground">{wallet.utxos.length} UTXOs</div>
+      </div>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" size="icon" title="Remove wallet">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {wallet.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its {wallet.utxos.length} UTXOs, labels and cost basis are removed from the workspace. The change history keeps its entries.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => removeWallet(wallet.id)}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export function WalletManagerCard() {
+  const { wallets } = useWallet();
+
+  if (wallets.length === 0) return null;
+
+  return (
+    <Card className="bg-dark-card border-dark-border shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WalletIcon className="h-5 w-5" />
+          Your Wallets
+        </CardTitle>
+        <CardDescription>
+          Every import adds a wallet. Choose which wallets the pages show with the selector in the sidebar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {wallets.map(wallet => (
+          <WalletRow key={wallet.id} wallet={wallet} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
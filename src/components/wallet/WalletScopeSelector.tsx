@@ -0,0 +1,62 @@
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useWallet } from "@/store/WalletContext";
+import { describeScope } from "@/utils/wallet-utils";
+
+// Picks the wallets every page works with: one, several, or all of them
+export function WalletScopeSelector() {
+  const { wallets, scopedWallets, walletScope, setWalletScope } = useWallet();
+
+  if (wallets.length < 2) return null;
+
+  const isAll = walletScope === 'all' || scopedWallets.length === wallets.length;
+  const scopedIds = new Set(scopedWallets.map(wallet => wallet.id));
+
+  const toggleWallet = (walletId: string) => {
+    const next = scopedIds.has(walletId)
+      ? [...scopedIds].filter(id => id !== walletId)
+      : [...scopedIds, walletId];
+    // Unticking the last wallet would leave nothing to show, so it is ignored
+    if (next.length === 0) return;
+    setWalletScope(next.length === wallets.length ? 'all' : next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full justify-between">
+          <span className="flex items-center gap-2 truncate">
+            {!isAll && scopedWallets.length === 1 && (
+              <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: scopedWallets[0].color }} />
+            )}
+            <span className="truncate">{describeScope(wallets, walletScope)}</span>
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-2" align="start">
+        <button
+          type="button"
+          className="flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+          onClick={() => setWalletScope('all')}
+        >
+          All wallets
+          {isAll && <Check className="h-4 w-4" />}
+        </button>
+        <div className="my-1 h-px bg-border" />
+        {wallets.map(wallet => (
+          <label
+            key={wallet.id}
+            className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent"
+          >
+            <Checkbox checked={scopedIds.has(wallet.id)} onCheckedChange={() => toggleWallet(wallet.id)} />
+            <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: wallet.color }} />
+            <span className="truncate">{wallet.name}</span>
+          </label>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -219,7 +219,7 @@ export const mockUTXOs: UTXO[] = Array.from({ length: 25 }, (_, i) => {
     else privacyRisk = 'high';
   }
   
-  // Assign walletName with pattern - primarily for demo of wallet filter
+  // Spread the coins over the demo wallets with a pattern
   const walletName = i % 7 === 0 ? walletNames[1] : 
                     i % 5 === 0 ? walletNames[2] : 
                     i % 3 === 0 ? walletNames[3] : 
@@ -245,15 +245,22 @@ export const mockUTXOs: UTXO[] = Array.from({ length: 25 }, (_, i) => {
     notes: Math.random() > 0.6 ? `Demo UTXO #${i + 1} - ${selectedTags.join(', ')}` : null,
     senderAddress,
     receiverAddress,
-    walletName: Math.random() > 0.3 ? walletName : undefined
+    walletName
   };
 });
 
-export const mockWalletData: WalletData = {
-  name: 'Demo Wallet',
-  totalBalance: mockUTXOs.reduce((sum, utxo) => sum + utxo.amount, 0),
-  utxos: mockUTXOs
-};
+// The demo workspace: one wallet per name used above
+export const mockWallets: WalletData[] = walletNames
+  .map(name => {
+    const utxos = mockUTXOs.filter(utxo => utxo.walletName === name);
+    return {
+      name,
+      totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+      utxos,
+      source: { type: 'demo' as const, importedAt: new Date().toISOString() }
+    };
+  })
+  .filter(wallet => wallet.utxos.length > 0);
 
 // Create more realistic transactions with multiple inputs/outputs
 export const mockTransactions: Transaction[] = [
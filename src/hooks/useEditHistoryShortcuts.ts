@@ -0,0 +1,35 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useWallet } from "@/store/WalletContext";
+
+// Text fields keep the browser's own undo for what is being typed
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Ctrl+Z undoes the last UTXO edit, Ctrl+Shift+Z (or Ctrl+Y) redoes it. Cmd works in place of Ctrl.
+ */
+export function useEditHistoryShortcuts() {
+  const { undo, redo } = useWallet();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextInput(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      const isRedo = (key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey);
+      const isUndo = key === 'z' && !event.shiftKey;
+      if (!isUndo && !isRedo) return;
+
+      event.preventDefault();
+      const command = isUndo ? undo() : redo();
+      if (command) {
+        toast(`${isUndo ? 'Undid' : 'Redid'}: ${command.label}`);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -1,22 +1,42 @@
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { UTXO, SimulationResult } from "@/types/utxo";
+import { SimulatedChange } from "@/types/change";
 import { calculateTransactionPrivacyRisk } from "@/utils/utxo-utils";
 import { useWallet } from "@/store/WalletContext";
+import { DecodedPsbt, psbtToTransaction } from "@/utils/psbt-utils";
+import { validateAddress } from "@/utils/address-utils";
+import { assessOwnChange, ChangeTx } from "@/utils/change-utils";
 
 type Output = { address: string; amount: number };
 
+const toSats = (btc: number) => Math.round(btc * 100000000);
+
+// The drafted transaction with our change last, where most wallets put it
+const draftTransaction = (inputs: UTXO[], payments: Output[], change: number, changeAddress: string | null): ChangeTx => ({
+  inputs: inputs.map(utxo => ({ address: utxo.address, value: toSats(utxo.amount) })),
+  outputs: [
+    ...payments.map(output => ({ address: output.address, value: toSats(output.amount) })),
+    {
+      address: changeAddress,
+      value: toSats(change),
+      scriptType: changeAddress ? null : validateAddress(inputs[0].address).scriptType,
+    },
+  ],
+});
+
 export function useRiskSimulation() {
   const { toast } = useToast();
   const { 
+    walletData,
     selectedUTXOs, 
     preselectedForSimulation, 
     setPreselectedForSimulation 
   } = useWallet();
   
   const [outputs, setOutputs] = useState<Output[]>([
-    { address: "bc1qu6jf0q7cjmj9pz4ymmwdj6tt4rdh2z9vqzt3xw", amount: 0.1 }
+    { address: "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4", amount: 0.1 }
   ]);
   const [simulationResult, setSimulationResult] = useState<SimulationResult | null>(null);
   const [riskDetailsOpen, setRiskDetailsOpen] = useState(false);
@@ -27,6 +47,30 @@ export function useRiskSimulation() {
   const estimatedFeeRate = 0.0001;
   const estimatedFee = selectedUTXOs.length * estimatedFeeRate;
   const changeAmount = Math.max(0, totalInputAmount - totalOutputAmount - estimatedFee);
+
+  // Where the wallet would send change: its next unused change address, or else one like the inputs'
+  const changeAddress = useMemo(() => {
+    const received = new Set(walletData?.utxos.map(utxo => utxo.address));
+    return walletData?.addresses?.find(address =>
+      address.chain === 1 && !address.used && !received.has(address.address)
+    )?.address ?? null;
+  }, [walletData]);
+
+  // How an observer would see the change of paying these outputs from these inputs
+  const simulateChange = useCallback((inputs: UTXO[], payments: Output[]): SimulatedChange | null => {
+    const change = inputs.reduce((sum, utxo) => sum + utxo.amount, 0)
+      - payments.reduce((sum, output) => sum + output.amount, 0)
+      - inputs.length * estimatedFeeRate;
+    if (change <= 0) return null;
+    return assessOwnChange(draftTransaction(inputs, payments, change, changeAddress), payments.length);
+  }, [changeAddress, estimatedFeeRate]);
+
+  // Per-output address problems, null while the field is empty or valid
+  const network = walletData?.source?.network;
+  const outputErrors = useMemo(
+    () => outputs.map(output => output.address ? validateAddress(output.address, network).error : null),
+    [outputs, network]
+  );
   
   // For tag warnings
   const getUniqueTags = useCallback(() => {
@@ -72,7 +116,7 @@ export function useRiskSimulation() {
     if (field === 'amount') {
       newOutputs[index].amount = parseFloat(value) || 0;
     } else {
-      newOutputs[index].address = value;
+      newOutputs[index].address = value.trim();
     }
     setOutputs(newOutputs);
   };
@@ -100,6 +144,16 @@ export function useRiskSimulation() {
       return;
     }
 
+    const invalidIndex = outputErrors.findIndex(Boolean);
+    if (invalidIndex !== -1) {
+      toast({
+        variant: "destructive",
+        title: "Invalid output address",
+        description: `Output ${invalidIndex + 1}: ${outputErrors[invalidIndex]}`,
+      });
+      return;
+    }
+
     const currentTotalInputAmount = selectedUTXOs.reduce((sum, utxo) => sum + utxo.amount, 0);
     const currentEstimatedFee = selectedUTXOs.length * estimatedFeeRate;
     
@@ -112,10 +166,10 @@ export function useRiskSimulation() {
       return;
     }
 
-    const result = calculateTransactionPrivacyRisk(
-      selectedUTXOs,
-      outputs.map(o => o.address)
-    );
+    const result = {
+      ...calculateTransactionPrivacyRisk(selectedUTXOs, outputs.map(o => o.address)),
+      change: simulateChange(selectedUTXOs, outputs)
+    };
 
     setSimulationResult(result);
     console.log("Simulation result:", result);
@@ -129,18 +183,18 @@ export function useRiskSimulation() {
         description: "This transaction appears to maintain good privacy",
       });
     }
-  }, [selectedUTXOs, outputs, toast, totalOutputAmount, estimatedFeeRate]);
+  }, [selectedUTXOs, outputs, outputErrors, toast, totalOutputAmount, estimatedFeeRate, simulateChange]);
 
   // Preselected simulation effect
   useEffect(() => {
-    if (preselectedForSimulation && selectedUTXOs.length >= 2 && outputs[0].address) {
+    if (preselectedForSimulation && selectedUTXOs.length >= 2 && outputs[0].address && !outputErrors[0]) {
       console.log('Running preselected simulation with UTXOs:', selectedUTXOs.length);
       console.log('Selected UTXO IDs:', selectedUTXOs.map(u => `${u.txid.substring(0, 6)}...${u.vout}`));
       
-      const result = calculateTransactionPrivacyRisk(
-        selectedUTXOs,
-        outputs.map(o => o.address)
-      );
+      const result = {
+        ...calculateTransactionPrivacyRisk(selectedUTXOs, outputs.map(o => o.address)),
+        change: simulateChange(selectedUTXOs, outputs)
+      };
       
       setSimulationResult(result);
       setPreselectedForSimulation(false);
@@ -152,8 +206,37 @@ export function useRiskSimulation() {
         });
       }
     }
-  }, [preselectedForSimulation, selectedUTXOs, outputs, setPreselectedForSimulation, toast]);
+  }, [preselectedForSimulation, selectedUTXOs, outputs, outputErrors, setPreselectedForSimulation, toast, simulateChange]);
   
+  // Analyzes a real PSBT: its outputs replace the drafted ones and its actual fee is used,
+  // so the estimated-fee funds check doesn't apply
+  const loadPsbt = useCallback((psbt: DecodedPsbt, inputs: UTXO[]) => {
+    const psbtOutputs = psbt.outputs
+      .filter(output => output.address)
+      .map(output => ({ address: output.address!, amount: output.value / 100000000 }));
+    setOutputs(psbtOutputs.length > 0 ? psbtOutputs : [{ address: "", amount: 0 }]);
+    setPreselectedForSimulation(false);
+
+    // Outputs carrying our key derivations pay back to us
+    const changeIndex = psbt.outputs.findIndex(output => output.derivations.length > 0);
+    const risk = calculateTransactionPrivacyRisk(inputs, psbtOutputs.map(o => o.address));
+    const result: SimulationResult = {
+      ...risk,
+      transaction: {
+        ...psbtToTransaction(psbt, inputs),
+        privacyRisk: risk.privacyRisk,
+        reasons: risk.reasons
+      },
+      change: changeIndex !== -1 ? assessOwnChange(psbt, changeIndex) : null
+    };
+    setSimulationResult(result);
+
+    if (result.privacyRisk === 'high' || result.privacyRisk === 'medium') {
+      setRiskDetailsOpen(true);
+    }
+    return result;
+  }, [setPreselectedForSimulation]);
+
   // Reset simulation  
   const resetSimulation = useCallback(() => {
     setOutputs([{ address: "", amount: 0 }]);
@@ -164,6 +247,7 @@ export function useRiskSimulation() {
   return {
     // State
     outputs,
+    outputErrors,
     simulationResult,
     riskDetailsOpen,
     
@@ -184,6 +268,7 @@ export function useRiskSimulation() {
     handleOutputChange,
     simulateTransaction,
     resetSimulation,
+    loadPsbt,
     
     // Risk details modal
     setRiskDetailsOpen,
@@ -4,11 +4,13 @@ import { useWallet } from "@/store/WalletContext";
 import { UTXO } from "@/types/utxo";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { validateAddress } from "@/utils/address-utils";
 
 export function useUTXOModifiers() {
   const { 
     walletData, 
     tags, 
+    getUTXO,
     tagUTXO,
     updateUtxoCostBasis,
     updateUtxoAddresses,
@@ -16,68 +18,77 @@ export function useUTXOModifiers() {
     deleteUTXO,
   } = useWallet();
 
-  const handleTagSelection = useCallback((utxoId: string, tagId: string, remove?: boolean) => {
-    if (tagId && utxoId) {
+  const handleTagSelection = useCallback((outpoint: string, tagId: string, remove?: boolean) => {
+    if (tagId && outpoint) {
       if (remove) {
-        const utxo = walletData?.utxos.find(u => u.txid === utxoId);
+        const utxo = getUTXO(outpoint);
         const tag = tags.find(t => t.id === tagId);
         if (utxo && tag) {
-          console.log(`UTXOModifiers: Removing tag ${tag.name} from UTXO ${utxoId.substring(0, 8)}`);
-          tagUTXO(utxoId, null, tag.name);
+          console.log(`UTXOModifiers: Removing tag ${tag.name} from UTXO ${outpoint}`);
+          tagUTXO(outpoint, null, tag.name);
           toast("Tag removed from UTXO");
         }
       } else {
-        console.log(`UTXOModifiers: Adding tag ${tagId} to UTXO ${utxoId.substring(0, 8)}`);
-        tagUTXO(utxoId, tagId);
+        console.log(`UTXOModifiers: Adding tag ${tagId} to UTXO ${outpoint}`);
+        tagUTXO(outpoint, tagId);
         toast("Tag applied to UTXO");
       }
     }
-  }, [walletData, tags, tagUTXO]);
+  }, [getUTXO, tags, tagUTXO]);
 
-  const handleSenderAddressEdit = useCallback((utxoId: string, newValue: string) => {
-    if (!walletData) return;
-    
-    const utxo = walletData.utxos.find(u => u.txid === utxoId);
+  // Empty clears the field; anything else has to be an address on the wallet's network
+  const checkAddress = useCallback((value: string, label: string) => {
+    if (!value) return true;
+    const { error } = validateAddress(value, walletData?.source?.network);
+    if (error) {
+      toast.error(`${label} address not saved: ${error}`);
+      return false;
+    }
+    return true;
+  }, [walletData]);
+
+  const handleSenderAddressEdit = useCallback((outpoint: string, rawValue: string) => {
+    const utxo = getUTXO(outpoint);
     if (!utxo) return;
     
+    const newValue = rawValue.trim();
     // Only update if changed
-    if (utxo.senderAddress !== newValue) {
+    if ((utxo.senderAddress || "") !== newValue && checkAddress(newValue, "Sender")) {
       // Update the sender address
       if (updateUtxoAddresses && typeof updateUtxoAddresses === 'function') {
-        updateUtxoAddresses(utxoId, newValue, utxo.receiverAddress || "");
+        updateUtxoAddresses(outpoint, newValue, utxo.receiverAddress || "");
         toast("Sender address updated");
       }
     }
-  }, [walletData, updateUtxoAddresses]);
+  }, [getUTXO, updateUtxoAddresses, checkAddress]);
 
-  const handleReceiverAddressEdit = useCallback((utxoId: string, newValue: string) => {
-    if (!walletData) return;
-    
-    const utxo = walletData.utxos.find(u => u.txid === utxoId);
+  const handleReceiverAddressEdit = useCallback((outpoint: string, rawValue: string) => {
+    const utxo = getUTXO(outpoint);
     if (!utxo) return;
     
+    const newValue = rawValue.trim();
     // Only update if changed
-    if (utxo.receiverAddress !== newValue) {
+    if ((utxo.receiverAddress || "") !== newValue && checkAddress(newValue, "Receiver")) {
       // Update the receiver address
       if (updateUtxoAddresses && typeof updateUtxoAddresses === 'function') {
-        updateUtxoAddresses(utxoId, utxo.senderAddress || "", newValue);
+        updateUtxoAddresses(outpoint, utxo.senderAddress || "", newValue);
         toast("Receiver address updated");
       }
     }
-  }, [walletData, updateUtxoAddresses]);
+  }, [getUTXO, updateUtxoAddresses, checkAddress]);
 
-  const handleDateEdit = useCallback((utxoId: string, date: Date | undefined) => {
-    if (!walletData || !date) return;
+  const handleDateEdit = useCallback((outpoint: string, date: Date | undefined) => {
+    if (!date) return;
     
     const dateStr = format(date, 'yyyy-MM-dd');
-    const utxo = walletData.utxos.find(u => u.txid === utxoId);
+    const utxo = getUTXO(outpoint);
     if (!utxo) return;
     
     // Only update if changed
     if (utxo.acquisitionDate !== dateStr) {
       // Use the existing values for other fields
       updateUtxoCostBasis(
-        utxoId,
+        outpoint,
         dateStr,
         utxo.acquisitionFiatValue,
         utxo.notes
@@ -86,7 +97,7 @@ export function useUTXOModifiers() {
       toast("Acquisition date updated");
       
       // Auto-populate BTC price based on the new date
-      autoPopulateUTXOCostBasis(utxoId)
+      autoPopulateUTXOCostBasis(outpoint)
         .then(success => {
           if (!success) {
             toast.error("Could not fetch historical Bitcoin price for the selected date");
@@ -96,12 +107,10 @@ export function useUTXOModifiers() {
           console.error("Error auto-populating price:", err);
         });
     }
-  }, [walletData, updateUtxoCostBasis, autoPopulateUTXOCostBasis]);
+  }, [getUTXO, updateUtxoCostBasis, autoPopulateUTXOCostBasis]);
 
-  const handleBtcPriceEdit = useCallback((utxoId: string, newValue: string) => {
-    if (!walletData) return;
-    
-    const utxo = walletData.utxos.find(u => u.txid === utxoId);
+  const handleBtcPriceEdit = useCallback((outpoint: string, newValue: string) => {
+    const utxo = getUTXO(outpoint);
     if (!utxo) return;
     
     const parsedValue = parseFloat(newValue);
@@ -119,7 +128,7 @@ export function useUTXOModifiers() {
       
       // Update the UTXO with the new BTC price and calculated fiat value
       updateUtxoCostBasis(
-        utxoId,
+        outpoint,
         utxo.acquisitionDate,
         newAcquisitionFiatValue,
         utxo.notes
@@ -127,12 +136,10 @@ export function useUTXOModifiers() {
       
       toast("BTC price and cost basis updated");
     }
-  }, [walletData, updateUtxoCostBasis]);
+  }, [getUTXO, updateUtxoCostBasis]);
 
-  const handleCostBasisEdit = useCallback((utxoId: string, newValue: string) => {
-    if (!walletData) return;
-    
-    const utxo = walletData.utxos.find(u => u.txid === utxoId);
+  const handleCostBasisEdit = useCallback((outpoint: string, newValue: string) => {
+    const utxo = getUTXO(outpoint);
     if (!utxo) return;
     
     const parsedValue = parseFloat(newValue);
@@ -146,7 +153,7 @@ export function useUTXOModifiers() {
     if (utxo.acquisitionFiatValue !== newCostBasis) {
       // Use the existing values for other fields
       updateUtxoCostBasis(
-        utxoId,
+        outpoint,
         utxo.acquisitionDate,
         newCostBasis,
         utxo.notes
@@ -154,19 +161,17 @@ export function useUTXOModifiers() {
       
       toast("Cost basis updated");
     }
-  }, [walletData, updateUtxoCostBasis]);
+  }, [getUTXO, updateUtxoCostBasis]);
 
-  const handleNotesEdit = useCallback((utxoId: string, newValue: string) => {
-    if (!walletData) return;
-    
-    const utxo = walletData.utxos.find(u => u.txid === utxoId);
+  const handleNotesEdit = useCallback((outpoint: string, newValue: string) => {
+    const utxo = getUTXO(outpoint);
     if (!utxo) return;
     
     // Only update if changed
     if (utxo.notes !== newValue) {
       // Use the existing values for other fields
       updateUtxoCostBasis(
-        utxoId,
+        outpoint,
         utxo.acquisitionDate,
         utxo.acquisitionFiatValue,
         newValue
@@ -174,11 +179,11 @@ export function useUTXOModifiers() {
       
       toast("Notes updated");
     }
-  }, [walletData, updateUtxoCostBasis]);
+  }, [getUTXO, updateUtxoCostBasis]);
 
-  const deleteUtxoItem = useCallback((utxoId: string) => {
+  const deleteUtxoItem = useCallback((outpoint: string) => {
     if (deleteUTXO && typeof deleteUTXO === 'function') {
-      deleteUTXO(utxoId);
+      deleteUTXO(outpoint);
       toast("UTXO deleted from wallet");
       return true;
     } else {
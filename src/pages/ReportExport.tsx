@@ -5,6 +5,8 @@ import { FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@/store/WalletContext";
 import { createDownloadableJSON, createDownloadableCSV } from "@/utils/utxo-utils";
+import { createDownloadableBip329 } from "@/utils/bip329-utils";
+import { auditEntriesToRows } from "@/utils/history-utils";
 import { Report } from "@/types/utxo";
 import WalletSummary from "@/components/report/WalletSummary";
 import PrivacyAnalysisReport from "@/components/report/PrivacyAnalysisReport";
@@ -13,7 +15,7 @@ import ExportOptions from "@/components/report/ExportOptions";
 const ReportExport = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { walletData, hasWallet, generateReport } = useWallet();
+  const { walletData, hasWallet, generateReport, auditLog } = useWallet();
   const [report, setReport] = useState<Report | null>(null);
 
   if (!hasWallet) {
@@ -47,7 +49,8 @@ const ReportExport = () => {
     if (!walletData) return;
     
     const downloadLink = document.createElement("a");
-    downloadLink.href = createDownloadableJSON(report || walletData);
+    // The change journal travels with the report so cost basis changes can be explained later
+    downloadLink.href = createDownloadableJSON({ ...(report || walletData), auditTrail: auditLog });
     downloadLink.download = `utxo-intelligence-report-${new Date().toISOString().slice(0, 10)}.json`;
     downloadLink.click();
     
@@ -71,6 +74,40 @@ const ReportExport = () => {
     });
   };
 
+  const handleDownloadBip329 = () => {
+    if (!walletData) return;
+
+    const downloadLink = document.createElement("a");
+    downloadLink.href = createDownloadableBip329(walletData);
+    downloadLink.download = `utxo-intelligence-labels-${new Date().toISOString().slice(0, 10)}.jsonl`;
+    downloadLink.click();
+
+    toast({
+      title: "Labels exported",
+      description: "Your tags and notes have been exported as BIP329 labels",
+    });
+  };
+
+  const handleDownloadAuditTrail = () => {
+    if (auditLog.length === 0) {
+      toast({
+        title: "Nothing to export",
+        description: "No changes have been recorded yet",
+      });
+      return;
+    }
+
+    const downloadLink = document.createElement("a");
+    downloadLink.href = createDownloadableCSV(auditEntriesToRows(auditLog));
+    downloadLink.download = `utxo-intelligence-audit-${new Date().toISOString().slice(0, 10)}.csv`;
+    downloadLink.click();
+
+    toast({
+      title: "Audit trail exported",
+      description: `${auditLog.length} recorded changes have been exported in CSV format`,
+    });
+  };
+
   return (
     <div className="container px-2 md:px-4 py-6">
       <div className="flex items-center mb-6">
@@ -91,6 +128,8 @@ const ReportExport = () => {
             <ExportOptions 
               onDownloadJSON={handleDownloadJSON}
               onDownloadCSV={handleDownloadCSV}
+              onDownloadBip329={handleDownloadBip329}
+              onDownloadAuditTrail={handleDownloadAuditTrail}
             />
           </>
         )}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useNavigate, useLocation } from "react-router-dom"; 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -28,7 +28,11 @@ import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@/store/WalletContext";
 import { useRiskSimulation } from "@/hooks/useRiskSimulation";
 import { formatBTC, getRiskColor, getRiskTextColor, getRiskBadgeStyle } from "@/utils/utxo-utils";
-import { Check, Info, Trash, AlertTriangle, ArrowRight, Eye, RefreshCcw, Shield, Calendar, Tags } from "lucide-react";
+import { Check, Info, Trash, AlertTriangle, ArrowRight, Eye, RefreshCcw, Shield, Calendar, Tags, FileCode } from "lucide-react";
+import { PsbtLoader } from "@/components/import/PsbtLoader";
+import { PsbtSummary } from "@/components/import/PsbtSummary";
+import { DecodedPsbt, decodePsbt, psbtInputsToUtxos } from "@/utils/psbt-utils";
+import { CHANGE_HEURISTIC_LABELS } from "@/utils/change-utils";
 
 const RiskSimulator = () => {
   const navigate = useNavigate();
@@ -37,6 +41,8 @@ const RiskSimulator = () => {
   const { 
     selectedUTXOs, 
     hasWallet,
+    walletData,
+    selectUTXO,
     clearSelectedUTXOs,
     isUTXOSelected,
     toggleUTXOSelection
@@ -44,6 +50,8 @@ const RiskSimulator = () => {
 
   const [confirmModalOpen, setConfirmModalOpen] = useState(false);
   const [resetModalOpen, setResetModalOpen] = useState(false);
+  const [psbtModalOpen, setPsbtModalOpen] = useState(false);
+  const [loadedPsbt, setLoadedPsbt] = useState<DecodedPsbt | null>(null);
   
   const {
     outputs,
@@ -59,11 +67,44 @@ const RiskSimulator = () => {
     handleAddOutput,
     handleRemoveOutput,
     handleOutputChange,
+    outputErrors,
     simulateTransaction,
     resetSimulation,
+    loadPsbt,
     setRiskDetailsOpen
   } = useRiskSimulation();
 
+  // PSBT inputs replace the selection; wallet UTXOs keep their tags and risk
+  const analyzePsbt = useCallback((psbt: DecodedPsbt) => {
+    const inputs = psbtInputsToUtxos(psbt, walletData?.utxos, walletData?.name);
+    clearSelectedUTXOs();
+    inputs.forEach(selectUTXO);
+    const result = loadPsbt(psbt, inputs);
+    setLoadedPsbt(psbt);
+    setPsbtModalOpen(false);
+
+    if (result.privacyRisk === 'low') {
+      toast({
+        title: "Low Privacy Risk",
+        description: "This PSBT appears to maintain good privacy",
+      });
+    }
+  }, [walletData, clearSelectedUTXOs, selectUTXO, loadPsbt, toast]);
+
+  // PSBTs handed over from the import page arrive in the navigation state
+  const incomingPsbt = (location.state as { psbt?: string } | null)?.psbt;
+  const handledPsbtRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!incomingPsbt || !hasWallet || handledPsbtRef.current === incomingPsbt) return;
+    handledPsbtRef.current = incomingPsbt;
+    try {
+      analyzePsbt(decodePsbt(incomingPsbt));
+    } catch (error) {
+      console.error("Failed to load PSBT from navigation state:", error);
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [incomingPsbt, hasWallet, analyzePsbt, navigate, location.pathname]);
+
   useEffect(() => {
     return () => {
       console.log("RiskSimulator: Component unmounting, clearing modal states");
@@ -86,6 +127,7 @@ const RiskSimulator = () => {
   const handleResetSimulation = () => {
     clearSelectedUTXOs();
     resetSimulation();
+    setLoadedPsbt(null);
     toast({
       title: "Simulation Reset",
       description: "All inputs and outputs have been cleared",
@@ -119,6 +161,14 @@ const RiskSimulator = () => {
       <div className="flex flex-col md:flex-row justify-between gap-3 mb-6">
         <h1 className="text-2xl font-bold text-foreground">Risk Simulator</h1>
         <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPsbtModalOpen(true)}
+          >
+            <FileCode className="mr-2 h-4 w-4" />
+            Load PSBT
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -266,8 +316,11 @@ const RiskSimulator = () => {
                       placeholder="Address"
                       value={output.address}
                       onChange={(e) => handleOutputChange(index, 'address', e.target.value)}
-                      className="text-xs font-mono"
+                      className={`text-xs font-mono ${outputErrors[index] ? "border-destructive" : ""}`}
                     />
+                    {outputErrors[index] && (
+                      <p className="text-xs text-destructive">{outputErrors[index]}</p>
+                    )}
                     <div className="flex gap-2">
                       <Input
                         id={`amount-${index}`}
@@ -320,6 +373,20 @@ const RiskSimulator = () => {
         </Card>
       </div>
 
+      {loadedPsbt && (
+        <Card className="mt-6 bg-card border-border shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <FileCode className="mr-2 h-5 w-5" />
+              Loaded PSBT
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PsbtSummary psbt={loadedPsbt} />
+          </CardContent>
+        </Card>
+      )}
+
       {simulationResult && (
         <Card className="mt-6 bg-card border-border shadow-sm">
           <CardHeader>
@@ -363,6 +430,37 @@ const RiskSimulator = () => {
                 </div>
               )}
             </div>
+
+            {simulationResult.change && (
+              <>
+                <Separator />
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-medium">Change Output:</h3>
+                    <Badge variant="outline">
+                      {Math.round(simulationResult.change.confidence * 100)}% identifiable
+                    </Badge>
+                  </div>
+                  <p className="text-sm">
+                    {simulationResult.change.identified
+                      ? `An observer would pick output ${simulationResult.change.index + 1} (${formatBTC(simulationResult.change.amount)}) as your change.`
+                      : simulationResult.change.observerPick !== null
+                        ? `An observer would take output ${simulationResult.change.observerPick + 1} for change instead of yours.`
+                        : "No output stands out as change, so an observer can't tell which one is yours."}
+                  </p>
+                  {simulationResult.change.signals.length > 0 && (
+                    <ul className="list-disc pl-5 space-y-1">
+                      {simulationResult.change.signals.map(signal => (
+                        <li key={signal.heuristic} className="text-sm">
+                          <span className="font-medium">{CHANGE_HEURISTIC_LABELS[signal.heuristic]}:</span> {signal.detail}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
             
             <Separator />
             
@@ -398,6 +496,21 @@ const RiskSimulator = () => {
         </Card>
       )}
 
+      <Dialog
+        open={psbtModalOpen}
+        onOpenChange={setPsbtModalOpen}
+      >
+        <DialogContent className="bg-card text-foreground border-border max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Analyze a PSBT</DialogTitle>
+            <DialogDescription>
+              Check the privacy of a partially signed transaction before signing it on your hardware wallet
+            </DialogDescription>
+          </DialogHeader>
+          <PsbtLoader onDecoded={analyzePsbt} />
+        </DialogContent>
+      </Dialog>
+
       <AlertDialog 
         open={resetModalOpen} 
         onOpenChange={setResetModalOpen}
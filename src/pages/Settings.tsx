@@ -1,18 +1,44 @@
 
 import { useState } from "react";
-import { FileText, CircleDollarSign } from "lucide-react";
+import { FileText, CircleDollarSign, Server, HardDrive } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useWallet } from "@/store/WalletContext";
 import { toast } from "sonner";
+import { ChainBackendType } from "@/types/chain";
+import { BitcoinNetwork } from "@/types/bitcoin";
+import { getEsploraTipHeight, normalizeEsploraUrl } from "@/services/esploraService";
+import { getBlockCount } from "@/services/bitcoinCoreService";
+import { getElectrumTipHeight } from "@/services/electrumService";
+import { VaultSettingsCard } from "@/components/vault/VaultSettingsCard";
+import { WorkspaceBackupCard } from "@/components/backup/WorkspaceBackupCard";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 
 const Settings = () => {
   const navigate = useNavigate();
-  const { selectedCurrency, setSelectedCurrency } = useWallet();
+  const { selectedCurrency, setSelectedCurrency, chainBackendConfig, setChainBackendConfig, clearSavedWorkspace } = useWallet();
   const [currency, setCurrency] = useState(selectedCurrency);
+  const [backendType, setBackendType] = useState<ChainBackendType>(chainBackendConfig.type);
+  const [esploraUrl, setEsploraUrl] = useState(chainBackendConfig.esploraUrl);
+  const [electrumUrl, setElectrumUrl] = useState(chainBackendConfig.electrumUrl);
+  const [electrumNetwork, setElectrumNetwork] = useState<BitcoinNetwork>(chainBackendConfig.electrumNetwork);
+  const [coreConfig, setCoreConfig] = useState(chainBackendConfig.bitcoinCore);
+  const [isTesting, setIsTesting] = useState(false);
 
   const currencies = [
     { id: "usd", label: "USD ($)", symbol: "$" },
@@ -32,6 +58,47 @@ const Settings = () => {
     toast.success("Currency preference saved");
   };
 
+  const handleTestConnection = async () => {
+    setIsTesting(true);
+    try {
+      let height: number;
+      if (backendType === "bitcoin-core") {
+        height = await getBlockCount(coreConfig);
+      } else if (backendType === "electrum") {
+        height = await getElectrumTipHeight(electrumUrl.trim());
+      } else {
+        height = await getEsploraTipHeight(esploraUrl);
+      }
+      toast.success(`Connected. Current block height: ${height}`);
+    } catch (error) {
+      console.error("Chain backend connection test failed:", error);
+      toast.error(error instanceof Error ? error.message : "Could not connect to the chain backend");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSaveChainBackend = () => {
+    setChainBackendConfig({
+      ...chainBackendConfig,
+      type: backendType,
+      esploraUrl: normalizeEsploraUrl(esploraUrl),
+      electrumUrl: electrumUrl.trim(),
+      electrumNetwork,
+      bitcoinCore: coreConfig
+    });
+    toast.success("Chain data settings saved");
+  };
+
+  const handleClearSavedData = async () => {
+    try {
+      await clearSavedWorkspace();
+      toast.success("Saved data cleared");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not clear saved data");
+    }
+  };
+
   return (
     <div className="container px-2 md:px-4 py-6">
       <div className="flex items-center mb-6">
@@ -72,6 +139,180 @@ const Settings = () => {
           </CardContent>
         </Card>
         
+        <Card>
+          <CardHeader>
+            <CardTitle>Chain Data Source</CardTitle>
+            <CardDescription>
+              Where confirmations, dates and sender addresses are fetched from
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RadioGroup
+              className="grid grid-cols-2 gap-4"
+              value={backendType}
+              onValueChange={(value) => setBackendType(value as ChainBackendType)}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="none" id="backend-none" />
+                <Label htmlFor="backend-none">Offline (imported data only)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="esplora" id="backend-esplora" />
+                <Label htmlFor="backend-esplora" className="flex items-center">
+                  <Server className="h-4 w-4 mr-2" />
+                  Esplora server
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="electrum" id="backend-electrum" />
+                <Label htmlFor="backend-electrum" className="flex items-center">
+                  <Server className="h-4 w-4 mr-2" />
+                  Electrum server
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="bitcoin-core" id="backend-core" />
+                <Label htmlFor="backend-core" className="flex items-center">
+                  <Server className="h-4 w-4 mr-2" />
+                  Bitcoin Core RPC
+                </Label>
+              </div>
+            </RadioGroup>
+
+            {backendType === "esplora" && (
+              <div className="mt-4 grid gap-1.5">
+                <Label htmlFor="esploraUrl">Esplora API URL</Label>
+                <Input
+                  id="esploraUrl"
+                  placeholder="https://mempool.space/api"
+                  value={esploraUrl}
+                  onChange={(e) => setEsploraUrl(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Use your own instance to avoid revealing your addresses to a third party.
+                </p>
+              </div>
+            )}
+
+            {backendType === "electrum" && (
+              <div className="mt-4 grid gap-1.5">
+                <Label htmlFor="electrumUrl">Electrum WebSocket URL</Label>
+                <Input
+                  id="electrumUrl"
+                  placeholder="ws://127.0.0.1:50003"
+                  value={electrumUrl}
+                  onChange={(e) => setElectrumUrl(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Browsers can't open TCP connections, so point this at a Fulcrum/ElectrumX WebSocket port or a TCP-to-WebSocket bridge.
+                </p>
+                <Label htmlFor="electrumNetwork" className="mt-2">Network</Label>
+                <Select value={electrumNetwork} onValueChange={(value) => setElectrumNetwork(value as BitcoinNetwork)}>
+                  <SelectTrigger id="electrumNetwork">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mainnet">Mainnet</SelectItem>
+                    <SelectItem value="testnet">Testnet</SelectItem>
+                    <SelectItem value="signet">Signet</SelectItem>
+                    <SelectItem value="regtest">Regtest</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {backendType === "bitcoin-core" && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid gap-1.5 md:col-span-2">
+                  <Label htmlFor="coreUrl">RPC URL</Label>
+                  <Input
+                    id="coreUrl"
+                    placeholder="http://127.0.0.1:8332"
+                    value={coreConfig.url}
+                    onChange={(e) => setCoreConfig({ ...coreConfig, url: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label htmlFor="coreUser">RPC username</Label>
+                  <Input
+                    id="coreUser"
+                    value={coreConfig.username}
+                    onChange={(e) => setCoreConfig({ ...coreConfig, username: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label htmlFor="corePassword">RPC password</Label>
+                  <Input
+                    id="corePassword"
+                    type="password"
+                    value={coreConfig.password}
+                    onChange={(e) => setCoreConfig({ ...coreConfig, password: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-1.5 md:col-span-2">
+                  <Label htmlFor="coreWallet">Wallet name</Label>
+                  <Input
+                    id="coreWallet"
+                    placeholder="Leave empty for the default wallet"
+                    value={coreConfig.wallet}
+                    onChange={(e) => setCoreConfig({ ...coreConfig, wallet: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    bitcoind does not send CORS headers, so browsers need a local proxy in front of the RPC port.
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="mt-6 flex gap-2">
+              <Button onClick={handleSaveChainBackend}>
+                Save Chain Settings
+              </Button>
+              {backendType !== "none" && (
+                <Button variant="outline" onClick={handleTestConnection} disabled={isTesting}>
+                  {isTesting ? "Testing..." : "Test Connection"}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+        
+        <VaultSettingsCard />
+
+        <WorkspaceBackupCard />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HardDrive className="h-5 w-5" />
+              Saved Data
+            </CardTitle>
+            <CardDescription>
+              Your wallet, tags, notes and settings are saved in this browser (IndexedDB) and restored on reload.
+              Nothing leaves your device.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive">Clear Saved Data</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear saved data?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This deletes the saved wallet, tags, notes and settings from this browser. Download a backup first if you want to keep them.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleClearSavedData}>Clear</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </CardContent>
+        </Card>
+        
         <Button
           variant="outline"
           className="justify-start"
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowRight, FileCode, Loader2, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useWallet } from "@/store/WalletContext";
+import { UTXO } from "@/types/utxo";
+import { formatBTC, formatTxid } from "@/utils/utxo-utils";
+import { DecodedTransaction, decodeTransaction } from "@/utils/transaction-utils";
+
+// Locktimes below this are block heights, above it Unix timestamps
+const LOCKTIME_THRESHOLD = 500000000;
+
+const describeLocktime = (locktime: number) => {
+  if (locktime === 0) return "None";
+  if (locktime < LOCKTIME_THRESHOLD) return `Block ${locktime}`;
+  return new Date(locktime * 1000).toLocaleString();
+};
+
+const formatSequence = (sequence: number) => `0x${sequence.toString(16).padStart(8, "0")}`;
+
+const TransactionDetail = () => {
+  const { txid } = useParams<{ txid?: string }>();
+  const navigate = useNavigate();
+  const { walletData, getChainBackend } = useWallet();
+  const [rawHex, setRawHex] = useState("");
+  const [decoded, setDecoded] = useState<DecodedTransaction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+
+  const network = walletData?.source?.network ?? "mainnet";
+  const backend = getChainBackend();
+  const canFetch = Boolean(txid && backend?.getTransactionHex);
+
+  // Wallet coins by outpoint, to link outputs of this transaction back to the wallet
+  const walletUtxos = useMemo(() => {
+    const byOutpoint = new Map<string, UTXO>();
+    walletData?.utxos.forEach(utxo => byOutpoint.set(`${utxo.txid}:${utxo.vout}`, utxo));
+    return byOutpoint;
+  }, [walletData]);
+
+  const decode = useCallback((hex: string) => {
+    try {
+      setDecoded(decodeTransaction(hex, network));
+      setError(null);
+    } catch (decodeError) {
+      console.error("Failed to decode transaction:", decodeError);
+      setDecoded(null);
+      setError(decodeError instanceof Error ? decodeError.message : "Could not decode the transaction");
+    }
+  }, [network]);
+
+  const fetchTransaction = useCallback(async () => {
+    if (!txid || !backend?.getTransactionHex) return;
+
+    setIsFetching(true);
+    try {
+      const hex = await backend.getTransactionHex(txid);
+      setRawHex(hex);
+      decode(hex);
+    } catch (fetchError) {
+      console.error("Failed to fetch transaction:", fetchError);
+      setError(fetchError instanceof Error ? fetchError.message : "Could not fetch the transaction");
+    } finally {
+      setIsFetching(false);
+    }
+  }, [txid, backend, decode]);
+
+  useEffect(() => {
+    setDecoded(null);
+    setRawHex("");
+    setError(null);
+    fetchTransaction();
+  }, [fetchTransaction]);
+
+  const txidMismatch = decoded && txid && decoded.txid !== txid;
+
+  return (
+    <div className="container py-6">
+      <h1 className="text-3xl font-bold mb-2">Transaction</h1>
+      <p className="text-muted-foreground mb-6 break-all">
+        {txid ? <span className="font-mono">{txid}</span> : "Decode a raw transaction to inspect its inputs and outputs"}
+      </p>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Raw Transaction</CardTitle>
+          <CardDescription>
+            {canFetch
+              ? `Fetched from ${backend!.name}. You can also paste the hex of any other transaction.`
+              : txid
+                ? "No chain backend that serves raw transactions is configured. Paste the transaction hex instead."
+                : "Paste a serialized transaction in hex (legacy or segwit)."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Textarea
+            className="min-h-[120px] font-mono text-xs"
+            placeholder="0200000001..."
+            value={rawHex}
+            onChange={(e) => setRawHex(e.target.value)}
+          />
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => decode(rawHex)} disabled={!rawHex.trim()}>
+              <FileCode className="mr-2 h-4 w-4" />
+              Decode
+            </Button>
+            {canFetch && (
+              <Button variant="outline" onClick={fetchTransaction} disabled={isFetching}>
+                {isFetching
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <RefreshCw className="mr-2 h-4 w-4" />}
+                Fetch again
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {decoded && (
+        <>
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+              {txidMismatch && (
+                <CardDescription className="text-amber-500">
+                  This transaction's id does not match the one in the address bar.
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm">
+                <div className="md:col-span-2">
+                  <span className="font-medium">TXID:</span>
+                  <span className="ml-2 font-mono text-xs break-all">{decoded.txid}</span>
+                </div>
+                <div className="md:col-span-2">
+                  <span className="font-medium">WTXID:</span>
+                  <span className="ml-2 font-mono text-xs break-all">{decoded.wtxid}</span>
+                </div>
+                <div><span className="font-medium">Version:</span> <span className="ml-2">{decoded.version}</span></div>
+                <div><span className="font-medium">Locktime:</span> <span className="ml-2">{describeLocktime(decoded.locktime)}</span></div>
+                <div><span className="font-medium">Size:</span> <span className="ml-2">{decoded.size} bytes</span></div>
+                <div><span className="font-medium">Virtual size:</span> <span className="ml-2">{decoded.vsize} vB</span></div>
+                <div><span className="font-medium">Weight:</span> <span className="ml-2">{decoded.weight} WU</span></div>
+                <div><span className="font-medium">Total output:</span> <span className="ml-2">{formatBTC(decoded.totalOutput / 100000000)}</span></div>
+              </div>
+              <div className="flex flex-wrap gap-2 mt-4">
+                <Badge variant="outline">{decoded.segwit ? "SegWit" : "Legacy"}</Badge>
+                {decoded.rbf && <Badge variant="outline">RBF signaled</Badge>}
+                {decoded.inputs.some(input => input.coinbase) && <Badge variant="outline">Coinbase</Badge>}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_auto_1fr] gap-4 items-start">
+            <Card>
+              <CardHeader>
+                <CardTitle>Inputs ({decoded.inputs.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {decoded.inputs.map((input, index) => (
+                  <div key={`${input.txid}:${input.vout}:${index}`} className="p-2 rounded-md bg-muted space-y-1 text-sm">
+                    {input.coinbase ? (
+                      <div className="font-medium">Coinbase (newly mined coins)</div>
+                    ) : (
+                      <Link to={`/transaction/${input.txid}`} className="font-mono text-xs text-primary hover:underline">
+                        {formatTxid(input.txid, 8)}:{input.vout}
+                      </Link>
+                    )}
+                    <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                      {input.scriptType && <Badge variant="secondary">{input.scriptType}</Badge>}
+                      <span>sequence {formatSequence(input.sequence)}</span>
+                      {input.witness.length > 0 && <span>{input.witness.length} witness items</span>}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <ArrowRight className="hidden lg:block h-5 w-5 mt-16 text-muted-foreground" />
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Outputs ({decoded.outputs.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {decoded.outputs.map(output => {
+                  const walletUtxo = walletUtxos.get(`${decoded.txid}:${output.vout}`);
+                  return (
+                    <div
+                      key={output.vout}
+                      className={`p-2 rounded-md space-y-1 text-sm ${walletUtxo ? "bg-primary/10 border border-primary/30" : "bg-muted"}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span>#{output.vout} · {formatBTC(output.value / 100000000)}</span>
+                        <Badge variant="secondary">{output.scriptType}</Badge>
+                      </div>
+                      <div className="font-mono text-xs text-muted-foreground break-all">
+                        {output.address ?? `script ${output.scriptPubKey}`}
+                      </div>
+                      {walletUtxo && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge>In wallet</Badge>
+                          {walletUtxo.tags.map(tag => <Badge key={tag} variant="outline">{tag}</Badge>)}
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0"
+                            onClick={() => navigate(`/utxo-map?view=table&utxo=${walletUtxo.txid}:${walletUtxo.vout}`)}
+                          >
+                            View UTXO
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransactionDetail;
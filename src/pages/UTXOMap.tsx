@@ -3,23 +3,27 @@ import React, { useState, useEffect } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { useWallet } from "@/store/WalletContext";
-import { Eye, EyeOff, ZoomIn, ZoomOut } from "lucide-react";
+import { Eye, EyeOff, RefreshCw, ZoomIn, ZoomOut } from "lucide-react";
 import { UTXO } from "@/types/utxo";
 import { toast } from "sonner";
 import { EnhancedTimelineView } from "@/components/utxo/EnhancedTimelineView";
 import { ResponsiveTraceabilityMatrix } from "@/components/utxo/ResponsiveTraceabilityMatrix";
 import { PrivacyTreemap } from "@/components/utxo/PrivacyTreemap";
 import { UTXOTableBody } from "@/components/utxo/UTXOTableBody";
+import { EditHistoryPanel } from "@/components/utxo/EditHistoryPanel";
+import { UTXODetailsModal } from "@/components/utxo/UTXODetailsModal";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { formatBTC } from "@/utils/utxo-utils";
+import { formatBTC, getOutpoint } from "@/utils/utxo-utils";
 import { getRiskTextColor } from "@/utils/utxo-utils";
+import { isHeldUtxo } from "@/utils/lifecycle-utils";
 import { Tooltip, TooltipProvider, TooltipTrigger, TooltipContent } from "@/components/ui/tooltip";
 import { useUTXOModifiers } from "@/hooks/useUTXOModifiers";
 
 const UTXOMap: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
-  const { walletData, hasWallet } = useWallet();
+  const { walletData, hasWallet, chainBackendConfig, refreshChainData, syncFromBitcoinCore, clusters } = useWallet();
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
   const [selectedUtxo, setSelectedUtxo] = useState<UTXO | null>(null);
   const [activeView, setActiveView] = useState<"table" | "timeline" | "traceability" | "treemap">(
     (searchParams.get("view") as "table" | "timeline" | "traceability" | "treemap") || "timeline"
@@ -29,6 +33,7 @@ const UTXOMap: React.FC = () => {
   
   // Table-specific state for UTXOTableBody
   const [editableUtxo, setEditableUtxo] = useState<string | null>(null);
+  const [detailsOutpoint, setDetailsOutpoint] = useState<string | null>(null);
   const [datePickerOpen, setDatePickerOpen] = useState<string | null>(null);
 
   // UTXO modifiers for table functionality
@@ -50,6 +55,14 @@ const UTXOMap: React.FC = () => {
     }
   }, [hasWallet, navigate]);
 
+  // Deep links (e.g. from the transaction page) select a coin with ?utxo=txid:vout
+  const linkedOutpoint = searchParams.get("utxo");
+  useEffect(() => {
+    if (!linkedOutpoint || !walletData) return;
+    const linked = walletData.utxos.find(utxo => getOutpoint(utxo) === linkedOutpoint);
+    if (linked) setSelectedUtxo(linked);
+  }, [linkedOutpoint, walletData]);
+
   const handleUtxoSelect = (utxo: UTXO | null) => {
     setSelectedUtxo(utxo);
     if (utxo) {
@@ -81,11 +94,37 @@ const UTXOMap: React.FC = () => {
     // Sorting can be implemented if needed for the table view
   };
 
-  const confirmDeleteUtxo = (id: string) => {
-    deleteUtxoItem(id);
+  const confirmDeleteUtxo = (outpoint: string) => {
+    deleteUtxoItem(outpoint);
     toast.success("UTXO deleted successfully");
   };
 
+  const handleRefreshChainData = async () => {
+    setIsRefreshing(true);
+    try {
+      // A Core wallet is the source of truth for its own UTXO set, so reload it entirely
+      if (chainBackendConfig.type === "bitcoin-core" && walletData?.source?.type === "bitcoin-core") {
+        const synced = await syncFromBitcoinCore();
+        toast.success(`Synced ${synced.utxos.filter(isHeldUtxo).length} UTXOs from Bitcoin Core`);
+        return;
+      }
+      
+      const result = await refreshChainData();
+      if (!result) return;
+      const spentNote = result.spentCount > 0 ? `, ${result.spentCount} newly spent` : "";
+      if (result.failedTxids.length > 0) {
+        toast.warning(`Updated ${result.updatedCount} UTXOs${spentNote}, ${result.failedTxids.length} transactions could not be found`);
+      } else {
+        toast.success(`Updated ${result.updatedCount} UTXOs from chain data${spentNote}`);
+      }
+    } catch (error) {
+      console.error("Chain refresh failed:", error);
+      toast.error(error instanceof Error ? error.message : "Could not reach the chain backend");
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
   const handleAddToSimulation = (utxo: UTXO) => {
     toast.info(`UTXO ${utxo.txid.substring(0, 8)}... added to simulation`);
   };
@@ -105,6 +144,21 @@ const UTXOMap: React.FC = () => {
     <div className="container px-4 md:px-8 py-6">
       <div className="flex flex-col md:flex-row justify-between gap-3 mb-6">
         <h1 className="text-2xl font-bold text-foreground">UTXO Visualization Suite</h1>
+        
+        <div className="flex flex-wrap items-center gap-2">
+          <EditHistoryPanel />
+          {chainBackendConfig.type !== "none" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRefreshChainData}
+              disabled={isRefreshing}
+            >
+              <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+              {isRefreshing ? "Refreshing..." : "Refresh from chain"}
+            </Button>
+          )}
+        </div>
       </div>
 
       <Tabs 
@@ -227,6 +281,7 @@ const UTXOMap: React.FC = () => {
                       wallet: true,
                       senderAddress: true,
                       receiverAddress: true,
+                      scriptType: true,
                       amount: true,
                       date: true,
                       btcPrice: true,
@@ -252,6 +307,7 @@ const UTXOMap: React.FC = () => {
                     handleCostBasisEdit={handleCostBasisEdit}
                     handleNotesEdit={handleNotesEdit}
                     onRowClick={(utxo) => handleUtxoSelect(utxo)}
+                    onShowDetails={setDetailsOutpoint}
                   />
                 </div>
               </div>
@@ -279,6 +335,7 @@ const UTXOMap: React.FC = () => {
                   selectedUtxo={selectedUtxo}
                   showConnections={showConnections}
                   zoomLevel={zoomLevel}
+                  clusters={clusters}
                 />
               ) : (
                 <div className="h-full flex items-center justify-center bg-muted/20 rounded-md">
@@ -295,6 +352,7 @@ const UTXOMap: React.FC = () => {
                   utxos={walletData.utxos}
                   onSelectUtxo={handleUtxoSelect}
                   zoomLevel={zoomLevel}
+                  clusters={clusters}
                 />
               ) : (
                 <div className="h-full flex items-center justify-center bg-muted/20 rounded-md">
@@ -305,6 +363,13 @@ const UTXOMap: React.FC = () => {
           </TabsContent>
         </div>
       </Tabs>
+
+      <UTXODetailsModal
+        open={detailsOutpoint !== null}
+        onOpenChange={(open) => !open && setDetailsOutpoint(null)}
+        outpoint={detailsOutpoint}
+        onTagUpdate={(outpoint, tagId, remove) => tagId && handleTagSelection(outpoint, tagId, remove)}
+      />
       
       {/* Display selected UTXO information */}
       {selectedUtxo && (
@@ -312,6 +377,9 @@ const UTXOMap: React.FC = () => {
           <h2 className="text-lg font-bold mb-2">Selected UTXO</h2>
           <div className="flex flex-wrap items-center gap-2">
             <span className="font-mono text-sm break-all">{selectedUtxo.txid}:{selectedUtxo.vout}</span>
+            <Button variant="outline" size="sm" onClick={() => navigate(`/transaction/${selectedUtxo.txid}`)}>
+              Inspect Transaction
+            </Button>
             <Button variant="outline" size="sm" onClick={() => setSelectedUtxo(null)}>Clear Selection</Button>
           </div>
           <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-2">
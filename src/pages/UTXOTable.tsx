@@ -1,6 +1,8 @@
 import { useState, useMemo, useEffect } from "react";
 import { useNavigate, useLocation } from "react-router-dom"; 
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,7 +20,11 @@ import { AddUTXOModal } from "@/components/portfolio/AddUTXOModal";
 import { Bookmark, Network, Table } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { UTXO } from "@/types/utxo";
+import { getOutpoint } from "@/utils/utxo-utils";
+import { isHeldUtxo } from "@/utils/lifecycle-utils";
 import { UTXOViewManager } from "@/components/utxo/UTXOViewManager";
+import { EditHistoryPanel } from "@/components/utxo/EditHistoryPanel";
+import { UTXODetailsModal } from "@/components/utxo/UTXODetailsModal";
 import { useUTXOModifiers } from "@/hooks/useUTXOModifiers";
 
 const UTXOTable = () => {
@@ -27,6 +33,7 @@ const UTXOTable = () => {
   const isMobile = useIsMobile();
   const { 
     walletData, 
+    spentUtxos,
     hasWallet,
     isUTXOSelected,
     toggleUTXOSelection,
@@ -50,18 +57,21 @@ const UTXOTable = () => {
   // Set view state to "table" only - visual view removed
   const [currentView, setCurrentView] = useState<"table" | "visual">("table");
   const [selectedVisualUtxo, setSelectedVisualUtxo] = useState<UTXO | null>(locationState?.selectedUtxo || null);
+  const [detailsOutpoint, setDetailsOutpoint] = useState<string | null>(null);
   
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedRisk, setSelectedRisk] = useState<string[]>([]);
+  const [selectedScriptTypes, setSelectedScriptTypes] = useState<string[]>([]);
   const [selectedWallet, setSelectedWallet] = useState<string>("");
+  const [showSpent, setShowSpent] = useState(false);
   const [sortConfig, setSortConfig] = useState<{ key: keyof UTXO; direction: 'asc' | 'desc' }>({
     key: 'amount',
     direction: 'desc'
   });
   const [editableUtxo, setEditableUtxo] = useState<string | null>(null);
   const [datePickerOpen, setDatePickerOpen] = useState<string | null>(null);
-  const [deleteUtxoId, setDeleteUtxoId] = useState<string | null>(null);
+  const [deleteOutpoint, setDeleteOutpoint] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState<boolean>(false);
   const [addUTXOModalOpen, setAddUTXOModalOpen] = useState<boolean>(false);
 
@@ -70,7 +80,7 @@ const UTXOTable = () => {
       console.log("UTXOTable: Component unmounting, clearing state");
       setEditableUtxo(null);
       setDatePickerOpen(null);
-      setDeleteUtxoId(null);
+      setDeleteOutpoint(null);
       setDeleteDialogOpen(false);
     };
   }, [location.pathname]);
@@ -85,7 +95,9 @@ const UTXOTable = () => {
   const filteredUtxos = useMemo(() => {
     if (!walletData) return [];
 
-    return walletData.utxos.filter(utxo => {
+    const utxos = showSpent ? [...walletData.utxos, ...spentUtxos] : walletData.utxos;
+
+    return utxos.filter(utxo => {
       // For demonstration, we'll pretend some UTXOs belong to "Wallet 2"
       const walletName = utxo.walletName || walletData.name;
       
@@ -110,8 +122,12 @@ const UTXOTable = () => {
       const matchesRisk = 
         selectedRisk.length === 0 || 
         selectedRisk.includes(utxo.privacyRisk);
+
+      const matchesScriptType =
+        selectedScriptTypes.length === 0 ||
+        selectedScriptTypes.includes(utxo.scriptType ?? 'unknown');
       
-      return matchesSearch && matchesTags && matchesRisk && matchesWallet;
+      return matchesSearch && matchesTags && matchesRisk && matchesScriptType && matchesWallet;
     }).sort((a, b) => {
       if (sortConfig.key === 'amount') {
         return sortConfig.direction === 'asc' 
@@ -158,7 +174,7 @@ const UTXOTable = () => {
       }
       return bValue.localeCompare(aValue);
     });
-  }, [walletData, searchTerm, selectedTags, selectedRisk, selectedWallet, sortConfig, tags]);
+  }, [walletData, spentUtxos, showSpent, searchTerm, selectedTags, selectedRisk, selectedScriptTypes, selectedWallet, sortConfig, tags]);
 
   const handleSort = (key: keyof UTXO) => {
     setSortConfig(prev => ({
@@ -168,6 +184,11 @@ const UTXOTable = () => {
   };
 
   const handleAddToSimulation = (utxo: UTXO) => {
+    if (!isHeldUtxo(utxo)) {
+      toast.error("Spent and abandoned UTXOs can't be added to a simulation");
+      return;
+    }
+
     console.log('UTXOTable: Adding to simulation:', utxo.txid.substring(0, 6), 'vout:', utxo.vout);
     
     toggleUTXOSelection(utxo);
@@ -184,34 +205,35 @@ const UTXOTable = () => {
     setSearchTerm("");
     setSelectedTags([]);
     setSelectedRisk([]);
+    setSelectedScriptTypes([]);
     setSelectedWallet("");
   };
 
   // Handle UTXO deletion
-  const confirmDeleteUtxo = (utxoId: string) => {
-    setDeleteUtxoId(utxoId);
+  const confirmDeleteUtxo = (outpoint: string) => {
+    setDeleteOutpoint(outpoint);
     setDeleteDialogOpen(true);
   };
 
   const handleDeleteUtxo = () => {
-    if (!deleteUtxoId) return;
+    if (!deleteOutpoint) return;
     
-    const success = deleteUtxoItem(deleteUtxoId);
+    const success = deleteUtxoItem(deleteOutpoint);
     if (success) {
       // If the deleted UTXO was selected for visualization, clear the selection
-      if (selectedVisualUtxo && selectedVisualUtxo.txid === deleteUtxoId) {
+      if (selectedVisualUtxo && getOutpoint(selectedVisualUtxo) === deleteOutpoint) {
         setSelectedVisualUtxo(null);
         setCurrentView("table");
       }
     }
     
     // Reset state
-    setDeleteUtxoId(null);
+    setDeleteOutpoint(null);
     setDeleteDialogOpen(false);
   };
 
   const cancelDeleteUtxo = () => {
-    setDeleteUtxoId(null);
+    setDeleteOutpoint(null);
     setDeleteDialogOpen(false);
   };
 
@@ -247,6 +269,7 @@ const UTXOTable = () => {
         wallet: true,
         senderAddress: false,
         receiverAddress: false,
+        scriptType: false,
         amount: true,
         date: false,
         btcPrice: false,
@@ -262,6 +285,7 @@ const UTXOTable = () => {
       wallet: true,
       senderAddress: true,
       receiverAddress: true,
+      scriptType: true,
       amount: true,
       date: true,
       btcPrice: true,
@@ -281,6 +305,8 @@ const UTXOTable = () => {
         <h1 className="text-2xl font-bold text-foreground">UTXO Management</h1>
         
         <div className="flex flex-wrap items-center gap-2">
+          <EditHistoryPanel />
+
           {/* Table View button with icon */}
           <Button
             variant="default"
@@ -322,12 +348,21 @@ const UTXOTable = () => {
           setSelectedTags={setSelectedTags}
           selectedRisk={selectedRisk}
           setSelectedRisk={setSelectedRisk}
+          selectedScriptTypes={selectedScriptTypes}
+          setSelectedScriptTypes={setSelectedScriptTypes}
           selectedWallet={selectedWallet}
           setSelectedWallet={setSelectedWallet}
           clearFilters={clearFilters}
           onAddUTXO={handleAddUTXO}
         />
 
+        {spentUtxos.length > 0 && (
+          <div className="flex items-center space-x-2 mb-4">
+            <Switch id="show-spent" checked={showSpent} onCheckedChange={setShowSpent} />
+            <Label htmlFor="show-spent">Show {spentUtxos.length} spent and abandoned UTXOs</Label>
+          </div>
+        )}
+
         <div className="overflow-x-auto md:overflow-visible">
           <UTXOViewManager
             view="table" 
@@ -351,6 +386,7 @@ const UTXOTable = () => {
             handleNotesEdit={handleNotesEdit}
             selectedVisualUtxo={selectedVisualUtxo}
             handleVisualSelect={handleVisualSelect}
+            onShowDetails={setDetailsOutpoint}
           />
         </div>
       </div>
@@ -374,6 +410,13 @@ const UTXOTable = () => {
         </AlertDialogContent>
       </AlertDialog>
 
+      <UTXODetailsModal
+        open={detailsOutpoint !== null}
+        onOpenChange={(open) => !open && setDetailsOutpoint(null)}
+        outpoint={detailsOutpoint}
+        onTagUpdate={(outpoint, tagId, remove) => tagId && handleTagSelection(outpoint, tagId, remove)}
+      />
+
       {/* Add UTXO Modal */}
       <AddUTXOModal 
         open={addUTXOModalOpen} 
@@ -1,29 +1,72 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Shield, Upload, FileJson, Watch, ArrowRight } from "lucide-react";
+import { Shield, Upload, FileJson, Watch, ArrowRight, KeyRound, Server, FileSpreadsheet, FileCode } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@/store/WalletContext";
-import { mockWalletData } from "@/data/mockData";
+import { mockWallets } from "@/data/mockData";
+import { createOfflineChainBackend } from "@/services/offlineChainBackend";
+import { DEFAULT_GAP_LIMIT } from "@/services/walletDiscoveryService";
+import { XpubScriptType } from "@/utils/xpub-utils";
+import { isBip329Content } from "@/utils/bip329-utils";
+import { CsvImportWizard } from "@/components/import/CsvImportWizard";
+import { WalletManagerCard } from "@/components/wallet/WalletManagerCard";
+import { PsbtLoader } from "@/components/import/PsbtLoader";
+import { PsbtSummary } from "@/components/import/PsbtSummary";
+import { DecodedPsbt, psbtToWalletData } from "@/utils/psbt-utils";
+import { UTXO } from "@/types/utxo";
 
 const WalletImport = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { importFromJson, importWallet } = useWallet();
+  const {
+    importFromJson,
+    importFromDescriptor,
+    importFromXpub,
+    importBip329Labels,
+    importFromCsv,
+    importWallet,
+    importWallets,
+    getChainBackend,
+    chainBackendConfig,
+    walletData,
+    syncFromBitcoinCore
+  } = useWallet();
   const [jsonData, setJsonData] = useState("");
+  const [fileName, setFileName] = useState<string | undefined>();
   const [descriptor, setDescriptor] = useState("");
+  const [rangeStart, setRangeStart] = useState(0);
+  const [rangeCount, setRangeCount] = useState(20);
+  const [xpub, setXpub] = useState("");
+  const [xpubScriptType, setXpubScriptType] = useState<XpubScriptType | "auto">("auto");
+  const [gapLimit, setGapLimit] = useState(DEFAULT_GAP_LIMIT);
+  const [scanProgress, setScanProgress] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [psbt, setPsbt] = useState<{ decoded: DecodedPsbt; base64: string } | null>(null);
 
   const handleJsonImport = () => {
     try {
       setIsLoading(true);
-      importFromJson(jsonData);
+      if (isBip329Content(jsonData)) {
+        const labels = importBip329Labels(jsonData);
+        toast({
+          title: "Labels imported",
+          description: `${labels.recordCount} BIP329 records, ${labels.labeledCount} UTXOs labeled` +
+            (labels.createdTags.length > 0 ? `, new tags: ${labels.createdTags.join(", ")}` : ""),
+        });
+        navigate("/utxo-map");
+        return;
+      }
+
+      const summary = importFromJson(jsonData, fileName);
       toast({
         title: "Wallet imported successfully",
-        description: "Your wallet has been imported from JSON data",
+        description: `${summary.formatName}: ${summary.utxoCount} UTXOs, ${summary.labeledCount} labeled`,
       });
       navigate("/utxo-map"); // Redirect to map view instead of table
     } catch (error) {
@@ -31,33 +74,125 @@ const WalletImport = () => {
       toast({
         variant: "destructive",
         title: "Import failed",
-        description: "The JSON data is invalid or malformed",
+        description: error instanceof Error ? error.message : "The wallet data is invalid or malformed",
       });
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCsvImport = (name: string, utxos: UTXO[]) => {
+    try {
+      setIsLoading(true);
+      importFromCsv(name, utxos);
+      toast({
+        title: "Wallet imported successfully",
+        description: `Imported ${utxos.length} UTXOs from CSV`,
+      });
+      navigate("/utxo-map");
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not import the CSV file",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Analyze against the loaded wallet when there is one, otherwise against the PSBT's own inputs
+  const handlePsbtAnalyze = () => {
+    if (!psbt) return;
+    if (!walletData) {
+      importWallet(psbtToWalletData(psbt.decoded));
+    }
+    navigate("/risk-simulator", { state: { psbt: psbt.base64 } });
+  };
+
   const handleDescriptorImport = () => {
-    setIsLoading(true);
-    // In a full implementation, this would parse the descriptor
-    // For now, we'll just show an error since it's not implemented
-    toast({
-      variant: "destructive",
-      title: "Not implemented",
-      description: "Descriptor import is not available in this prototype",
-    });
-    setIsLoading(false);
+    try {
+      setIsLoading(true);
+      const wallet = importFromDescriptor(descriptor, {
+        start: rangeStart,
+        receiveCount: rangeCount,
+        changeCount: rangeCount
+      });
+      toast({
+        title: "Descriptor imported",
+        description: `Watch-only wallet created with ${wallet.addresses?.length || 0} derived addresses`,
+      });
+      navigate("/utxo-map");
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "The descriptor could not be parsed",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleXpubImport = async () => {
+    try {
+      setIsLoading(true);
+      const wallet = await importFromXpub(xpub, {
+        backend: getChainBackend() ?? createOfflineChainBackend(),
+        scriptType: xpubScriptType === "auto" ? undefined : xpubScriptType,
+        gapLimit,
+        onProgress: ({ chain, index, usedCount }) => {
+          setScanProgress(`Scanning ${chain === 0 ? "receive" : "change"} addresses: ${index} checked, ${usedCount} used`);
+        }
+      });
+      toast({
+        title: "Extended public key imported",
+        description: `Found ${wallet.utxos.length} UTXOs across ${wallet.addresses?.filter(a => a.used).length || 0} used addresses`,
+      });
+      navigate("/utxo-map");
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "The extended public key could not be imported",
+      });
+    } finally {
+      setIsLoading(false);
+      setScanProgress(null);
+    }
+  };
+
+  const handleBitcoinCoreImport = async () => {
+    try {
+      setIsLoading(true);
+      const wallet = await syncFromBitcoinCore();
+      toast({
+        title: "Bitcoin Core wallet loaded",
+        description: `Loaded ${wallet.utxos.length} UTXOs from ${wallet.name}`,
+      });
+      navigate("/utxo-map");
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not load the wallet from Bitcoin Core",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const handleDemoWallet = () => {
     setIsLoading(true);
     try {
-      // Import full mock wallet data with all 14 UTXOs
-      importWallet(mockWalletData);
+      importWallets(mockWallets);
       toast({
-        title: "Demo wallet loaded",
-        description: "A demo wallet has been loaded with all sample data",
+        title: "Demo wallets loaded",
+        description: `${mockWallets.length} demo wallets have been added with all sample data`,
       });
       navigate("/utxo-map"); // Redirect to map view instead of table
     } catch (error) {
@@ -80,6 +215,7 @@ const WalletImport = () => {
     reader.onload = (event) => {
       const content = event.target?.result as string;
       setJsonData(content);
+      setFileName(file.name);
     };
     reader.readAsText(file);
   };
@@ -90,25 +226,45 @@ const WalletImport = () => {
         <Shield className="h-10 w-10 text-bitcoin mr-3" />
         <h1 className="text-3xl font-bold text-foreground">Wallet Import</h1>
       </div>
+
+      <div className="mb-6">
+        <WalletManagerCard />
+      </div>
       
       <Card className="bg-dark-card border-dark-border shadow-lg">
         <CardHeader>
           <CardTitle>Import Your Bitcoin Wallet</CardTitle>
           <CardDescription>
-            Choose a method to import your Bitcoin wallet for UTXO analysis
+            Choose a method to import your Bitcoin wallet for UTXO analysis. It is added next to your other wallets.
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="json" className="w-full">
-            <TabsList className="grid grid-cols-3 mb-6">
+            <TabsList className="grid grid-cols-7 mb-6">
               <TabsTrigger value="json">
                 <FileJson className="mr-2 h-4 w-4" />
-                JSON Import
+                File Import
+              </TabsTrigger>
+              <TabsTrigger value="csv">
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                CSV
               </TabsTrigger>
               <TabsTrigger value="descriptor">
                 <ArrowRight className="mr-2 h-4 w-4" />
                 Descriptor
               </TabsTrigger>
+              <TabsTrigger value="xpub">
+                <KeyRound className="mr-2 h-4 w-4" />
+                xpub
+              </TabsTrigger>
+              <TabsTrigger value="psbt">
+                <FileCode className="mr-2 h-4 w-4" />
+                PSBT
+              </TabsTrigger>
+              <TabsTrigger value="core">
+                <Server className="mr-2 h-4 w-4" />
+                Core
+              </TabsTrigger>
               <TabsTrigger value="demo">
                 <Watch className="mr-2 h-4 w-4" />
                 Demo Wallet
@@ -121,7 +277,7 @@ const WalletImport = () => {
                   <Input 
                     id="fileUpload"
                     type="file" 
-                    accept=".json"
+                    accept=".json,.jsonl,.csv,.txt"
                     onChange={handleFileUpload}
                     className="cursor-pointer"
                   />
@@ -130,14 +286,22 @@ const WalletImport = () => {
                 <div className="grid w-full gap-1.5">
                   <textarea
                     className="min-h-[200px] rounded-md border border-input bg-transparent px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                    placeholder="Paste your wallet JSON data here..."
+                    placeholder="Paste your wallet JSON or CSV export here..."
                     value={jsonData}
-                    onChange={(e) => setJsonData(e.target.value)}
+                    onChange={(e) => {
+                      setJsonData(e.target.value);
+                      setFileName(undefined);
+                    }}
                   />
                 </div>
                 
                 <div className="text-xs text-muted-foreground">
-                  <p>Format example:</p>
+                  <p>
+                    Also accepts Sparrow UTXO/transaction CSV and wallet JSON, Electrum history exports,
+                    Specter wallet backups and Coldcard generic wallet exports. History exports and BIP329
+                    label files (.jsonl) only add labels to the wallet that is already loaded.
+                  </p>
+                  <p className="mt-2">Native format example:</p>
                   <pre className="p-2 bg-dark-lighter rounded-md overflow-x-auto text-xs mt-1">
                     {`{
   "name": "My Wallet",
@@ -165,18 +329,48 @@ const WalletImport = () => {
               </Button>
             </TabsContent>
             
+            <TabsContent value="csv" className="space-y-4">
+              <CsvImportWizard isLoading={isLoading} onImport={handleCsvImport} />
+            </TabsContent>
+
             <TabsContent value="descriptor" className="space-y-4">
               <div className="space-y-4">
                 <Input
-                  placeholder="Enter your xpub or descriptor..."
+                  placeholder="Enter your output descriptor..."
                   value={descriptor}
                   onChange={(e) => setDescriptor(e.target.value)}
                 />
                 
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-1.5">
+                    <Label htmlFor="rangeStart">Start index</Label>
+                    <Input
+                      id="rangeStart"
+                      type="number"
+                      min={0}
+                      value={rangeStart}
+                      onChange={(e) => setRangeStart(Math.max(0, parseInt(e.target.value) || 0))}
+                    />
+                  </div>
+                  <div className="grid gap-1.5">
+                    <Label htmlFor="rangeCount">Addresses per chain</Label>
+                    <Input
+                      id="rangeCount"
+                      type="number"
+                      min={1}
+                      max={1000}
+                      value={rangeCount}
+                      onChange={(e) => setRangeCount(Math.min(1000, Math.max(1, parseInt(e.target.value) || 1)))}
+                    />
+                  </div>
+                </div>
+                
                 <div className="text-xs text-muted-foreground">
-                  <p>Example formats:</p>
-                  <p className="pt-1">• xpub descriptor: <span className="text-bitcoin">xpub6CUGRUo...</span></p>
-                  <p className="pt-1">• Output descriptor: <span className="text-bitcoin">wpkh([fingerprint/derivation]xpub.../0/*)</span></p>
+                  <p>Supported descriptors (checksum is verified when present):</p>
+                  <p className="pt-1">• Single-sig: <span className="text-bitcoin">wpkh([fingerprint/84'/0'/0']xpub.../0/*)#checksum</span></p>
+                  <p className="pt-1">• Also: <span className="text-bitcoin">pkh(...)</span>, <span className="text-bitcoin">sh(wpkh(...))</span>, <span className="text-bitcoin">tr(...)</span></p>
+                  <p className="pt-1">• Multisig: <span className="text-bitcoin">wsh(multi(2,...))</span>, <span className="text-bitcoin">sh(wsh(sortedmulti(2,...)))</span></p>
+                  <p className="pt-1">Receive and change addresses are derived from <span className="text-bitcoin">/0/*</span> and <span className="text-bitcoin">/1/*</span>, or from a <span className="text-bitcoin">/&lt;0;1&gt;/*</span> multipath step.</p>
                 </div>
               </div>
               
@@ -189,13 +383,110 @@ const WalletImport = () => {
               </Button>
             </TabsContent>
             
+            <TabsContent value="xpub" className="space-y-4">
+              <div className="space-y-4">
+                <Input
+                  placeholder="Enter your xpub, ypub, zpub or tpub..."
+                  value={xpub}
+                  onChange={(e) => setXpub(e.target.value)}
+                />
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-1.5">
+                    <Label>Script type</Label>
+                    <Select
+                      value={xpubScriptType}
+                      onValueChange={(value) => setXpubScriptType(value as XpubScriptType | "auto")}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Auto-detect" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto-detect from prefix</SelectItem>
+                        <SelectItem value="p2pkh">Legacy (P2PKH)</SelectItem>
+                        <SelectItem value="p2sh-p2wpkh">Nested SegWit (P2SH-P2WPKH)</SelectItem>
+                        <SelectItem value="p2wpkh">Native SegWit (P2WPKH)</SelectItem>
+                        <SelectItem value="p2tr">Taproot (P2TR)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-1.5">
+                    <Label htmlFor="gapLimit">Gap limit</Label>
+                    <Input
+                      id="gapLimit"
+                      type="number"
+                      min={1}
+                      max={1000}
+                      value={gapLimit}
+                      onChange={(e) => setGapLimit(Math.min(1000, Math.max(1, parseInt(e.target.value) || 1)))}
+                    />
+                  </div>
+                </div>
+                
+                <div className="text-xs text-muted-foreground">
+                  <p>Script type is detected from the key prefix: xpub/tpub (legacy), ypub/upub (nested SegWit), zpub/vpub (native SegWit).</p>
+                  <p className="pt-1">Receive (/0/*) and change (/1/*) addresses are scanned until {gapLimit} unused addresses in a row are found.</p>
+                  <p className="pt-1">Addresses are looked up on the chain backend configured in Settings. Without one, only the addresses are derived.</p>
+                  {scanProgress && <p className="pt-1 text-bitcoin">{scanProgress}</p>}
+                </div>
+              </div>
+              
+              <Button 
+                onClick={handleXpubImport}
+                disabled={!xpub || isLoading}
+                className="w-full"
+              >
+                {isLoading ? "Scanning..." : "Import from xpub"}
+              </Button>
+            </TabsContent>
+            
+            <TabsContent value="psbt" className="space-y-4">
+              <PsbtLoader onDecoded={(decoded, base64) => setPsbt({ decoded, base64 })} />
+
+              {psbt && (
+                <>
+                  <PsbtSummary psbt={psbt.decoded} />
+                  <Button onClick={handlePsbtAnalyze} className="w-full">
+                    {walletData ? "Analyze with current wallet" : "Analyze PSBT inputs"}
+                  </Button>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="core" className="space-y-4">
+              <div className="p-4 border border-dashed border-bitcoin rounded-md text-center space-y-4">
+                <Server className="mx-auto h-12 w-12 text-bitcoin" />
+                <div>
+                  <h3 className="text-lg font-medium">Load from Bitcoin Core</h3>
+                  <p className="text-muted-foreground">
+                    {chainBackendConfig.type === "bitcoin-core"
+                      ? `Reads UTXOs, labels and descriptors from ${chainBackendConfig.bitcoinCore.wallet || "the default wallet"} at ${chainBackendConfig.bitcoinCore.url}`
+                      : "Configure a Bitcoin Core RPC connection in Settings first"}
+                  </p>
+                </div>
+              </div>
+              
+              <div className="flex gap-2">
+                <Button 
+                  onClick={handleBitcoinCoreImport}
+                  disabled={chainBackendConfig.type !== "bitcoin-core" || isLoading}
+                  className="flex-1"
+                >
+                  {isLoading ? "Loading..." : "Load Wallet"}
+                </Button>
+                <Button variant="outline" onClick={() => navigate("/settings")}>
+                  Settings
+                </Button>
+              </div>
+            </TabsContent>
+            
             <TabsContent value="demo" className="space-y-4">
               <div className="p-4 border border-dashed border-bitcoin rounded-md text-center space-y-4">
                 <Watch className="mx-auto h-12 w-12 text-bitcoin" />
                 <div>
-                  <h3 className="text-lg font-medium">Load Demo Wallet</h3>
+                  <h3 className="text-lg font-medium">Load Demo Wallets</h3>
                   <p className="text-muted-foreground">
-                    Load a pre-configured wallet with sample UTXOs and privacy scenarios for demonstration
+                    Add pre-configured wallets with sample UTXOs and privacy scenarios for demonstration
                   </p>
                 </div>
               </div>
@@ -206,7 +497,7 @@ const WalletImport = () => {
                 className="w-full"
                 variant="outline"
               >
-                {isLoading ? "Loading..." : "Load Demo Wallet"}
+                {isLoading ? "Loading..." : "Load Demo Wallets"}
               </Button>
             </TabsContent>
           </Tabs>
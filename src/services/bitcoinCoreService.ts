@@ -0,0 +1,288 @@
+import {
+  BitcoinCoreRpcConfig,
+  ChainBackend,
+  ChainOutspend,
+  ChainTransaction,
+  ChainTxStatus,
+  ChainUtxo
+} from "@/types/chain";
+import { UTXO, WalletData } from "@/types/utxo";
+
+// Raw RPC result shapes (only the fields we read)
+interface CoreUnspent {
+  txid: string;
+  vout: number;
+  address?: string;
+  label?: string;
+  scriptPubKey: string;
+  amount: number; // BTC
+  confirmations: number;
+}
+
+interface CoreRawTransaction {
+  txid: string;
+  hex: string;
+  blockhash?: string;
+  fee?: number; // BTC, only with verbosity 2
+  vin: {
+    txid?: string;
+    vout?: number;
+    coinbase?: string;
+    prevout?: { value: number; scriptPubKey: { address?: string } };
+  }[];
+  vout: {
+    value: number;
+    n: number;
+    scriptPubKey: { hex: string; address?: string };
+  }[];
+}
+
+interface CoreBlockHeader {
+  hash: string;
+  height: number;
+  time: number;
+  confirmations: number;
+}
+
+interface CoreDescriptor {
+  desc: string;
+  active: boolean;
+  internal?: boolean;
+}
+
+interface CoreRpcResponse<T> {
+  result: T | null;
+  error: { code: number; message: string } | null;
+}
+
+let requestId = 0;
+
+/**
+ * Sends one JSON-RPC request to bitcoind. Wallet RPCs are routed to /wallet/<name>.
+ */
+export const callBitcoinCore = async <T>(
+  config: BitcoinCoreRpcConfig,
+  method: string,
+  params: unknown[] = [],
+  walletRpc = false
+): Promise<T> => {
+  const baseUrl = config.url.trim().replace(/\/+$/, '');
+  const url = walletRpc && config.wallet
+    ? `${baseUrl}/wallet/${encodeURIComponent(config.wallet)}`
+    : baseUrl;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Basic ${btoa(`${config.username}:${config.password}`)}`,
+    },
+    body: JSON.stringify({ jsonrpc: '1.0', id: `utxo-intel-${++requestId}`, method, params }),
+  });
+
+  if (response.status === 401) {
+    throw new Error('Bitcoin Core rejected the RPC credentials');
+  }
+
+  // bitcoind answers RPC errors with HTTP 500 and a JSON body, so parse before checking ok
+  let body: CoreRpcResponse<T>;
+  try {
+    body = await response.json();
+  } catch {
+    throw new Error(`Bitcoin Core request failed (${response.status}): ${response.statusText}`);
+  }
+
+  if (body.error) {
+    throw new Error(`Bitcoin Core ${method} failed: ${body.error.message}`);
+  }
+
+  return body.result as T;
+};
+
+export const listUnspent = (config: BitcoinCoreRpcConfig, addresses?: string[]) =>
+  callBitcoinCore<CoreUnspent[]>(config, 'listunspent', addresses ? [0, 9999999, addresses] : [0], true);
+
+/**
+ * Fetches a decoded transaction with prevouts (verbosity 2, Core 25+). Without txindex
+ * Core needs the block hash, which the wallet's own gettransaction can provide.
+ */
+export const getRawTransaction = async (config: BitcoinCoreRpcConfig, txid: string): Promise<CoreRawTransaction> => {
+  try {
+    return await callBitcoinCore<CoreRawTransaction>(config, 'getrawtransaction', [txid, 2]);
+  } catch (error) {
+    const walletTx = await callBitcoinCore<{ blockhash?: string }>(config, 'gettransaction', [txid, true], true);
+    if (!walletTx.blockhash) throw error;
+    return callBitcoinCore<CoreRawTransaction>(config, 'getrawtransaction', [txid, 2, walletTx.blockhash]);
+  }
+};
+
+export const getBlockHeader = (config: BitcoinCoreRpcConfig, blockHash: string) =>
+  callBitcoinCore<CoreBlockHeader>(config, 'getblockheader', [blockHash, true]);
+
+export const listDescriptors = async (config: BitcoinCoreRpcConfig): Promise<CoreDescriptor[]> => {
+  const result = await callBitcoinCore<{ descriptors: CoreDescriptor[] }>(config, 'listdescriptors', [], true);
+  return result.descriptors;
+};
+
+export const getBlockCount = (config: BitcoinCoreRpcConfig) =>
+  callBitcoinCore<number>(config, 'getblockcount');
+
+/**
+ * Tells spent from unspent outputs with gettxout, which returns null for spent ones. Asking with and
+ * without the mempool separates pending spends; Core can't name the spender without a wallet lookup.
+ * gettxout also returns null for outputs Core doesn't know, so a spend is only reported once the
+ * funding transaction is found to have the output.
+ */
+export const getOutspend = async (config: BitcoinCoreRpcConfig, txid: string, vout: number): Promise<ChainOutspend> => {
+  const withMempool = await callBitcoinCore<object | null>(config, 'gettxout', [txid, vout, true]);
+  if (withMempool) return { spent: false, txid: null, status: null };
+
+  const funding = await getRawTransaction(config, txid).catch(() => null);
+  if (!funding?.vout.some(output => output.n === vout)) return { spent: null, txid: null, status: null };
+
+  const confirmedOnly = await callBitcoinCore<object | null>(config, 'gettxout', [txid, vout, false]);
+  return {
+    spent: true,
+    txid: null,
+    status: { confirmed: confirmedOnly === null, blockHeight: null, blockTime: null },
+  };
+};
+
+const mapRawTransaction = async (
+  config: BitcoinCoreRpcConfig,
+  tx: CoreRawTransaction
+): Promise<ChainTransaction> => {
+  let status: ChainTxStatus = { confirmed: false, blockHeight: null, blockTime: null };
+  if (tx.blockhash) {
+    const header = await getBlockHeader(config, tx.blockhash);
+    status = { confirmed: true, blockHeight: header.height, blockTime: header.time };
+  }
+
+  return {
+    txid: tx.txid,
+    fee: tx.fee !== undefined ? Math.round(tx.fee * 100000000) : null,
+    status,
+    inputs: tx.vin
+      .filter(input => !input.coinbase)
+      .map(input => ({
+        txid: input.txid!,
+        vout: input.vout!,
+        address: input.prevout?.scriptPubKey.address ?? null,
+        value: input.prevout ? Math.round(input.prevout.value * 100000000) : null,
+      })),
+    outputs: tx.vout.map(output => ({
+      address: output.scriptPubKey.address ?? null,
+      value: Math.round(output.value * 100000000),
+      scriptPubKey: output.scriptPubKey.hex,
+    })),
+  };
+};
+
+/**
+ * Loads a watch-only wallet from Bitcoin Core: UTXOs from listunspent, dates and
+ * sender addresses from getrawtransaction/getblockheader, descriptors from listdescriptors.
+ */
+export const loadWalletFromBitcoinCore = async (config: BitcoinCoreRpcConfig): Promise<WalletData> => {
+  const [unspent, descriptors] = await Promise.all([
+    listUnspent(config),
+    listDescriptors(config).catch(error => {
+      // Legacy (non-descriptor) wallets don't support listdescriptors
+      console.error('listdescriptors failed:', error);
+      return [] as CoreDescriptor[];
+    }),
+  ]);
+
+  const transactions = new Map<string, ChainTransaction>();
+  for (const txid of new Set(unspent.map(utxo => utxo.txid))) {
+    try {
+      transactions.set(txid, await mapRawTransaction(config, await getRawTransaction(config, txid)));
+    } catch (error) {
+      console.error(`Failed to load transaction ${txid.substring(0, 8)} from Bitcoin Core:`, error);
+    }
+  }
+
+  const walletName = config.wallet || 'Bitcoin Core wallet';
+  const utxos: UTXO[] = unspent.map(entry => {
+    const tx = transactions.get(entry.txid);
+    const createdAt = tx?.status.blockTime
+      ? new Date(tx.status.blockTime * 1000).toISOString()
+      : new Date().toISOString();
+
+    return {
+      txid: entry.txid,
+      vout: entry.vout,
+      address: entry.address || '',
+      amount: entry.amount,
+      confirmations: entry.confirmations,
+      scriptPubKey: entry.scriptPubKey,
+      tags: [],
+      createdAt,
+      privacyRisk: 'medium',
+      acquisitionDate: createdAt.split('T')[0],
+      acquisitionFiatValue: null,
+      acquisitionBtcPrice: null,
+      disposalDate: null,
+      disposalFiatValue: null,
+      realizedGainFiat: null,
+      costAutoPopulated: false,
+      notes: entry.label || null,
+      senderAddress: tx?.inputs[0]?.address ?? null,
+      receiverAddress: entry.address || null,
+      walletName
+    };
+  });
+
+  const receiveDescriptor = descriptors.find(desc => desc.active && !desc.internal);
+
+  return {
+    name: walletName,
+    totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+    utxos,
+    watchOnly: true,
+    source: {
+      type: 'bitcoin-core',
+      importedAt: new Date().toISOString(),
+      descriptor: receiveDescriptor?.desc,
+      backend: 'bitcoin-core'
+    }
+  };
+};
+
+/**
+ * Exposes a Core wallet as a chain backend. Core has no address index, so address
+ * queries only work for addresses the loaded wallet watches; others are refused.
+ */
+export const createBitcoinCoreBackend = (config: BitcoinCoreRpcConfig): ChainBackend => ({
+  id: 'bitcoin-core',
+  name: `Bitcoin Core (${config.url})`,
+  getTipHeight: () => getBlockCount(config),
+  getAddressTxCount: async address => {
+    // getreceivedbyaddress fails or reads 0 for addresses outside the wallet, which would end discovery early
+    const info = await callBitcoinCore<{ ismine: boolean; iswatchonly?: boolean }>(config, 'getaddressinfo', [address], true);
+    if (!info.ismine && !info.iswatchonly) {
+      throw new Error(
+        `Bitcoin Core's wallet doesn't watch ${address}. Import the descriptor into Core first, ` +
+        'or scan with an Esplora or Electrum backend.'
+      );
+    }
+    const received = await callBitcoinCore<number>(config, 'getreceivedbyaddress', [address, 0], true);
+    return received > 0 ? 1 : 0;
+  },
+  getAddressUtxos: async (address): Promise<ChainUtxo[]> => {
+    const [unspent, tipHeight] = await Promise.all([listUnspent(config, [address]), getBlockCount(config)]);
+    return unspent.map(entry => ({
+      txid: entry.txid,
+      vout: entry.vout,
+      value: Math.round(entry.amount * 100000000),
+      address,
+      status: {
+        confirmed: entry.confirmations > 0,
+        blockHeight: entry.confirmations > 0 ? tipHeight - entry.confirmations + 1 : null,
+        blockTime: null,
+      },
+    }));
+  },
+  getTransaction: async txid => mapRawTransaction(config, await getRawTransaction(config, txid)),
+  getTransactionHex: async txid => (await getRawTransaction(config, txid)).hex,
+  getOutspend: (txid, vout) => getOutspend(config, txid, vout),
+});
@@ -0,0 +1,34 @@
+import { ChainBackend, ChainBackendConfig } from "@/types/chain";
+import { createEsploraBackend, DEFAULT_ESPLORA_URL } from "./esploraService";
+import { createBitcoinCoreBackend } from "./bitcoinCoreService";
+import { createElectrumBackend, DEFAULT_ELECTRUM_URL } from "./electrumService";
+
+export const DEFAULT_CHAIN_BACKEND_CONFIG: ChainBackendConfig = {
+  type: 'none',
+  esploraUrl: DEFAULT_ESPLORA_URL,
+  electrumUrl: DEFAULT_ELECTRUM_URL,
+  electrumNetwork: 'mainnet',
+  bitcoinCore: {
+    url: 'http://127.0.0.1:8332',
+    username: '',
+    password: '',
+    wallet: '',
+  },
+};
+
+/**
+ * Creates the chain backend described by the user's settings,
+ * or null when live chain data is turned off
+ */
+export const createChainBackend = (config: ChainBackendConfig): ChainBackend | null => {
+  switch (config.type) {
+    case 'esplora':
+      return createEsploraBackend(config.esploraUrl);
+    case 'electrum':
+      return createElectrumBackend(config.electrumUrl, config.electrumNetwork);
+    case 'bitcoin-core':
+      return createBitcoinCoreBackend(config.bitcoinCore);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,235 @@
+import { ChainBackend, ChainOutspend, ChainTransaction } from "@/types/chain";
+import { UTXO, UTXOSpend } from "@/types/utxo";
+import { applyUtxoLifecycle, calculateFeeShare, getUtxoStatus, isHeldUtxo } from "@/utils/lifecycle-utils";
+import { detectCoinjoin } from "@/utils/coinjoin-utils";
+
+export interface ChainRefreshResult {
+  utxos: UTXO[];
+  updatedCount: number;
+  failedTxids: string[];
+  spentCount: number; // Coins found spent, or with a spend in the mempool, by this refresh
+  transactions: ChainTransaction[]; // Creating and spending transactions fetched along the way
+}
+
+// How far back parent transactions are followed for clustering, and how many are fetched at most
+export const PARENT_TRANSACTION_HOPS = 2;
+export const MAX_PARENT_TRANSACTIONS = 50;
+
+// Coinbase inputs spend this null outpoint
+const NULL_TXID = '0'.repeat(64);
+
+/**
+ * Moves a coin along its lifecycle from what the chain says about its output. A pending spend
+ * that is no longer seen was dropped or replaced, so the coin is unspent again.
+ */
+const applyOutspend = (utxo: UTXO, outspend: ChainOutspend, spender: ChainTransaction | null): UTXO => {
+  if (outspend.spent === null) return utxo;
+  if (!outspend.spent) {
+    return getUtxoStatus(utxo) === 'pending-spend' && utxo.spend?.txid ? applyUtxoLifecycle(utxo, 'unspent') : utxo;
+  }
+
+  const status = outspend.status ?? spender?.status ?? null;
+  const confirmed = status?.confirmed ?? true;
+  const spend: UTXOSpend = {
+    txid: outspend.txid ?? utxo.spend?.txid ?? null,
+    date: status?.blockTime ? new Date(status.blockTime * 1000).toISOString() : null,
+    feeShare: spender
+      ? calculateFeeShare(spender.fee, spender.inputs.map(input => input.value), utxo.amount)
+      : utxo.spend?.feeShare ?? null,
+  };
+  return applyUtxoLifecycle(utxo, confirmed ? 'spent' : 'pending-spend', { spend, disposalFiatValue: utxo.disposalFiatValue });
+};
+
+/**
+ * Replaces confirmations, createdAt, senderAddress, coinjoin and anonset on each UTXO with what the
+ * chain says about its creating transaction. UTXOs whose transaction can't be
+ * fetched are returned unchanged and reported in `failedTxids`. Where the backend
+ * can tell, coins still held are also checked for spends, except those whose transaction
+ * couldn't be fetched: the backend may not know them at all.
+ */
+export const refreshUtxosFromChain = async (
+  utxos: UTXO[],
+  backend: ChainBackend
+): Promise<ChainRefreshResult> => {
+  const tipHeight = await backend.getTipHeight();
+  const transactions = new Map<string, ChainTransaction>();
+  const failedTxids: string[] = [];
+
+  const fetchTransaction = async (txid: string) => {
+    const cached = transactions.get(txid);
+    if (cached) return cached;
+    const tx = await backend.getTransaction(txid);
+    transactions.set(txid, tx);
+    return tx;
+  };
+
+  // One request per transaction, even when several outputs belong to it
+  for (const txid of new Set(utxos.map(utxo => utxo.txid))) {
+    try {
+      transactions.set(txid, await backend.getTransaction(txid));
+    } catch (error) {
+      console.error(`Failed to fetch transaction ${txid.substring(0, 8)}:`, error);
+      failedTxids.push(txid);
+    }
+  }
+
+  let updatedCount = 0;
+  const refreshed = utxos.map(utxo => {
+    const tx = transactions.get(utxo.txid);
+    if (!tx) return utxo;
+
+    updatedCount++;
+    const { status } = tx;
+    const confirmations = status.confirmed && status.blockHeight !== null
+      ? Math.max(0, tipHeight - status.blockHeight + 1)
+      : 0;
+
+    const coinjoin = detectCoinjoin(tx);
+    return {
+      ...utxo,
+      confirmations,
+      createdAt: status.blockTime ? new Date(status.blockTime * 1000).toISOString() : utxo.createdAt,
+      // Coinbase inputs and prevouts the backend can't resolve have no address; keep the one on record
+      senderAddress: tx.inputs[0]?.address ?? utxo.senderAddress,
+      coinjoin: coinjoin?.protocol ?? null,
+      anonset: coinjoin?.anonsets[utxo.vout]
+    };
+  });
+
+  if (!backend.getOutspend) {
+    return { utxos: refreshed, updatedCount, failedTxids, spentCount: 0, transactions: [...transactions.values()] };
+  }
+
+  // Spent and abandoned coins keep what was recorded about them, and so do coins the backend couldn't find
+  let spentCount = 0;
+  const checked: UTXO[] = [];
+  for (const utxo of refreshed) {
+    if (!isHeldUtxo(utxo) || failedTxids.includes(utxo.txid)) {
+      checked.push(utxo);
+      continue;
+    }
+    try {
+      const outspend = await backend.getOutspend(utxo.txid, utxo.vout);
+      const spender = outspend.txid ? await fetchTransaction(outspend.txid) : null;
+      const next = applyOutspend(utxo, outspend, spender);
+      if (getUtxoStatus(next) !== getUtxoStatus(utxo) && getUtxoStatus(next) !== 'unspent') spentCount++;
+      checked.push(next);
+    } catch (error) {
+      console.error(`Failed to check whether ${utxo.txid.substring(0, 8)}:${utxo.vout} is spent:`, error);
+      checked.push(utxo);
+    }
+  }
+
+  return { utxos: checked, updatedCount, failedTxids, spentCount, transactions: [...transactions.values()] };
+};
+
+/**
+ * Fetches the transactions that funded the given ones, then theirs, up to `hops` generations back.
+ * Transactions in `known` aren't fetched again. Stops after `limit` fetches; parents that can't be
+ * fetched are skipped.
+ */
+export const fetchParentTransactions = async (
+  transactions: ChainTransaction[],
+  backend: ChainBackend,
+  known: Set<string> = new Set(),
+  hops: number = PARENT_TRANSACTION_HOPS,
+  limit: number = MAX_PARENT_TRANSACTIONS
+): Promise<ChainTransaction[]> => {
+  const seen = new Set([...known, ...transactions.map(tx => tx.txid)]);
+  const parents: ChainTransaction[] = [];
+  let generation = transactions;
+  let fetches = 0;
+
+  for (let hop = 0; hop < hops && generation.length > 0; hop++) {
+    const next: ChainTransaction[] = [];
+    const parentTxids = new Set(generation.flatMap(tx => tx.inputs.map(input => input.txid)));
+    for (const txid of parentTxids) {
+      if (seen.has(txid) || txid === NULL_TXID) continue;
+      if (fetches >= limit) return parents;
+      seen.add(txid);
+      fetches++;
+      try {
+        next.push(await backend.getTransaction(txid));
+      } catch (error) {
+        console.error(`Failed to fetch parent transaction ${txid.substring(0, 8)}:`, error);
+      }
+    }
+    parents.push(...next);
+    generation = next;
+  }
+
+  return parents;
+};
+
+/**
+ * Keeps the transactions that create or spend one of the given coins, and their parents up to
+ * `hops` generations back, so transactions of removed wallets stop feeding clustering.
+ */
+export const pruneChainTransactions = (
+  transactions: ChainTransaction[],
+  utxos: UTXO[],
+  hops: number = PARENT_TRANSACTION_HOPS
+): ChainTransaction[] => {
+  const byTxid = new Map(transactions.map(tx => [tx.txid, tx]));
+  const kept = new Set(utxos.flatMap(utxo => [utxo.txid, utxo.spend?.txid ?? null])
+    .filter((txid): txid is string => txid !== null && byTxid.has(txid)));
+
+  let generation = [...kept];
+  for (let hop = 0; hop < hops && generation.length > 0; hop++) {
+    generation = generation
+      .flatMap(txid => byTxid.get(txid)?.inputs.map(input => input.txid) ?? [])
+      .filter(txid => byTxid.has(txid) && !kept.has(txid));
+    generation.forEach(txid => kept.add(txid));
+  }
+
+  return transactions.filter(tx => kept.has(tx.txid));
+};
+
+/**
+ * Combines a fresh UTXO set from a wallet backend with the user's annotations
+ * (tags, notes, cost basis, addresses) on the outpoints that are still unspent. Coins the
+ * backend no longer lists were spent; they are kept as spent, after the fresh set.
+ */
+export const mergeUtxoAnnotations = (existing: UTXO[], fresh: UTXO[]): UTXO[] => {
+  const existingById = new Map(existing.map(utxo => [`${utxo.txid}:${utxo.vout}`, utxo]));
+  const freshIds = new Set(fresh.map(utxo => `${utxo.txid}:${utxo.vout}`));
+
+  const gone = existing
+    .filter(utxo => !freshIds.has(`${utxo.txid}:${utxo.vout}`))
+    .map(utxo => isHeldUtxo(utxo) ? applyUtxoLifecycle(utxo, 'spent') : utxo);
+
+  const merged = fresh.map(utxo => {
+    const previous = existingById.get(`${utxo.txid}:${utxo.vout}`);
+    if (!previous) return utxo;
+
+    // Giving up on a coin is the user's call, whatever the backend lists. A pending spend stays pending
+    // while its transaction waits to confirm; the backend lists the coin until then.
+    const status = getUtxoStatus(previous);
+    const lifecycle = status === 'abandoned' || status === 'pending-spend'
+      ? {
+          status: previous.status,
+          spend: previous.spend,
+          disposalDate: previous.disposalDate,
+          disposalFiatValue: previous.disposalFiatValue,
+          realizedGainFiat: previous.realizedGainFiat
+        }
+      : {};
+
+    return {
+      ...utxo,
+      tags: previous.tags,
+      notes: previous.notes ?? utxo.notes,
+      privacyRisk: previous.privacyRisk,
+      acquisitionDate: previous.acquisitionDate ?? utxo.acquisitionDate,
+      acquisitionFiatValue: previous.acquisitionFiatValue,
+      acquisitionBtcPrice: previous.acquisitionBtcPrice,
+      costAutoPopulated: previous.costAutoPopulated,
+      senderAddress: previous.senderAddress ?? utxo.senderAddress,
+      receiverAddress: previous.receiverAddress ?? utxo.receiverAddress,
+      walletName: previous.walletName ?? utxo.walletName,
+      ...lifecycle
+    };
+  });
+
+  return [...merged, ...gone];
+};
@@ -1,11 +1,47 @@
 
 import { toast } from "sonner";
 import { format, isAfter, subDays } from "date-fns";
+import { PriceCache } from "@/types/backup";
+import { loadSetting, saveSetting } from "./storageService";
 
 const API_BASE_URL = 'https://api.coingecko.com/api/v3';
 
 type SupportedCurrency = 'usd' | 'eur' | 'gbp' | 'jpy' | 'aud' | 'cad';
 
+// Past prices don't change, so each day is fetched once and saved with the workspace
+const PRICE_CACHE_KEY = 'priceCache';
+let priceCache: Promise<PriceCache> | null = null;
+
+const loadPriceCache = (): Promise<PriceCache> => {
+  if (!priceCache) {
+    priceCache = loadSetting<PriceCache>(PRICE_CACHE_KEY)
+      .then(saved => saved ?? {})
+      .catch(error => {
+        console.warn('Could not load the price cache:', error);
+        return {};
+      });
+  }
+  return priceCache;
+};
+
+export const getPriceCache = async (): Promise<PriceCache> => ({ ...(await loadPriceCache()) });
+
+export const setPriceCache = async (cache: PriceCache): Promise<void> => {
+  priceCache = Promise.resolve({ ...cache });
+  await saveSetting(PRICE_CACHE_KEY, cache);
+};
+
+// Forgets cached prices after the saved workspace was cleared
+export const resetPriceCache = () => {
+  priceCache = null;
+};
+
+const cachePrice = async (key: string, price: number) => {
+  const cache = await loadPriceCache();
+  cache[key] = price;
+  saveSetting(PRICE_CACHE_KEY, cache).catch(error => console.error('Failed to save the price cache:', error));
+};
+
 export const getBitcoinHistoricalPrice = async (
   date: string, 
   currency: SupportedCurrency = 'usd'
@@ -19,6 +55,13 @@ export const getBitcoinHistoricalPrice = async (
       return getCurrentBitcoinPrice(currency);
     }
     
+    // The last day's price may still move, so it is never cached
+    const cacheKey = isAfter(requestDate, subDays(now, 1)) ? null : `${currency}:${format(requestDate, "yyyy-MM-dd")}`;
+    if (cacheKey) {
+      const cached = (await loadPriceCache())[cacheKey];
+      if (cached !== undefined) return cached;
+    }
+
     // Format date for CoinGecko API
     const formattedDate = format(requestDate, "dd-MM-yyyy");
     
@@ -54,6 +97,7 @@ export const getBitcoinHistoricalPrice = async (
       return null;
     }
     
+    if (cacheKey) await cachePrice(cacheKey, price);
     return price;
   } catch (error) {
     console.error('Error fetching Bitcoin historical price:', error);
@@ -0,0 +1,338 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { BitcoinNetwork } from "@/types/bitcoin";
+import {
+  ChainBackend,
+  ChainOutspend,
+  ChainTransaction,
+  ChainTxStatus,
+  ChainUtxo
+} from "@/types/chain";
+import {
+  addressToScriptPubKey,
+  bytesToHex,
+  hexToBytes,
+  scriptPubKeyToAddress
+} from "@/utils/address-utils";
+import { parseRawTransaction, RawTransaction } from "@/utils/transaction-utils";
+
+export const DEFAULT_ELECTRUM_URL = 'ws://127.0.0.1:50003';
+
+const CLIENT_NAME = 'utxo-intelligence';
+const PROTOCOL_VERSION = '1.4';
+const REQUEST_TIMEOUT_MS = 30000;
+
+// Raw result shapes from the Electrum protocol (only the fields we read)
+interface ElectrumUnspent {
+  tx_hash: string;
+  tx_pos: number;
+  value: number; // sats
+  height: number; // 0 or negative when unconfirmed
+}
+
+interface ElectrumHistoryItem {
+  tx_hash: string;
+  height: number;
+  fee?: number; // Only present for mempool entries
+}
+
+interface ElectrumHeaderNotification {
+  height: number;
+  hex: string;
+}
+
+interface ElectrumResponse {
+  id?: number;
+  method?: string;
+  result?: unknown;
+  error?: { code: number; message: string } | string | null;
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Electrum servers index by "script hash": the reversed sha256 of the output script
+ */
+export const addressToScriptHash = (address: string): string => {
+  const hash = sha256(hexToBytes(addressToScriptPubKey(address)));
+  return bytesToHex(hash.reverse());
+};
+
+const errorMessage = (error: ElectrumResponse['error']) =>
+  typeof error === 'string' ? error : error?.message ?? 'Unknown error';
+
+/**
+ * JSON-RPC client for an Electrum server. Browsers can't open raw TCP sockets, so this
+ * talks to servers exposing WebSockets (Fulcrum, ElectrumX) or a TCP-to-WebSocket bridge.
+ */
+export const createElectrumClient = (url: string) => {
+  let socket: WebSocket | null = null;
+  let connecting: Promise<WebSocket> | null = null;
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest>();
+
+  const failAll = (error: Error) => {
+    pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.reject(error);
+    });
+    pending.clear();
+  };
+
+  const handleMessage = (line: string) => {
+    if (!line.trim()) return;
+
+    let message: ElectrumResponse;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.error('Ignoring malformed Electrum message:', line);
+      return;
+    }
+
+    // Subscription notifications carry a method and no id
+    if (message.id === undefined || message.id === null) return;
+
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    clearTimeout(request.timer);
+
+    if (message.error) {
+      request.reject(new Error(`Electrum server error: ${errorMessage(message.error)}`));
+    } else {
+      request.resolve(message.result);
+    }
+  };
+
+  const send = <T>(ws: WebSocket, method: string, params: unknown[]): Promise<T> => {
+    const id = ++nextId;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`Electrum request ${method} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+
+      pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
+      ws.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+  };
+
+  const connect = (): Promise<WebSocket> => {
+    if (socket && socket.readyState === WebSocket.OPEN) return Promise.resolve(socket);
+    if (connecting) return connecting;
+
+    connecting = new Promise<WebSocket>((resolve, reject) => {
+      let ws: WebSocket;
+      try {
+        ws = new WebSocket(url);
+      } catch {
+        connecting = null;
+        reject(new Error(`Invalid Electrum server URL: ${url}`));
+        return;
+      }
+
+      ws.onmessage = event => {
+        // Bridges forward the newline-delimited TCP stream, so one frame may hold several messages
+        if (typeof event.data !== 'string') return;
+        event.data.split('\n').forEach(handleMessage);
+      };
+
+      ws.onerror = () => {
+        if (connecting) {
+          connecting = null;
+          reject(new Error(`Could not connect to Electrum server at ${url}`));
+        }
+      };
+
+      ws.onclose = () => {
+        socket = null;
+        connecting = null;
+        failAll(new Error('Electrum connection closed'));
+      };
+
+      ws.onopen = async () => {
+        socket = ws;
+        try {
+          // The protocol requires version negotiation before any other request
+          await send(ws, 'server.version', [CLIENT_NAME, PROTOCOL_VERSION]);
+          connecting = null;
+          resolve(ws);
+        } catch (error) {
+          connecting = null;
+          ws.close();
+          reject(error);
+        }
+      };
+    });
+
+    return connecting;
+  };
+
+  const request = async <T>(method: string, params: unknown[] = []): Promise<T> => {
+    const ws = await connect();
+    return send<T>(ws, method, params);
+  };
+
+  const close = () => {
+    socket?.close();
+    socket = null;
+  };
+
+  return { request, close };
+};
+
+export type ElectrumClient = ReturnType<typeof createElectrumClient>;
+
+/**
+ * Opens a short-lived connection to check the server answers and report its tip height
+ */
+export const getElectrumTipHeight = async (url: string): Promise<number> => {
+  const client = createElectrumClient(url);
+  try {
+    const header = await client.request<ElectrumHeaderNotification>('blockchain.headers.subscribe');
+    return header.height;
+  } finally {
+    client.close();
+  }
+};
+
+// Block time lives in bytes 68-72 of the 80-byte header, little-endian
+const readHeaderTime = (headerHex: string): number => {
+  const header = hexToBytes(headerHex);
+  return (header[68] | (header[69] << 8) | (header[70] << 16) | (header[71] << 24)) >>> 0;
+};
+
+/**
+ * Wraps an Electrum server as a chain backend. Raw transactions are parsed locally and
+ * their prevouts fetched to recover sender addresses, input values and the fee.
+ */
+export const createElectrumBackend = (
+  url: string = DEFAULT_ELECTRUM_URL,
+  network: BitcoinNetwork = 'mainnet'
+): ChainBackend => {
+  const client = createElectrumClient(url);
+  const rawTxCache = new Map<string, Promise<string>>();
+  const blockTimeCache = new Map<number, Promise<number>>();
+
+  const getRawTxHex = (txid: string) => {
+    if (!rawTxCache.has(txid)) {
+      const promise = client.request<string>('blockchain.transaction.get', [txid, false]);
+      promise.catch(() => rawTxCache.delete(txid));
+      rawTxCache.set(txid, promise);
+    }
+    return rawTxCache.get(txid)!;
+  };
+
+  const getRawTx = (txid: string): Promise<RawTransaction> => getRawTxHex(txid).then(parseRawTransaction);
+
+  const getBlockTime = (height: number) => {
+    if (!blockTimeCache.has(height)) {
+      const promise = client.request<string>('blockchain.block.header', [height]).then(readHeaderTime);
+      promise.catch(() => blockTimeCache.delete(height));
+      blockTimeCache.set(height, promise);
+    }
+    return blockTimeCache.get(height)!;
+  };
+
+  const statusFromHeight = async (height: number): Promise<ChainTxStatus> => {
+    if (height <= 0) return { confirmed: false, blockHeight: null, blockTime: null };
+    return { confirmed: true, blockHeight: height, blockTime: await getBlockTime(height) };
+  };
+
+  const getHistory = (scriptHash: string) =>
+    client.request<ElectrumHistoryItem[]>('blockchain.scripthash.get_history', [scriptHash]);
+
+  // Electrum has no "get tx status" call, so look the tx up in the history of one of its outputs
+  const getTxStatus = async (txid: string, tx: RawTransaction): Promise<ChainTxStatus> => {
+    const output = tx.outputs.find(out => scriptPubKeyToAddress(out.scriptPubKey, network));
+    if (!output) return { confirmed: false, blockHeight: null, blockTime: null };
+
+    const scriptHash = bytesToHex(sha256(hexToBytes(output.scriptPubKey)).reverse());
+    const history = await getHistory(scriptHash);
+    const entry = history.find(item => item.tx_hash === txid);
+    return statusFromHeight(entry?.height ?? 0);
+  };
+
+  return {
+    id: 'electrum',
+    name: `Electrum (${url})`,
+    getTipHeight: async () => {
+      const header = await client.request<ElectrumHeaderNotification>('blockchain.headers.subscribe');
+      return header.height;
+    },
+    getAddressTxCount: async address => {
+      const history = await getHistory(addressToScriptHash(address));
+      return history.length;
+    },
+    getAddressUtxos: async (address): Promise<ChainUtxo[]> => {
+      const unspent = await client.request<ElectrumUnspent[]>(
+        'blockchain.scripthash.listunspent',
+        [addressToScriptHash(address)]
+      );
+      return Promise.all(unspent.map(async entry => ({
+        txid: entry.tx_hash,
+        vout: entry.tx_pos,
+        value: entry.value,
+        address,
+        status: await statusFromHeight(entry.height),
+      })));
+    },
+    getTransaction: async (txid): Promise<ChainTransaction> => {
+      const tx = await getRawTx(txid);
+      const isCoinbase = tx.inputs.length === 1 && /^0+$/.test(tx.inputs[0].txid);
+
+      const inputs = isCoinbase ? [] : await Promise.all(tx.inputs.map(async input => {
+        try {
+          const prevTx = await getRawTx(input.txid);
+          const prevout = prevTx.outputs[input.vout];
+          return {
+            txid: input.txid,
+            vout: input.vout,
+            address: prevout ? scriptPubKeyToAddress(prevout.scriptPubKey, network)?.address ?? null : null,
+            value: prevout?.value ?? null,
+          };
+        } catch (error) {
+          console.error(`Failed to load prevout ${input.txid.substring(0, 8)}:${input.vout}:`, error);
+          return { txid: input.txid, vout: input.vout, address: null, value: null };
+        }
+      }));
+
+      const outputTotal = tx.outputs.reduce((sum, output) => sum + output.value, 0);
+      const inputTotal = inputs.every(input => input.value !== null)
+        ? inputs.reduce((sum, input) => sum + (input.value ?? 0), 0)
+        : null;
+
+      return {
+        txid,
+        inputs,
+        outputs: tx.outputs.map(output => ({
+          address: scriptPubKeyToAddress(output.scriptPubKey, network)?.address ?? null,
+          value: output.value,
+          scriptPubKey: output.scriptPubKey,
+        })),
+        fee: inputTotal !== null && !isCoinbase ? inputTotal - outputTotal : null,
+        status: await getTxStatus(txid, tx),
+      };
+    },
+    getTransactionHex: getRawTxHex,
+    // The spender is in the history of the output's script, so scan those transactions' inputs
+    getOutspend: async (txid, vout): Promise<ChainOutspend> => {
+      const output = (await getRawTx(txid)).outputs[vout];
+      if (!output) throw new Error(`Transaction ${txid} has no output ${vout}`);
+
+      const scriptHash = bytesToHex(sha256(hexToBytes(output.scriptPubKey)).reverse());
+      for (const item of await getHistory(scriptHash)) {
+        if (item.tx_hash === txid) continue;
+        const candidate = await getRawTx(item.tx_hash);
+        if (candidate.inputs.some(input => input.txid === txid && input.vout === vout)) {
+          return { spent: true, txid: item.tx_hash, status: await statusFromHeight(item.height) };
+        }
+      }
+      return { spent: false, txid: null, status: null };
+    },
+  };
+};
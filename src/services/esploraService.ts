@@ -0,0 +1,166 @@
+import {
+  ChainBackend,
+  ChainOutspend,
+  ChainTransaction,
+  ChainTxStatus,
+  ChainUtxo
+} from "@/types/chain";
+
+export const DEFAULT_ESPLORA_URL = 'https://mempool.space/api';
+
+// Raw response shapes from the Esplora REST API (only the fields we read)
+interface EsploraStatus {
+  confirmed: boolean;
+  block_height?: number;
+  block_time?: number;
+}
+
+interface EsploraUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: EsploraStatus;
+}
+
+interface EsploraAddressStats {
+  chain_stats: { tx_count: number };
+  mempool_stats: { tx_count: number };
+}
+
+interface EsploraOutspend {
+  spent: boolean;
+  txid?: string;
+  status?: EsploraStatus;
+}
+
+interface EsploraTransaction {
+  txid: string;
+  fee?: number;
+  status: EsploraStatus;
+  vin: {
+    txid: string;
+    vout: number;
+    is_coinbase?: boolean;
+    prevout: { scriptpubkey_address?: string; value: number } | null;
+  }[];
+  vout: {
+    scriptpubkey: string;
+    scriptpubkey_address?: string;
+    value: number;
+  }[];
+}
+
+const mapStatus = (status: EsploraStatus): ChainTxStatus => ({
+  confirmed: status.confirmed,
+  blockHeight: status.block_height ?? null,
+  blockTime: status.block_time ?? null,
+});
+
+// Strip trailing slashes so users can paste ".../api/" or ".../api"
+export const normalizeEsploraUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+const esploraFetch = async <T>(baseUrl: string, path: string, asText = false): Promise<T> => {
+  const response = await fetch(`${normalizeEsploraUrl(baseUrl)}${path}`);
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new Error('Rate limit exceeded for the Esplora server. Please try again later.');
+    }
+    throw new Error(`Esplora request failed (${response.status}): ${response.statusText}`);
+  }
+
+  return (asText ? await response.text() : await response.json()) as T;
+};
+
+/**
+ * Fetches the current block tip height
+ */
+export const getEsploraTipHeight = async (baseUrl: string): Promise<number> => {
+  const height = await esploraFetch<string>(baseUrl, '/blocks/tip/height', true);
+  return parseInt(height, 10);
+};
+
+/**
+ * Fetches the unspent outputs of an address
+ */
+export const getEsploraAddressUtxos = async (baseUrl: string, address: string): Promise<ChainUtxo[]> => {
+  const utxos = await esploraFetch<EsploraUtxo[]>(baseUrl, `/address/${address}/utxo`);
+  return utxos.map(utxo => ({
+    txid: utxo.txid,
+    vout: utxo.vout,
+    value: utxo.value,
+    address,
+    status: mapStatus(utxo.status),
+  }));
+};
+
+/**
+ * Fetches the number of confirmed and mempool transactions touching an address
+ */
+export const getEsploraAddressTxCount = async (baseUrl: string, address: string): Promise<number> => {
+  const stats = await esploraFetch<EsploraAddressStats>(baseUrl, `/address/${address}`);
+  return stats.chain_stats.tx_count + stats.mempool_stats.tx_count;
+};
+
+/**
+ * Fetches a transaction with its prevouts resolved
+ */
+export const getEsploraTransaction = async (baseUrl: string, txid: string): Promise<ChainTransaction> => {
+  const tx = await esploraFetch<EsploraTransaction>(baseUrl, `/tx/${txid}`);
+  return {
+    txid: tx.txid,
+    fee: tx.fee ?? null,
+    status: mapStatus(tx.status),
+    inputs: tx.vin.map(input => ({
+      txid: input.txid,
+      vout: input.vout,
+      address: input.prevout?.scriptpubkey_address ?? null,
+      value: input.prevout?.value ?? null,
+    })),
+    outputs: tx.vout.map(output => ({
+      address: output.scriptpubkey_address ?? null,
+      value: output.value,
+      scriptPubKey: output.scriptpubkey,
+    })),
+  };
+};
+
+/**
+ * Fetches the serialized transaction as hex
+ */
+export const getEsploraTransactionHex = (baseUrl: string, txid: string): Promise<string> =>
+  esploraFetch<string>(baseUrl, `/tx/${txid}/hex`, true);
+
+/**
+ * Fetches only the confirmation status of a transaction
+ */
+export const getEsploraTxStatus = async (baseUrl: string, txid: string): Promise<ChainTxStatus> => {
+  const status = await esploraFetch<EsploraStatus>(baseUrl, `/tx/${txid}/status`);
+  return mapStatus(status);
+};
+
+/**
+ * Fetches whether an output is spent, and by which transaction
+ */
+export const getEsploraOutspend = async (baseUrl: string, txid: string, vout: number): Promise<ChainOutspend> => {
+  const outspend = await esploraFetch<EsploraOutspend>(baseUrl, `/tx/${txid}/outspend/${vout}`);
+  return {
+    spent: outspend.spent,
+    txid: outspend.txid ?? null,
+    status: outspend.status ? mapStatus(outspend.status) : null,
+  };
+};
+
+/**
+ * Wraps an Esplora server (mempool.space, Blockstream or self-hosted) as a chain backend
+ */
+export const createEsploraBackend = (baseUrl: string = DEFAULT_ESPLORA_URL): ChainBackend => ({
+  id: 'esplora',
+  name: `Esplora (${normalizeEsploraUrl(baseUrl)})`,
+  getTipHeight: () => getEsploraTipHeight(baseUrl),
+  getAddressTxCount: address => getEsploraAddressTxCount(baseUrl, address),
+  getAddressUtxos: address => getEsploraAddressUtxos(baseUrl, address),
+  getTransaction: txid => getEsploraTransaction(baseUrl, txid),
+  getTransactionHex: txid => getEsploraTransactionHex(baseUrl, txid),
+  getOutspend: (txid, vout) => getEsploraOutspend(baseUrl, txid, vout),
+});
@@ -0,0 +1,16 @@
+import { ChainBackend } from "@/types/chain";
+
+/**
+ * Chain backend for when live chain data is turned off. It knows of no history, so discovery
+ * derives the first `gapLimit` addresses of each chain and finds no coins; nothing leaves the browser.
+ */
+export const createOfflineChainBackend = (): ChainBackend => ({
+  id: 'offline',
+  name: 'Offline (no chain data)',
+  getTipHeight: async () => 0,
+  getAddressTxCount: async () => 0,
+  getAddressUtxos: async () => [],
+  getTransaction: async (txid: string) => {
+    throw new Error(`Transaction ${txid} is unavailable without a chain backend`);
+  },
+});
@@ -0,0 +1,514 @@
+import { Tag, UTXO, Wallet, WalletData, WalletScope } from "@/types/utxo";
+import { AuditEntry } from "@/types/history";
+import { ChainBackendConfig, ChainTransaction } from "@/types/chain";
+import { getOutpoint } from "@/utils/utxo-utils";
+import { createWallet } from "@/utils/wallet-utils";
+import {
+  decryptJson,
+  DEFAULT_PBKDF2_ITERATIONS,
+  deriveVaultKeys,
+  EncryptedValue,
+  encryptJson,
+  hmacHex,
+  isEncryptedValue,
+  randomBytes,
+  VaultKeys
+} from "@/utils/crypto-utils";
+
+const DB_NAME = 'utxo-intelligence';
+
+// Object stores. Wallet coins get their own store so an edit only rewrites the coins that changed.
+const SETTINGS_STORE = 'settings'; // Key-value: wallet headers, tags, currency, selection, backend config, jurisdiction, chain transactions
+const UTXO_STORE = 'utxos'; // UTXO records keyed by "<wallet id>/<txid>:<vout>", or its HMAC while the vault is enabled
+const AUDIT_STORE = 'audit'; // Append-only change journal, auto-incremented keys keep entries in order
+
+// Settings key of the vault record. It is the only value that stays in cleartext once the vault is enabled.
+const VAULT_KEY = 'vault';
+const VAULT_CHECK = 'utxo-intelligence-vault';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+/**
+ * Schema migrations, indexed by the version they upgrade to. IndexedDB runs every step
+ * above the stored version in order, so existing databases catch up one version at a time.
+ * Never edit a released step; add a new one and bump DB_VERSION.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, transaction: IDBTransaction) => void> = {
+  1: db => {
+    db.createObjectStore(SETTINGS_STORE);
+    db.createObjectStore(UTXO_STORE);
+  },
+  2: db => {
+    db.createObjectStore(AUDIT_STORE, { autoIncrement: true });
+  },
+};
+
+const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+// Saved per wallet in the settings store; its coins live in the UTXO store
+interface StoredWallet extends Omit<Wallet, 'utxos'> {
+  utxoOrder: string[]; // Outpoints in wallet order
+}
+
+export interface PersistedWorkspace {
+  wallets: Wallet[];
+  walletScope: WalletScope | null;
+  tags: Tag[] | null; // null until tags have been saved once
+  selectedCurrency: string | null;
+  selectedOutpoints: string[];
+  chainBackendConfig: ChainBackendConfig | null;
+  taxJurisdictionId: string | null;
+  chainTransactions: ChainTransaction[]; // Fetched for clustering: the wallet's own transactions and their parents
+  auditLog: AuditEntry[]; // Oldest first
+}
+
+interface VaultRecord {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: Uint8Array<ArrayBuffer>;
+  check: EncryptedValue; // VAULT_CHECK encrypted with the derived key, to tell a wrong passphrase apart
+  autoLockMinutes: number; // 0 never locks
+}
+
+export interface VaultStatus {
+  enabled: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+}
+
+// Resolves with the request's result, rejects with its error
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and if needed migrates) the workspace database. The connection is shared.
+ */
+export const openWorkspaceDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          console.log(`Migrating workspace database to version ${version}`);
+          MIGRATIONS[version](request.result, transaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema: close so its upgrade isn't blocked, reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('Workspace database upgrade is blocked by another open tab');
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Keys of the unlocked vault. Kept in memory only and dropped on lock.
+let vaultKeys: VaultKeys | null = null;
+
+// Encrypting is async and IndexedDB transactions can't wait on it, so every write
+// prepares its records first. Writes run one at a time so they commit in call order.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const enqueueWrite = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+const sealValue = (keys: VaultKeys | null, value: unknown): Promise<unknown> =>
+  keys ? encryptJson(keys.encryptionKey, value) : Promise.resolve(value);
+
+const openValue = async <T>(keys: VaultKeys | null, stored: unknown): Promise<T> => {
+  if (!isEncryptedValue(stored)) return stored as T;
+  if (!keys) throw new Error('The workspace vault is locked');
+  return decryptJson<T>(keys.encryptionKey, stored);
+};
+
+// Two wallets may hold the same outpoint (one wallet imported twice), so records are keyed by wallet too
+const utxoRecordId = (utxo: UTXO) => utxo.walletId ? `${utxo.walletId}/${getOutpoint(utxo)}` : getOutpoint(utxo);
+
+const utxoStorageKey = (keys: VaultKeys | null, recordId: string): Promise<string> =>
+  keys ? hmacHex(keys.indexKey, recordId) : Promise.resolve(recordId);
+
+const getVaultRecord = async (db: IDBDatabase): Promise<VaultRecord | null> => {
+  const value = await promisifyRequest(db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(VAULT_KEY));
+  return (value as VaultRecord | undefined) ?? null;
+};
+
+const getSetting = async <T>(db: IDBDatabase, key: string): Promise<T | null> => {
+  const value = await promisifyRequest(db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(key));
+  return value === undefined ? null : openValue<T>(vaultKeys, value);
+};
+
+const readAllUtxos = async (db: IDBDatabase): Promise<UTXO[]> => {
+  const stored = await promisifyRequest(db.transaction(UTXO_STORE).objectStore(UTXO_STORE).getAll());
+  return Promise.all(stored.map(value => openValue<UTXO>(vaultKeys, value)));
+};
+
+const toStoredWallet = ({ utxos, ...header }: Wallet): StoredWallet => ({ ...header, utxoOrder: utxos.map(getOutpoint) });
+
+/**
+ * Workspaces saved before multiple wallets had one 'wallet' header and coins keyed by outpoint.
+ * Encrypted records can't be rewritten inside a schema upgrade, so the layout is upgraded on load.
+ */
+const upgradeSingleWalletLayout = (db: IDBDatabase): Promise<void> =>
+  enqueueWrite(async () => {
+    const header = await getSetting<Omit<WalletData, 'utxos'>>(db, 'wallet');
+    if (!header) return;
+
+    const order = (await getSetting<string[]>(db, 'utxoOrder')) ?? [];
+    const byOutpoint = new Map((await readAllUtxos(db)).map(utxo => [getOutpoint(utxo), utxo]));
+    const ordered = [...order, ...[...byOutpoint.keys()].filter(outpoint => !order.includes(outpoint))];
+    const wallet = createWallet({
+      ...header,
+      utxos: ordered.map(outpoint => byOutpoint.get(outpoint)).filter((utxo): utxo is UTXO => Boolean(utxo)),
+    }, []);
+
+    const keys = vaultKeys;
+    const [storedWallets, records] = await Promise.all([
+      sealValue(keys, [toStoredWallet(wallet)]),
+      Promise.all(wallet.utxos.map(async utxo =>
+        [await utxoStorageKey(keys, utxoRecordId(utxo)), await sealValue(keys, utxo)] as const
+      )),
+    ]);
+
+    const transaction = db.transaction([SETTINGS_STORE, UTXO_STORE], 'readwrite');
+    const settings = transaction.objectStore(SETTINGS_STORE);
+    const utxoStore = transaction.objectStore(UTXO_STORE);
+    settings.delete('wallet');
+    settings.delete('utxoOrder');
+    settings.put(storedWallets, 'wallets');
+    utxoStore.clear();
+    records.forEach(([key, value]) => utxoStore.put(value, key));
+    await completeTransaction(transaction);
+    console.log(`Upgraded saved wallet "${wallet.name}" to the multi-wallet layout`);
+  });
+
+/**
+ * Reads everything saved for the workspace. Coins come back in the order they were saved in.
+ */
+export const loadWorkspace = async (): Promise<PersistedWorkspace> => {
+  const db = await openWorkspaceDb();
+  await upgradeSingleWalletLayout(db);
+
+  const [storedWallets, tags, selectedCurrency, selectedOutpoints, chainBackendConfig, taxJurisdictionId, walletScope, chainTransactions] =
+    await Promise.all([
+      getSetting<StoredWallet[]>(db, 'wallets'),
+      getSetting<Tag[]>(db, 'tags'),
+      getSetting<string>(db, 'selectedCurrency'),
+      getSetting<string[]>(db, 'selectedOutpoints'),
+      getSetting<ChainBackendConfig>(db, 'chainBackendConfig'),
+      getSetting<string>(db, 'taxJurisdictionId'),
+      getSetting<WalletScope>(db, 'walletScope'),
+      getSetting<ChainTransaction[]>(db, 'chainTransactions'),
+    ]);
+
+  let wallets: Wallet[] = [];
+  if (storedWallets && storedWallets.length > 0) {
+    const byRecordId = new Map((await readAllUtxos(db)).map(utxo => [utxoRecordId(utxo), utxo]));
+    wallets = storedWallets.map(({ utxoOrder, ...header }) => ({
+      ...header,
+      utxos: utxoOrder
+        .map(outpoint => byRecordId.get(`${header.id}/${outpoint}`))
+        .filter((utxo): utxo is UTXO => Boolean(utxo)),
+    }));
+  }
+
+  const storedAudit = await promisifyRequest(db.transaction(AUDIT_STORE).objectStore(AUDIT_STORE).getAll());
+  const auditLog = await Promise.all(storedAudit.map(value => openValue<AuditEntry>(vaultKeys, value)));
+
+  return {
+    wallets,
+    walletScope,
+    tags,
+    selectedCurrency,
+    selectedOutpoints: selectedOutpoints ?? [],
+    chainBackendConfig,
+    taxJurisdictionId,
+    chainTransactions: chainTransactions ?? [],
+    auditLog,
+  };
+};
+
+export const loadSetting = async <T>(key: string): Promise<T | null> =>
+  getSetting<T>(await openWorkspaceDb(), key);
+
+export const saveSetting = (key: string, value: unknown): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    const stored = await sealValue(vaultKeys, value);
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put(stored, key);
+    return completeTransaction(transaction);
+  });
+
+/**
+ * Writes the difference between two versions of the workspace wallets: the wallet headers, coins
+ * that are new or were replaced (state updates create new objects), and coins of removed wallets.
+ */
+export const saveWalletChanges = (previous: Wallet[], next: Wallet[]): Promise<void> => {
+  if (previous === next) return Promise.resolve();
+
+  return enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    const keys = vaultKeys;
+
+    const previousById = new Map(previous.map(wallet => [wallet.id, wallet]));
+    const nextIds = new Set(next.map(wallet => wallet.id));
+    const changed: UTXO[] = [];
+    const removed: string[] = [];
+
+    next.forEach(wallet => {
+      const before = previousById.get(wallet.id);
+      if (before === wallet) return;
+      const beforeUtxos = new Map((before?.utxos ?? []).map(utxo => [utxoRecordId(utxo), utxo]));
+      const kept = new Set<string>();
+      wallet.utxos.forEach(utxo => {
+        const recordId = utxoRecordId(utxo);
+        kept.add(recordId);
+        if (beforeUtxos.get(recordId) !== utxo) changed.push(utxo);
+      });
+      beforeUtxos.forEach((_, recordId) => {
+        if (!kept.has(recordId)) removed.push(recordId);
+      });
+    });
+    previous
+      .filter(wallet => !nextIds.has(wallet.id))
+      .forEach(wallet => removed.push(...wallet.utxos.map(utxoRecordId)));
+
+    const [storedWallets, puts, deletes] = await Promise.all([
+      sealValue(keys, next.map(toStoredWallet)),
+      Promise.all(changed.map(async utxo =>
+        [await utxoStorageKey(keys, utxoRecordId(utxo)), await sealValue(keys, utxo)] as const
+      )),
+      Promise.all(removed.map(recordId => utxoStorageKey(keys, recordId))),
+    ]);
+
+    const transaction = db.transaction([SETTINGS_STORE, UTXO_STORE], 'readwrite');
+    const utxoStore = transaction.objectStore(UTXO_STORE);
+    transaction.objectStore(SETTINGS_STORE).put(storedWallets, 'wallets');
+    puts.forEach(([key, value]) => utxoStore.put(value, key));
+    deletes.forEach(key => utxoStore.delete(key));
+
+    console.log(`Saved ${next.length} wallets: ${changed.length} changed, ${removed.length} removed UTXOs`);
+    return completeTransaction(transaction);
+  });
+};
+
+/**
+ * Appends entries to the change journal. Existing entries are never rewritten except to re-encrypt them.
+ */
+export const appendAuditEntries = (entries: AuditEntry[]): Promise<void> =>
+  enqueueWrite(async () => {
+    if (entries.length === 0) return;
+    const db = await openWorkspaceDb();
+    const stored = await Promise.all(entries.map(entry => sealValue(vaultKeys, entry)));
+    const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+    const auditStore = transaction.objectStore(AUDIT_STORE);
+    stored.forEach(value => auditStore.add(value));
+    return completeTransaction(transaction);
+  });
+
+/**
+ * Swaps the whole change journal, for restoring a backup. Nothing else removes journal entries.
+ */
+export const replaceAuditLog = (entries: AuditEntry[]): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    const stored = await Promise.all(entries.map(entry => sealValue(vaultKeys, entry)));
+    const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+    const auditStore = transaction.objectStore(AUDIT_STORE);
+    auditStore.clear();
+    stored.forEach(value => auditStore.add(value));
+    return completeTransaction(transaction);
+  });
+
+/**
+ * Deletes everything saved for the workspace. An enabled vault stays enabled, so later saves are still encrypted.
+ */
+export const clearWorkspace = (): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    const vault = await getVaultRecord(db);
+    const transaction = db.transaction([SETTINGS_STORE, UTXO_STORE, AUDIT_STORE], 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).clear();
+    transaction.objectStore(UTXO_STORE).clear();
+    transaction.objectStore(AUDIT_STORE).clear();
+    if (vault) transaction.objectStore(SETTINGS_STORE).put(vault, VAULT_KEY);
+    return completeTransaction(transaction);
+  });
+
+/**
+ * Whether a vault protects the saved workspace and whether it is unlocked in this session
+ */
+export const getVaultStatus = async (): Promise<VaultStatus> => {
+  const vault = await getVaultRecord(await openWorkspaceDb());
+  return {
+    enabled: Boolean(vault),
+    unlocked: !vault || Boolean(vaultKeys),
+    autoLockMinutes: vault?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+  };
+};
+
+// Derives the vault keys and proves them against the stored check value
+const openVaultKeys = async (vault: VaultRecord, passphrase: string): Promise<VaultKeys> => {
+  const keys = await deriveVaultKeys(passphrase, vault.salt, vault.iterations);
+  try {
+    await decryptJson<string>(keys.encryptionKey, vault.check);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+  return keys;
+};
+
+const createVaultRecord = async (passphrase: string, autoLockMinutes: number) => {
+  const salt = randomBytes(16);
+  const keys = await deriveVaultKeys(passphrase, salt, DEFAULT_PBKDF2_ITERATIONS);
+  const record: VaultRecord = {
+    kdf: 'PBKDF2-SHA256',
+    iterations: DEFAULT_PBKDF2_ITERATIONS,
+    salt,
+    check: await encryptJson(keys.encryptionKey, VAULT_CHECK),
+    autoLockMinutes,
+  };
+  return { keys, record };
+};
+
+/**
+ * Rewrites every saved record under new keys (null writes cleartext) in a single transaction,
+ * so a failure leaves the previous encryption intact.
+ */
+const reencryptWorkspace = async (db: IDBDatabase, nextKeys: VaultKeys | null, nextRecord: VaultRecord | null) => {
+  const readTransaction = db.transaction([SETTINGS_STORE, UTXO_STORE, AUDIT_STORE]);
+  const settingsStore = readTransaction.objectStore(SETTINGS_STORE);
+  const auditStore = readTransaction.objectStore(AUDIT_STORE);
+  const [settingKeys, settingValues, utxoValues, auditKeys, auditValues] = await Promise.all([
+    promisifyRequest(settingsStore.getAllKeys()),
+    promisifyRequest(settingsStore.getAll()),
+    promisifyRequest(readTransaction.objectStore(UTXO_STORE).getAll()),
+    promisifyRequest(auditStore.getAllKeys()),
+    promisifyRequest(auditStore.getAll()),
+  ]);
+
+  const settings = await Promise.all(
+    settingKeys
+      .map((key, index) => [String(key), settingValues[index]] as const)
+      .filter(([key]) => key !== VAULT_KEY)
+      .map(async ([key, value]) => [key, await sealValue(nextKeys, await openValue(vaultKeys, value))] as const)
+  );
+  const utxos = await Promise.all(utxoValues.map(async value => {
+    const utxo = await openValue<UTXO>(vaultKeys, value);
+    return [await utxoStorageKey(nextKeys, utxoRecordId(utxo)), await sealValue(nextKeys, utxo)] as const;
+  }));
+
+  // Audit entries keep their keys so the journal order survives
+  const audit = await Promise.all(auditValues.map(async (value, index) =>
+    [auditKeys[index], await sealValue(nextKeys, await openValue(vaultKeys, value))] as const
+  ));
+
+  const transaction = db.transaction([SETTINGS_STORE, UTXO_STORE, AUDIT_STORE], 'readwrite');
+  const settingsWrite = transaction.objectStore(SETTINGS_STORE);
+  const utxoWrite = transaction.objectStore(UTXO_STORE);
+  const auditWrite = transaction.objectStore(AUDIT_STORE);
+  settingsWrite.clear();
+  utxoWrite.clear();
+  settings.forEach(([key, value]) => settingsWrite.put(value, key));
+  utxos.forEach(([key, value]) => utxoWrite.put(value, key));
+  audit.forEach(([key, value]) => auditWrite.put(value, key));
+  if (nextRecord) settingsWrite.put(nextRecord, VAULT_KEY);
+  await completeTransaction(transaction);
+
+  vaultKeys = nextKeys;
+  console.log(`Re-encrypted workspace: ${settings.length} settings, ${utxos.length} UTXOs, ${audit.length} audit entries`);
+};
+
+/**
+ * Unlocks the vault for this session. Throws "Incorrect passphrase" on a wrong passphrase.
+ */
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const vault = await getVaultRecord(await openWorkspaceDb());
+  if (!vault) throw new Error('No vault is set up');
+  vaultKeys = await openVaultKeys(vault, passphrase);
+};
+
+/**
+ * Forgets the vault keys once pending writes have been encrypted
+ */
+export const lockVault = async (): Promise<void> => {
+  await writeQueue;
+  vaultKeys = null;
+};
+
+/**
+ * Encrypts the saved workspace under a new passphrase. Everything saved afterwards is encrypted too.
+ */
+export const enableVault = (passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    if (await getVaultRecord(db)) throw new Error('A vault is already set up');
+    const { keys, record } = await createVaultRecord(passphrase, autoLockMinutes);
+    await reencryptWorkspace(db, keys, record);
+  });
+
+/**
+ * Re-encrypts the saved workspace with keys from a new passphrase and a fresh salt
+ */
+export const changeVaultPassphrase = (currentPassphrase: string, nextPassphrase: string): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    const vault = await getVaultRecord(db);
+    if (!vault) throw new Error('No vault is set up');
+    vaultKeys = await openVaultKeys(vault, currentPassphrase);
+    const { keys, record } = await createVaultRecord(nextPassphrase, vault.autoLockMinutes);
+    await reencryptWorkspace(db, keys, record);
+  });
+
+/**
+ * Decrypts the saved workspace and removes the vault
+ */
+export const disableVault = (passphrase: string): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    const vault = await getVaultRecord(db);
+    if (!vault) return;
+    vaultKeys = await openVaultKeys(vault, passphrase);
+    await reencryptWorkspace(db, null, null);
+  });
+
+export const setVaultAutoLock = (autoLockMinutes: number): Promise<void> =>
+  enqueueWrite(async () => {
+    const db = await openWorkspaceDb();
+    const vault = await getVaultRecord(db);
+    if (!vault) throw new Error('No vault is set up');
+    const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+    transaction.objectStore(SETTINGS_STORE).put({ ...vault, autoLockMinutes }, VAULT_KEY);
+    return completeTransaction(transaction);
+  });
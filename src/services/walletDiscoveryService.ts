@@ -0,0 +1,114 @@
+import { DerivedAddress, ParsedDescriptor } from "@/types/bitcoin";
+import { ChainBackend, ChainUtxo, DiscoveryProgress } from "@/types/chain";
+import { UTXO } from "@/types/utxo";
+import { deriveDescriptorAddresses } from "@/utils/descriptor-utils";
+
+export const DEFAULT_GAP_LIMIT = 20;
+const MAX_ADDRESSES_PER_CHAIN = 10000;
+
+interface DiscoveryOptions {
+  gapLimit?: number;
+  walletName?: string;
+  onProgress?: (progress: DiscoveryProgress) => void;
+}
+
+interface DiscoveryResult {
+  addresses: DerivedAddress[];
+  utxos: UTXO[];
+}
+
+/**
+ * Maps a backend UTXO to the app's UTXO shape. Annotation fields start empty
+ * and privacy risk is unknown until the wallet is analysed.
+ */
+export const mapChainUtxo = (
+  chainUtxo: ChainUtxo,
+  tipHeight: number,
+  scriptPubKey: string,
+  walletName?: string
+): UTXO => {
+  const { status } = chainUtxo;
+  const confirmations = status.confirmed && status.blockHeight !== null
+    ? Math.max(0, tipHeight - status.blockHeight + 1)
+    : 0;
+  const createdAt = status.blockTime
+    ? new Date(status.blockTime * 1000).toISOString()
+    : new Date().toISOString();
+
+  return {
+    txid: chainUtxo.txid,
+    vout: chainUtxo.vout,
+    address: chainUtxo.address,
+    amount: chainUtxo.value / 100000000,
+    confirmations,
+    scriptPubKey,
+    tags: [],
+    createdAt,
+    privacyRisk: 'medium',
+    acquisitionDate: createdAt.split('T')[0],
+    acquisitionFiatValue: null,
+    acquisitionBtcPrice: null,
+    disposalDate: null,
+    disposalFiatValue: null,
+    realizedGainFiat: null,
+    costAutoPopulated: false,
+    notes: null,
+    senderAddress: null,
+    receiverAddress: chainUtxo.address,
+    walletName
+  };
+};
+
+/**
+ * Walks the receive and change chains of a descriptor, asking the backend about
+ * each address until `gapLimit` consecutive addresses have no history.
+ */
+export const discoverDescriptorWallet = async (
+  parsed: ParsedDescriptor,
+  backend: ChainBackend,
+  { gapLimit = DEFAULT_GAP_LIMIT, walletName, onProgress }: DiscoveryOptions = {}
+): Promise<DiscoveryResult> => {
+  const tipHeight = await backend.getTipHeight();
+  const addresses: DerivedAddress[] = [];
+  const utxos: UTXO[] = [];
+
+  const scanAddress = async (derived: DerivedAddress): Promise<boolean> => {
+    const txCount = await backend.getAddressTxCount(derived.address);
+    const used = txCount > 0;
+    addresses.push({ ...derived, used });
+
+    if (used) {
+      const chainUtxos = await backend.getAddressUtxos(derived.address);
+      chainUtxos.forEach(chainUtxo => {
+        utxos.push(mapChainUtxo(chainUtxo, tipHeight, derived.scriptPubKey, walletName));
+      });
+    }
+    return used;
+  };
+
+  for (const chain of [0, 1] as const) {
+    let index = 0;
+    let unusedInARow = 0;
+    let usedCount = 0;
+
+    while (unusedInARow < gapLimit && index < MAX_ADDRESSES_PER_CHAIN) {
+      const batch = deriveDescriptorAddresses(parsed, chain, index, gapLimit - unusedInARow);
+      if (batch.length === 0) break;
+
+      for (const derived of batch) {
+        if (await scanAddress(derived)) {
+          usedCount++;
+          unusedInARow = 0;
+        } else {
+          unusedInARow++;
+        }
+        index = derived.index + 1;
+      }
+
+      onProgress?.({ chain, index, usedCount });
+      if (!parsed.isRanged) break;
+    }
+  }
+
+  return { addresses, utxos };
+};
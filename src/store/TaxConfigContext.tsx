@@ -1,20 +1,62 @@
 
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { TaxConfig, TaxJurisdiction } from '@/types/tax';
 import { taxJurisdictions } from '@/data/taxConfigs';
+import { loadSetting, saveSetting } from '@/services/storageService';
 
 interface TaxConfigContextType {
   selectedJurisdiction: TaxJurisdiction | null;
   setSelectedJurisdiction: (jurisdiction: TaxJurisdiction) => void;
+  taxOverrides: Partial<TaxConfig>;
+  setTaxOverrides: (overrides: Partial<TaxConfig>) => void;
+  restoreTaxConfig: (jurisdictionId: string | null, overrides: Partial<TaxConfig>) => void;
 }
 
 const TaxConfigContext = createContext<TaxConfigContextType | undefined>(undefined);
 
 export function TaxConfigProvider({ children }: { children: ReactNode }) {
-  const [selectedJurisdiction, setSelectedJurisdiction] = useState<TaxJurisdiction | null>(null);
+  const [selectedJurisdiction, setSelectedJurisdictionState] = useState<TaxJurisdiction | null>(null);
+  const [taxOverrides, setTaxOverridesState] = useState<Partial<TaxConfig>>({});
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Jurisdictions are static data, so only the chosen id is stored
+  useEffect(() => {
+    Promise.all([loadSetting<string>('taxJurisdictionId'), loadSetting<Partial<TaxConfig>>('taxOverrides')])
+      .then(([id, overrides]) => {
+        const saved = taxJurisdictions.find(jurisdiction => jurisdiction.id === id);
+        if (saved) setSelectedJurisdictionState(saved);
+        if (overrides) setTaxOverridesState(overrides);
+      })
+      .catch(error => console.warn('Could not restore the tax jurisdiction:', error))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
+  const setSelectedJurisdiction = useCallback((jurisdiction: TaxJurisdiction) => {
+    setSelectedJurisdictionState(jurisdiction);
+    saveSetting('taxJurisdictionId', jurisdiction.id)
+      .catch(error => console.error('Failed to save the tax jurisdiction:', error));
+  }, []);
+
+  const setTaxOverrides = useCallback((overrides: Partial<TaxConfig>) => {
+    setTaxOverridesState(overrides);
+    saveSetting('taxOverrides', overrides)
+      .catch(error => console.error('Failed to save the tax overrides:', error));
+  }, []);
+
+  // Used by backup restore, which may also clear the jurisdiction
+  const restoreTaxConfig = useCallback((jurisdictionId: string | null, overrides: Partial<TaxConfig>) => {
+    setSelectedJurisdictionState(taxJurisdictions.find(jurisdiction => jurisdiction.id === jurisdictionId) ?? null);
+    saveSetting('taxJurisdictionId', jurisdictionId)
+      .catch(error => console.error('Failed to save the tax jurisdiction:', error));
+    setTaxOverrides(overrides);
+  }, [setTaxOverrides]);
+
+  if (!isHydrated) return null;
 
   return (
-    <TaxConfigContext.Provider value={{ selectedJurisdiction, setSelectedJurisdiction }}>
+    <TaxConfigContext.Provider
+      value={{ selectedJurisdiction, setSelectedJurisdiction, taxOverrides, setTaxOverrides, restoreTaxConfig }}
+    >
       {children}
     </TaxConfigContext.Provider>
   );
@@ -0,0 +1,129 @@
+import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
+import {
+  changeVaultPassphrase,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  disableVault as disableVaultStorage,
+  enableVault as enableVaultStorage,
+  getVaultStatus,
+  lockVault,
+  setVaultAutoLock,
+  unlockVault
+} from '@/services/storageService';
+import { VaultUnlockScreen } from '@/components/vault/VaultUnlockScreen';
+
+type VaultState = 'loading' | 'locked' | 'open';
+
+interface VaultContextType {
+  isVaultEnabled: boolean;
+  autoLockMinutes: number;
+  lock: () => Promise<void>;
+  enableVault: (passphrase: string) => Promise<void>;
+  changePassphrase: (currentPassphrase: string, nextPassphrase: string) => Promise<void>;
+  disableVault: (passphrase: string) => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => Promise<void>;
+}
+
+// Any of these counts as activity and restarts the auto-lock countdown
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+
+const VaultContext = createContext<VaultContextType | undefined>(undefined);
+
+/**
+ * Gates the app behind the passphrase vault. While locked, nothing below this provider is mounted,
+ * so the decrypted workspace only lives in memory between unlock and lock.
+ */
+export function VaultProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<VaultState>('loading');
+  const [isVaultEnabled, setIsVaultEnabled] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+
+  useEffect(() => {
+    getVaultStatus()
+      .then(status => {
+        setIsVaultEnabled(status.enabled);
+        setAutoLockMinutesState(status.autoLockMinutes);
+        setState(status.unlocked ? 'open' : 'locked');
+      })
+      .catch(error => {
+        // Without IndexedDB nothing is saved, so there is nothing to protect
+        console.warn('Could not read the vault status:', error);
+        setState('open');
+      });
+  }, []);
+
+  const lock = useCallback(async () => {
+    setState('locked');
+    await lockVault();
+    console.log('Vault locked');
+  }, []);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    await unlockVault(passphrase);
+    setState('open');
+  }, []);
+
+  const enableVault = useCallback(async (passphrase: string) => {
+    await enableVaultStorage(passphrase, autoLockMinutes);
+    setIsVaultEnabled(true);
+  }, [autoLockMinutes]);
+
+  const changePassphrase = useCallback(async (currentPassphrase: string, nextPassphrase: string) => {
+    await changeVaultPassphrase(currentPassphrase, nextPassphrase);
+  }, []);
+
+  const disableVault = useCallback(async (passphrase: string) => {
+    await disableVaultStorage(passphrase);
+    setIsVaultEnabled(false);
+  }, []);
+
+  const setAutoLockMinutes = useCallback(async (minutes: number) => {
+    await setVaultAutoLock(minutes);
+    setAutoLockMinutesState(minutes);
+  }, []);
+
+  // Auto-lock after a period without user activity
+  useEffect(() => {
+    if (!isVaultEnabled || state !== 'open' || autoLockMinutes <= 0) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        console.log(`Locking vault after ${autoLockMinutes} minutes of inactivity`);
+        lock();
+      }, autoLockMinutes * 60 * 1000);
+    };
+
+    restart();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [isVaultEnabled, state, autoLockMinutes, lock]);
+
+  if (state === 'loading') return null;
+  if (state === 'locked') return <VaultUnlockScreen onUnlock={unlock} />;
+
+  return (
+    <VaultContext.Provider value={{
+      isVaultEnabled,
+      autoLockMinutes,
+      lock,
+      enableVault,
+      changePassphrase,
+      disableVault,
+      setAutoLockMinutes
+    }}>
+      {children}
+    </VaultContext.Provider>
+  );
+}
+
+export function useVault() {
+  const context = useContext(VaultContext);
+  if (context === undefined) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+}
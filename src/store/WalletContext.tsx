@@ -1,25 +1,119 @@
-import { createContext, useContext, useState, useRef, ReactNode, useEffect, useCallback } from 'react';
-import { WalletData, UTXO, Tag, Transaction, Report, PortfolioData } from '../types/utxo';
-import { mockWalletData, mockTags } from '../data/mockData';
+import { createContext, useContext, useState, useRef, ReactNode, useEffect, useCallback, useMemo, SetStateAction } from 'react';
+import {
+  WalletData,
+  UTXO,
+  Tag,
+  Transaction,
+  Report,
+  PortfolioData,
+  WalletExportFormat,
+  Wallet,
+  WalletScope,
+  WalletSyncState,
+  UTXOStatus
+} from '../types/utxo';
+import { mockTags } from '../data/mockData';
 import { 
   isUTXOInSelection, 
   addUTXOToSelection, 
   removeUTXOFromSelection, 
   toggleUTXOInSelection 
 } from '../utils/utxoSelectionUtils';
-import { getCurrentBitcoinPrice, getBitcoinHistoricalPrice } from '../services/coingeckoService';
+import { getCurrentBitcoinPrice, getBitcoinHistoricalPrice, resetPriceCache } from '../services/coingeckoService';
+import { descriptorToWalletData, DescriptorImportOptions, parseDescriptor } from '../utils/descriptor-utils';
+import { xpubToDescriptor, XpubScriptType } from '../utils/xpub-utils';
+import { discoverDescriptorWallet, DEFAULT_GAP_LIMIT } from '../services/walletDiscoveryService';
+import { ChainBackend, ChainBackendConfig, ChainTransaction, DiscoveryProgress } from '../types/chain';
+import { AddressCluster } from '../types/cluster';
+import { createChainBackend, DEFAULT_CHAIN_BACKEND_CONFIG } from '../services/chainBackends';
+import { refreshUtxosFromChain, mergeUtxoAnnotations, fetchParentTransactions, pruneChainTransactions, ChainRefreshResult } from '../services/chainSyncService';
+import { loadWalletFromBitcoinCore } from '../services/bitcoinCoreService';
+import {
+  applyTransactionLabels,
+  parseWalletExport,
+  WALLET_EXPORT_FORMAT_NAMES,
+  WalletExportResult
+} from '../utils/wallet-export-utils';
+import { applyBip329Labels, parseBip329 } from '../utils/bip329-utils';
+import { csvUtxosToWalletData } from '../utils/csv-import-utils';
+import { deriveWalletScripts } from '../utils/script-utils';
+import { scoreWalletRisk } from '../utils/risk-utils';
+import { clusterAddresses } from '../utils/cluster-utils';
+import {
+  appendAuditEntries,
+  clearWorkspace,
+  loadWorkspace,
+  replaceAuditLog,
+  saveSetting,
+  saveWalletChanges
+} from '../services/storageService';
+import { getOutpoint } from '../utils/utxo-utils';
+import { AuditEntry, AuditSource, EditHistory, UTXOEditCommand, UTXOFieldEdit } from '../types/history';
+import {
+  applyEditCommand,
+  createAuditEntries,
+  createDeletion,
+  createFieldAuditEntries,
+  createFieldEdit,
+  describeOutpoint,
+  EMPTY_HISTORY,
+  MAX_HISTORY
+} from '../utils/history-utils';
+import { WorkspaceSnapshot } from '../types/backup';
+import { combineWallets, createWallet, getScopedWallets, stampWalletUtxos } from '../utils/wallet-utils';
+import { applyUtxoLifecycle, calculateBalance, isHeldUtxo, LifecycleDetails } from '../utils/lifecycle-utils';
+
+export interface XpubImportOptions {
+  backend: ChainBackend;
+  scriptType?: XpubScriptType;
+  gapLimit?: number;
+  name?: string;
+  onProgress?: (progress: DiscoveryProgress) => void;
+}
+
+export interface WalletExportImportSummary {
+  format: WalletExportFormat;
+  formatName: string;
+  utxoCount: number;
+  labeledCount: number; // UTXOs that received a label or tag
+}
+
+export interface Bip329ImportSummary {
+  recordCount: number;
+  labeledCount: number;
+  unmatchedCount: number;
+  createdTags: string[];
+}
 
 type SupportedCurrency = 'usd' | 'eur' | 'gbp' | 'jpy' | 'aud' | 'cad';
 
+const SUPPORTED_CURRENCIES: SupportedCurrency[] = ['usd', 'eur', 'gbp', 'jpy', 'aud', 'cad'];
+
 interface WalletContextType {
-  walletData: WalletData | null;
+  walletData: WalletData | null; // The coins still held by the wallets in scope, combined into one view
+  wallets: Wallet[];
+  scopedWallets: Wallet[];
+  spentUtxos: UTXO[]; // Spent and abandoned coins of the wallets in scope
+  chainTransactions: ChainTransaction[];
+  clusters: AddressCluster[]; // What a chain observer can link across the wallets in scope
+  walletScope: WalletScope;
+  setWalletScope: (scope: WalletScope) => void;
+  updateWalletInfo: (walletId: string, changes: Partial<Pick<Wallet, 'name' | 'color'>>) => void;
+  removeWallet: (walletId: string) => void;
+  addUTXO: (walletId: string, utxo: UTXO) => void;
   tags: Tag[];
   selectedUTXOs: UTXO[];
-  importWallet: (data: WalletData) => void;
-  importFromJson: (jsonString: string) => void;
+  importWallet: (data: WalletData) => Wallet;
+  importWallets: (data: WalletData[]) => Wallet[];
+  importFromJson: (content: string, fileName?: string) => WalletExportImportSummary;
+  importFromDescriptor: (descriptor: string, options?: DescriptorImportOptions) => WalletData;
+  importFromXpub: (xpub: string, options: XpubImportOptions) => Promise<WalletData>;
+  importBip329Labels: (content: string) => Bip329ImportSummary;
+  importFromCsv: (name: string, utxos: UTXO[]) => WalletData;
   addTag: (tag: Tag) => void;
-  tagUTXO: (utxoId: string, tagId: string | null, tagNameToRemove?: string | null) => void;
-  removeTagFromUTXO: (utxoId: string, tagId: string) => void;
+  getUTXO: (outpoint: string) => UTXO | undefined;
+  tagUTXO: (outpoint: string, tagId: string | null, tagNameToRemove?: string | null) => void;
+  removeTagFromUTXO: (outpoint: string, tagId: string) => void;
   selectUTXO: (utxo: UTXO) => void;
   deselectUTXO: (utxo: UTXO) => void;
   clearSelectedUTXOs: () => void;
@@ -29,31 +123,267 @@ interface WalletContextType {
   hasWallet: boolean;
   preselectedForSimulation: boolean;
   setPreselectedForSimulation: (value: boolean) => void;
-  updateUtxoCostBasis: (utxoId: string, acquisitionDate: string | null, acquisitionFiatValue: number | null, notes: string | null) => void;
-  updateUtxoAddresses: (utxoId: string, senderAddress: string, receiverAddress: string) => void;
-  autoPopulateUTXOCostBasis: (utxoId: string) => Promise<boolean>;
+  updateUtxoCostBasis: (outpoint: string, acquisitionDate: string | null, acquisitionFiatValue: number | null, notes: string | null) => void;
+  updateUtxoAddresses: (outpoint: string, senderAddress: string, receiverAddress: string) => void;
+  updateUtxoLifecycle: (outpoint: string, status: UTXOStatus, details?: LifecycleDetails) => void;
+  autoPopulateUTXOCostBasis: (outpoint: string) => Promise<boolean>;
   getPortfolioData: () => Promise<PortfolioData | null>;
   selectedCurrency: SupportedCurrency;
   setSelectedCurrency: (currency: SupportedCurrency) => void;
-  deleteUTXO: (utxoId: string) => void;
+  deleteUTXO: (outpoint: string) => void;
+  chainBackendConfig: ChainBackendConfig;
+  setChainBackendConfig: (config: ChainBackendConfig) => void;
+  getChainBackend: () => ChainBackend | null;
+  refreshChainData: () => Promise<ChainRefreshResult | null>;
+  syncFromBitcoinCore: () => Promise<WalletData>;
+  clearSavedWorkspace: () => Promise<void>;
+  restoreWorkspace: (snapshot: WorkspaceSnapshot) => Promise<void>;
+  editHistory: EditHistory;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => UTXOEditCommand | null;
+  redo: () => UTXOEditCommand | null;
+  auditLog: AuditEntry[];
+  getAuditTrail: (outpoint: string) => AuditEntry[];
 }
 
 const WalletContext = createContext<WalletContextType | undefined>(undefined);
 
 export function WalletProvider({ children }: { children: ReactNode }) {
-  const [walletData, setWalletData] = useState<WalletData | null>(null);
+  const [wallets, setWalletsState] = useState<Wallet[]>([]);
+  const [walletScope, setWalletScope] = useState<WalletScope>('all');
   const [tags, setTags] = useState<Tag[]>(mockTags);
   const [selectedUTXOs, setSelectedUTXOs] = useState<UTXO[]>([]);
   const [preselectedForSimulation, setPreselectedForSimulation] = useState<boolean>(false);
   const [selectedCurrency, setSelectedCurrency] = useState<SupportedCurrency>('usd');
+  const [chainBackendConfig, setChainBackendConfig] = useState<ChainBackendConfig>(DEFAULT_CHAIN_BACKEND_CONFIG);
+  
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [chainTransactions, setChainTransactions] = useState<ChainTransaction[]>([]);
   
   const preselectionDoneRef = useRef<boolean>(false);
+  const lastSavedWalletsRef = useRef<Wallet[]>([]);
+  const savedAuditCountRef = useRef<number>(0);
+  const persistenceAvailableRef = useRef<boolean>(true);
+
+  // Every wallet update goes through here so script types follow scriptPubKey and address changes,
+  // risk scores follow tags and the rest of the wallet, and coins keep the id and name of the wallet holding them
+  const setWallets = useCallback((update: SetStateAction<Wallet[]>) => {
+    setWalletsState(prev => {
+      const next = typeof update === 'function' ? update(prev) : update;
+      return next.map(wallet => stampWalletUtxos(scoreWalletRisk(deriveWalletScripts(wallet))));
+    });
+  }, []);
+
+  const replaceWallet = useCallback((next: Wallet) => {
+    setWallets(prev => prev.map(wallet => wallet.id === next.id ? next : wallet));
+  }, [setWallets]);
+
+  const setWalletSync = useCallback((walletIds: Set<string>, sync: Partial<WalletSyncState>) => {
+    setWallets(prev => prev.map(wallet =>
+      walletIds.has(wallet.id) ? { ...wallet, sync: { ...wallet.sync, ...sync } } : wallet
+    ));
+  }, [setWallets]);
+
+  const walletsById = useMemo(() => new Map(wallets.map(wallet => [wallet.id, wallet])), [wallets]);
+  const scopedWallets = useMemo(() => getScopedWallets(wallets, walletScope), [wallets, walletScope]);
+  const walletData = useMemo(() => combineWallets(wallets, walletScope), [wallets, walletScope]);
+  const spentUtxos = useMemo(
+    () => scopedWallets.flatMap(wallet => wallet.utxos.filter(utxo => !isHeldUtxo(utxo))),
+    [scopedWallets]
+  );
+  const clusters = useMemo(
+    () => clusterAddresses(chainTransactions, [...(walletData?.utxos ?? []), ...spentUtxos]),
+    [chainTransactions, walletData, spentUtxos]
+  );
+
+  // Appends to the change journal; entries are never edited or removed
+  const recordAudit = useCallback((entries: AuditEntry[]) => {
+    if (entries.length > 0) setAuditLog(prev => [...prev, ...entries]);
+  }, []);
+
+  // Restore the saved workspace once on startup; nothing is saved until this has finished
+  useEffect(() => {
+    loadWorkspace()
+      .then(saved => {
+        if (saved.wallets.length > 0) {
+          lastSavedWalletsRef.current = saved.wallets;
+          preselectionDoneRef.current = true;
+          setWallets(saved.wallets);
+
+          const selected = new Set(saved.selectedOutpoints);
+          setSelectedUTXOs(saved.wallets.flatMap(wallet => wallet.utxos).filter(utxo => selected.has(getOutpoint(utxo))));
+        }
+        if (saved.walletScope) setWalletScope(saved.walletScope);
+        if (saved.tags) setTags(saved.tags);
+        savedAuditCountRef.current = saved.auditLog.length;
+        setAuditLog(saved.auditLog);
+        if (saved.selectedCurrency && SUPPORTED_CURRENCIES.includes(saved.selectedCurrency as SupportedCurrency)) {
+          setSelectedCurrency(saved.selectedCurrency as SupportedCurrency);
+        }
+        if (saved.chainBackendConfig) {
+          setChainBackendConfig({ ...DEFAULT_CHAIN_BACKEND_CONFIG, ...saved.chainBackendConfig });
+        }
+        setChainTransactions(saved.chainTransactions);
+        console.log(`Restored workspace: ${saved.wallets.length} wallets`);
+      })
+      .catch(error => {
+        console.warn('Workspace persistence unavailable, changes will not survive a reload:', error);
+        persistenceAvailableRef.current = false;
+      })
+      .finally(() => setIsHydrated(true));
+  }, [setWallets]);
+
+  const canPersist = isHydrated && persistenceAvailableRef.current;
+
+  // Only the coins that changed since the last save are written
+  useEffect(() => {
+    if (!canPersist) return;
+    const previous = lastSavedWalletsRef.current;
+    lastSavedWalletsRef.current = wallets;
+    saveWalletChanges(previous, wallets).catch(error => console.error('Failed to save wallets:', error));
+  }, [canPersist, wallets]);
+
+  useEffect(() => {
+    if (!canPersist) return;
+    saveSetting('walletScope', walletScope).catch(error => console.error('Failed to save wallet scope:', error));
+  }, [canPersist, walletScope]);
+
+  // The journal only grows, so only entries added since the last save are written
+  useEffect(() => {
+    if (!canPersist || auditLog.length <= savedAuditCountRef.current) return;
+    const added = auditLog.slice(savedAuditCountRef.current);
+    savedAuditCountRef.current = auditLog.length;
+    appendAuditEntries(added).catch(error => console.error('Failed to save audit entries:', error));
+  }, [canPersist, auditLog]);
+
+  useEffect(() => {
+    if (!canPersist) return;
+    saveSetting('tags', tags).catch(error => console.error('Failed to save tags:', error));
+  }, [canPersist, tags]);
+
+  useEffect(() => {
+    if (!canPersist) return;
+    saveSetting('selectedCurrency', selectedCurrency).catch(error => console.error('Failed to save currency:', error));
+  }, [canPersist, selectedCurrency]);
+
+  useEffect(() => {
+    if (!canPersist) return;
+    saveSetting('selectedOutpoints', selectedUTXOs.map(getOutpoint))
+      .catch(error => console.error('Failed to save selection:', error));
+  }, [canPersist, selectedUTXOs]);
+
+  useEffect(() => {
+    if (!canPersist) return;
+    // The RPC password is kept in memory only
+    const config = { ...chainBackendConfig, bitcoinCore: { ...chainBackendConfig.bitcoinCore, password: '' } };
+    saveSetting('chainBackendConfig', config).catch(error => console.error('Failed to save backend settings:', error));
+  }, [canPersist, chainBackendConfig]);
+
+  useEffect(() => {
+    if (!canPersist) return;
+    saveSetting('chainTransactions', chainTransactions)
+      .catch(error => console.error('Failed to save chain transactions:', error));
+  }, [canPersist, chainTransactions]);
+
+  const clearSavedWorkspace = useCallback(async () => {
+    await clearWorkspace();
+    resetPriceCache();
+    lastSavedWalletsRef.current = [];
+    savedAuditCountRef.current = 0;
+    setAuditLog([]);
+    setWallets([]);
+    setWalletScope('all');
+    setEditHistory(EMPTY_HISTORY);
+    setTags(mockTags);
+    setSelectedUTXOs([]);
+    setSelectedCurrency('usd');
+    setChainBackendConfig(DEFAULT_CHAIN_BACKEND_CONFIG);
+    setChainTransactions([]);
+  }, [setWallets]);
+
+  // Loads the result of a backup restore. A restore may drop journal entries, so the journal is rewritten whole.
+  const restoreWorkspace = useCallback(async (snapshot: WorkspaceSnapshot) => {
+    await replaceAuditLog(snapshot.auditLog);
+    savedAuditCountRef.current = snapshot.auditLog.length;
+    setAuditLog(snapshot.auditLog);
+
+    // Backup wallets keep their ids and colors; wallets from older files get new ones
+    const restored = snapshot.wallets.reduce<Wallet[]>((all, data) => [...all, createWallet(data, all)], []);
+    preselectionDoneRef.current = true;
+    setWallets(restored);
+    setWalletScope('all');
+    setEditHistory(EMPTY_HISTORY);
+    setTags(snapshot.tags);
+
+    const selected = new Set(snapshot.simulationOutpoints);
+    setSelectedUTXOs(restored.flatMap(wallet => wallet.utxos).filter(utxo => selected.has(getOutpoint(utxo))));
+    if (SUPPORTED_CURRENCIES.includes(snapshot.selectedCurrency as SupportedCurrency)) {
+      setSelectedCurrency(snapshot.selectedCurrency as SupportedCurrency);
+    }
+    // Backups never hold the RPC password, so the one typed in this session is kept
+    setChainBackendConfig(prev => snapshot.chainBackendConfig
+      ? {
+          ...DEFAULT_CHAIN_BACKEND_CONFIG,
+          ...snapshot.chainBackendConfig,
+          bitcoinCore: { ...snapshot.chainBackendConfig.bitcoinCore, password: prev.bitcoinCore.password }
+        }
+      : DEFAULT_CHAIN_BACKEND_CONFIG);
+    console.log(`Restored backup: ${restored.length} wallets, ${snapshot.auditLog.length} audit entries`);
+  }, [setWallets]);
   
-  const importWallet = useCallback((data: WalletData) => {
-    setWalletData(data);
+  // Imports add wallets next to the others. A scope limited to some wallets grows to include them.
+  const importWallets = useCallback((data: WalletData[]): Wallet[] => {
+    const added = data.reduce<Wallet[]>((all, item) => [...all, createWallet(item, [...wallets, ...all])], []);
+    const addedIds = added.map(wallet => wallet.id);
+    setWallets(prev => [...prev, ...added]);
+    setWalletScope(prev => prev === 'all' ? prev : [...prev, ...addedIds]);
     setPreselectedForSimulation(false);
     preselectionDoneRef.current = false;
-  }, []);
+    return added;
+  }, [wallets, setWallets]);
+
+  const importWallet = useCallback((data: WalletData): Wallet => importWallets([data])[0], [importWallets]);
+
+  const updateWalletInfo = useCallback((walletId: string, changes: Partial<Pick<Wallet, 'name' | 'color'>>) => {
+    const wallet = walletsById.get(walletId);
+    if (!wallet) return;
+    const name = changes.name?.trim();
+    if (name !== undefined) {
+      if (!name) throw new Error('Wallet name cannot be empty');
+      if (wallets.some(other => other.id !== walletId && other.name === name)) {
+        throw new Error(`Another wallet is already called "${name}"`);
+      }
+    }
+    replaceWallet({ ...wallet, ...changes, ...(name !== undefined && { name }) });
+  }, [wallets, walletsById, replaceWallet]);
+
+  // Drops the wallet with its selection and undo history; its audit entries stay in the journal
+  const removeWallet = useCallback((walletId: string) => {
+    console.log(`WalletContext: Removing wallet ${walletId}`);
+    setWallets(prev => prev.filter(wallet => wallet.id !== walletId));
+    const remainingUtxos = wallets.filter(wallet => wallet.id !== walletId).flatMap(wallet => wallet.utxos);
+    setChainTransactions(prev => pruneChainTransactions(prev, remainingUtxos));
+    setSelectedUTXOs(prev => prev.filter(utxo => utxo.walletId !== walletId));
+    setEditHistory(prev => ({
+      past: prev.past.filter(command => command.walletId !== walletId),
+      future: prev.future.filter(command => command.walletId !== walletId)
+    }));
+    setWalletScope(prev => {
+      if (prev === 'all') return prev;
+      const remaining = prev.filter(id => id !== walletId);
+      return remaining.length > 0 ? remaining : 'all';
+    });
+  }, [wallets, setWallets]);
+
+  const addUTXO = useCallback((walletId: string, utxo: UTXO) => {
+    const wallet = walletsById.get(walletId);
+    if (!wallet) return;
+    const utxos = [...wallet.utxos, utxo];
+    replaceWallet({ ...wallet, utxos, totalBalance: calculateBalance(utxos) });
+  }, [walletsById, replaceWallet]);
 
   useEffect(() => {
     if (walletData && !preselectionDoneRef.current && !preselectedForSimulation) {
@@ -83,123 +413,421 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     }
   }, [walletData, preselectedForSimulation]);
 
-  const importFromJson = (jsonString: string) => {
-    try {
-      const parsed = JSON.parse(jsonString);
-      
-      const utxos: UTXO[] = parsed.utxos.map((utxo: any) => ({
-        ...utxo,
-        tags: [],
-        createdAt: new Date().toISOString(),
-        privacyRisk: Math.random() < 0.33 ? 'low' : Math.random() < 0.66 ? 'medium' : 'high'
+  // One backend instance per config so socket-based backends (Electrum) reuse their connection
+  const chainBackend = useMemo(() => createChainBackend(chainBackendConfig), [chainBackendConfig]);
+  const getChainBackend = useCallback(() => chainBackend, [chainBackend]);
+
+  // Fetches chain data for the given UTXOs and merges it into whichever wallets hold them by then
+  const syncUtxosWithChain = useCallback(async (utxos: UTXO[]): Promise<ChainRefreshResult | null> => {
+    const backend = getChainBackend();
+    if (!backend || utxos.length === 0) return null;
+
+    const result = await refreshUtxosFromChain(utxos, backend);
+
+    // Parent transactions let clustering reach past the wallet's own transactions to its counterparties
+    const known = new Set(chainTransactions.map(tx => tx.txid));
+    const parents = await fetchParentTransactions(result.transactions, backend, known);
+    const fetched = new Map([...result.transactions, ...parents].map(tx => [tx.txid, tx]));
+    setChainTransactions(prev => [...prev.filter(tx => !fetched.has(tx.txid)), ...fetched.values()]);
+
+    const refreshedById = new Map(result.utxos.map(utxo => [getOutpoint(utxo), utxo]));
+
+    // Confirmations change every block; dates, senders, spends and coinjoins only when the chain says so, which is worth a record
+    const reason = `Chain refresh from ${backend.name}`;
+    recordAudit(utxos.flatMap(utxo => {
+      const refreshed = refreshedById.get(getOutpoint(utxo));
+      return refreshed
+        ? createFieldAuditEntries(utxo, refreshed, ['createdAt', 'senderAddress', 'status', 'spend', 'coinjoin', 'anonset'], 'automatic', reason)
+        : [];
+    }));
+
+    setWallets(prev => prev.map(wallet => {
+      if (!wallet.utxos.some(utxo => refreshedById.has(getOutpoint(utxo)))) return wallet;
+      const updatedUtxos = wallet.utxos.map(utxo => {
+        const refreshed = refreshedById.get(getOutpoint(utxo));
+        return refreshed
+          ? {
+              ...utxo,
+              confirmations: refreshed.confirmations,
+              createdAt: refreshed.createdAt,
+              senderAddress: refreshed.senderAddress,
+              status: refreshed.status,
+              spend: refreshed.spend,
+              disposalDate: refreshed.disposalDate,
+              disposalFiatValue: refreshed.disposalFiatValue,
+              realizedGainFiat: refreshed.realizedGainFiat,
+              coinjoin: refreshed.coinjoin,
+              anonset: refreshed.anonset
+            }
+          : utxo;
+      });
+      return { ...wallet, utxos: updatedUtxos, totalBalance: calculateBalance(updatedUtxos) };
+    }));
+
+    // Coins spent meanwhile can't go into a simulated transaction
+    if (result.spentCount > 0) {
+      setSelectedUTXOs(prev => prev.filter(selected => {
+        const refreshed = refreshedById.get(getOutpoint(selected));
+        return !refreshed || isHeldUtxo(refreshed);
       }));
-      
-      const walletData: WalletData = {
-        name: parsed.name || 'Imported Wallet',
-        totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
-        utxos
+    }
+
+    return result;
+  }, [getChainBackend, chainTransactions, setWallets, recordAudit]);
+
+  // Refreshes whole wallets and tracks the outcome in each wallet's sync state
+  const syncWallets = useCallback(async (targets: Wallet[]): Promise<ChainRefreshResult | null> => {
+    const walletIds = new Set(targets.map(wallet => wallet.id));
+    setWalletSync(walletIds, { status: 'syncing', error: undefined });
+    try {
+      const result = await syncUtxosWithChain(targets.flatMap(wallet => wallet.utxos));
+      setWalletSync(walletIds, result
+        ? { status: 'synced', lastSyncedAt: new Date().toISOString() }
+        : { status: 'idle' });
+      return result;
+    } catch (error) {
+      setWalletSync(walletIds, { status: 'error', error: error instanceof Error ? error.message : 'Chain refresh failed' });
+      throw error;
+    }
+  }, [syncUtxosWithChain, setWalletSync]);
+
+  const refreshChainData = useCallback(async (): Promise<ChainRefreshResult | null> => {
+    if (scopedWallets.length === 0) return null;
+    return syncWallets(scopedWallets);
+  }, [scopedWallets, syncWallets]);
+
+  // Labels from a file belong to one wallet, so they go to the wallet in scope
+  const getLabelTarget = (missingWalletError: string): Wallet => {
+    if (scopedWallets.length === 0) throw new Error(missingWalletError);
+    if (scopedWallets.length > 1) {
+      throw new Error('Several wallets are in scope. Pick the wallet these labels belong to in the wallet selector first.');
+    }
+    return scopedWallets[0];
+  };
+
+  // Reloads UTXOs from the configured Core wallet, keeping annotations on coins still unspent.
+  // The first sync adds the Core wallet to the workspace; later syncs update it.
+  const syncFromBitcoinCore = useCallback(async (): Promise<WalletData> => {
+    const fresh = await loadWalletFromBitcoinCore(chainBackendConfig.bitcoinCore);
+    const existing = wallets.find(wallet => wallet.source?.type === 'bitcoin-core' && wallet.name === fresh.name);
+
+    if (existing) {
+      const utxos = mergeUtxoAnnotations(existing.utxos, fresh.utxos);
+      const merged: Wallet = {
+        ...existing,
+        ...fresh,
+        utxos,
+        sync: { status: 'synced', lastSyncedAt: new Date().toISOString() }
       };
-      
-      setWalletData(walletData);
+      replaceWallet(merged);
+      setSelectedUTXOs(prev => prev.filter(selected =>
+        selected.walletId !== existing.id ||
+        utxos.some(utxo => utxo.txid === selected.txid && utxo.vout === selected.vout && isHeldUtxo(utxo))
+      ));
+      return merged;
+    }
+
+    return importWallet(fresh);
+  }, [chainBackendConfig, wallets, importWallet, replaceWallet]);
+
+  // Accepts this app's JSON as well as Sparrow, Electrum, Specter and Coldcard exports.
+  // History-only exports label the loaded wallet's UTXOs instead of replacing the wallet.
+  const importFromJson = (content: string, fileName?: string): WalletExportImportSummary => {
+    const knownTags = tags.map(tag => tag.name);
+    let result: WalletExportResult;
+    try {
+      result = parseWalletExport(content, { fileName, knownTags });
     } catch (error) {
-      console.error('Failed to parse wallet JSON:', error);
-      throw new Error('Invalid wallet data format');
+      console.error('Failed to parse wallet export:', error);
+      throw error instanceof Error ? error : new Error('Invalid wallet data format');
+    }
+
+    const formatName = WALLET_EXPORT_FORMAT_NAMES[result.format];
+
+    if (!result.walletData) {
+      const target = getLabelTarget(`${formatName} files only contain labels. Import the wallet first, then this file to apply them.`);
+      const { utxos, labeledCount } = applyTransactionLabels(target.utxos, result.transactionLabels, knownTags);
+      replaceWallet({ ...target, utxos });
+      return { format: result.format, formatName, utxoCount: target.utxos.length, labeledCount };
+    }
+
+    const imported = importWallet(result.walletData);
+
+    // Chain data wins over what the file claims, when a backend is configured
+    syncWallets([imported]).catch(error => {
+      console.error('Failed to refresh imported UTXOs from chain:', error);
+    });
+
+    return {
+      format: result.format,
+      formatName,
+      utxoCount: imported.utxos.length,
+      labeledCount: imported.utxos.filter(utxo => utxo.notes || utxo.tags.length > 0).length
+    };
+  };
+
+  // Rows come pre-validated from the CSV wizard; tag names it introduces get tag definitions
+  const importFromCsv = (name: string, utxos: UTXO[]): WalletData => {
+    const knownTags = new Set(tags.map(tag => tag.name));
+    const newTagNames = [...new Set(utxos.flatMap(utxo => utxo.tags))].filter(tagName => !knownTags.has(tagName));
+    if (newTagNames.length > 0) {
+      setTags(prevTags => [
+        ...prevTags,
+        ...newTagNames.map((tagName, index) => ({ id: `${Date.now()}-${index}`, name: tagName, color: '#3b82f6' }))
+      ]);
+    }
+
+    const imported = importWallet(csvUtxosToWalletData(name, utxos));
+
+    syncWallets([imported]).catch(error => {
+      console.error('Failed to refresh imported UTXOs from chain:', error);
+    });
+    return imported;
+  };
+
+  // Labels from other wallets attach to the loaded wallet; unknown tag names become new tags
+  const importBip329Labels = (content: string): Bip329ImportSummary => {
+    const target = getLabelTarget('Import a wallet before importing its BIP329 labels');
+    const records = parseBip329(content);
+    const result = applyBip329Labels(target, records, tags.map(tag => tag.name));
+
+    const newTags = result.newTagNames.map((name, index) => ({
+      id: `${Date.now()}-${index}`,
+      name,
+      color: '#3b82f6'
+    }));
+    if (newTags.length > 0) {
+      setTags(prevTags => [...prevTags, ...newTags]);
     }
+    replaceWallet({ ...target, ...result.walletData });
+
+    return {
+      recordCount: records.length,
+      labeledCount: result.labeledCount,
+      unmatchedCount: result.unmatchedCount,
+      createdTags: result.newTagNames
+    };
+  };
+
+  // Parse errors are rethrown as-is so the import page can show what is wrong
+  const importFromDescriptor = (descriptor: string, options?: DescriptorImportOptions): WalletData =>
+    importWallet(descriptorToWalletData(descriptor, options));
+
+  const importFromXpub = async (xpub: string, options: XpubImportOptions): Promise<WalletData> => {
+    const { backend, scriptType, gapLimit = DEFAULT_GAP_LIMIT, name, onProgress } = options;
+    const descriptor = xpubToDescriptor(xpub, scriptType);
+    const parsed = parseDescriptor(descriptor);
+    const walletName = name || 'Watch-only xpub wallet';
+
+    const { addresses, utxos } = await discoverDescriptorWallet(parsed, backend, {
+      gapLimit,
+      walletName,
+      onProgress
+    });
+
+    const walletData: WalletData = {
+      name: walletName,
+      totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+      utxos,
+      watchOnly: true,
+      addresses,
+      source: {
+        type: 'xpub',
+        importedAt: new Date().toISOString(),
+        xpub: xpub.trim(),
+        descriptor,
+        network: parsed.network,
+        backend: backend.id,
+        gapLimit
+      }
+    };
+
+    return importWallet(walletData);
   };
 
   const addTag = (tag: Tag) => {
     setTags(prevTags => [...prevTags, tag]);
   };
 
-  const tagUTXO = (utxoId: string, tagId: string | null, tagNameToRemove?: string | null) => {
-    if (!walletData) return;
-    
+  // Wallet and position of every coin by outpoint, so edits touch exactly one output.
+  // A coin held by two wallets resolves to the one in scope.
+  const utxoLocations = useMemo(() => {
+    const locations = new Map<string, { wallet: Wallet; index: number }>();
+    [...scopedWallets, ...wallets].forEach(wallet => wallet.utxos.forEach((utxo, index) => {
+      const outpoint = getOutpoint(utxo);
+      if (!locations.has(outpoint)) locations.set(outpoint, { wallet, index });
+    }));
+    return locations;
+  }, [scopedWallets, wallets]);
+
+  const getUTXO = useCallback((outpoint: string): UTXO | undefined => {
+    const location = utxoLocations.get(outpoint);
+    return location && location.wallet.utxos[location.index];
+  }, [utxoLocations]);
+
+  // Journals a new edit and makes it the next to undo; anything undone before can no longer be redone
+  const recordEdit = useCallback((command: UTXOEditCommand, source: AuditSource = 'manual') => {
+    console.log(`WalletContext: ${command.label}`);
+    setEditHistory(prev => ({
+      past: [...prev.past, command].slice(-MAX_HISTORY),
+      future: []
+    }));
+    recordAudit(createAuditEntries(command, source));
+  }, [recordAudit]);
+
+  // Replaces the coin at an outpoint and records the edit for undo; unknown outpoints
+  // and edits that change nothing leave the wallet and the history untouched
+  const updateUTXO = useCallback((
+    outpoint: string,
+    kind: UTXOFieldEdit['kind'],
+    describe: (utxo: UTXO) => string,
+    update: (utxo: UTXO) => UTXO,
+    source: AuditSource = 'manual'
+  ) => {
+    const location = utxoLocations.get(outpoint);
+    if (!location) {
+      console.warn(`WalletContext: No UTXO at ${outpoint}`);
+      return;
+    }
+
+    const { wallet, index } = location;
+    const current = wallet.utxos[index];
+    const updated = update(current);
+    const command = createFieldEdit(kind, describe(current), wallet.id, index, current, updated);
+    if (!command) return;
+
+    const updatedUtxos = [...wallet.utxos];
+    updatedUtxos[index] = updated;
+    replaceWallet({
+      ...wallet,
+      utxos: updatedUtxos,
+      totalBalance: calculateBalance(updatedUtxos)
+    });
+    recordEdit(command, source);
+  }, [utxoLocations, replaceWallet, recordEdit]);
+
+  const undo = useCallback((): UTXOEditCommand | null => {
+    const command = editHistory.past[editHistory.past.length - 1];
+    const wallet = command && walletsById.get(command.walletId);
+    if (!command || !wallet) return null;
+
+    console.log(`WalletContext: Undo ${command.label}`);
+    const next = applyEditCommand(wallet, command, 'undo');
+    if (next !== wallet) {
+      replaceWallet(next);
+      recordAudit(createAuditEntries(command, 'manual', 'undo', `Undo: ${command.label}`));
+    }
+    setEditHistory(prev => ({
+      past: prev.past.slice(0, -1),
+      future: [...prev.future, command]
+    }));
+    return command;
+  }, [editHistory, walletsById, replaceWallet, recordAudit]);
+
+  const redo = useCallback((): UTXOEditCommand | null => {
+    const command = editHistory.future[editHistory.future.length - 1];
+    const wallet = command && walletsById.get(command.walletId);
+    if (!command || !wallet) return null;
+
+    console.log(`WalletContext: Redo ${command.label}`);
+    const next = applyEditCommand(wallet, command, 'redo');
+    if (next !== wallet) {
+      replaceWallet(next);
+      recordAudit(createAuditEntries(command, 'manual', 'apply', `Redo: ${command.label}`));
+    }
+    setEditHistory(prev => ({
+      past: [...prev.past, command],
+      future: prev.future.slice(0, -1)
+    }));
+    return command;
+  }, [editHistory, walletsById, replaceWallet, recordAudit]);
+
+  // Journal entries by outpoint, oldest first
+  const auditByOutpoint = useMemo(() => {
+    const byOutpoint = new Map<string, AuditEntry[]>();
+    auditLog.forEach(entry => {
+      const entries = byOutpoint.get(entry.outpoint);
+      if (entries) entries.push(entry);
+      else byOutpoint.set(entry.outpoint, [entry]);
+    });
+    return byOutpoint;
+  }, [auditLog]);
+
+  const getAuditTrail = useCallback(
+    (outpoint: string) => auditByOutpoint.get(outpoint) ?? [],
+    [auditByOutpoint]
+  );
+
+  const tagUTXO = (outpoint: string, tagId: string | null, tagNameToRemove?: string | null) => {
     if (!tagId && !tagNameToRemove) {
       console.log('No tag operation specified - both tagId and tagNameToRemove are null');
       return;
     }
     
-    const updatedUtxos = walletData.utxos.map(utxo => {
-      if (utxo.txid === utxoId) {
-        let newTags = [...utxo.tags];
-        
-        if (tagNameToRemove) {
-          console.log(`Removing tag "${tagNameToRemove}" from UTXO ${utxoId.substring(0, 8)}`);
-          newTags = newTags.filter(tag => tag !== tagNameToRemove);
-        }
-        
-        if (tagId) {
-          const tagToAdd = tags.find(t => t.id === tagId);
-          if (tagToAdd && !newTags.includes(tagToAdd.name)) {
-            console.log(`Adding tag "${tagToAdd.name}" to UTXO ${utxoId.substring(0, 8)}`);
-            newTags.push(tagToAdd.name);
-          }
-        }
-        
-        return {
-          ...utxo,
-          tags: newTags
-        };
+    const tagToAdd = tagId ? tags.find(t => t.id === tagId) : undefined;
+    const describe = (utxo: UTXO) => {
+      if (tagToAdd && tagNameToRemove) return `Replaced tag "${tagNameToRemove}" with "${tagToAdd.name}" on ${describeOutpoint(utxo)}`;
+      if (tagToAdd) return `Added tag "${tagToAdd.name}" to ${describeOutpoint(utxo)}`;
+      return `Removed tag "${tagNameToRemove}" from ${describeOutpoint(utxo)}`;
+    };
+
+    updateUTXO(outpoint, 'tag', describe, utxo => {
+      let newTags = [...utxo.tags];
+      
+      if (tagNameToRemove) {
+        console.log(`Removing tag "${tagNameToRemove}" from UTXO ${outpoint}`);
+        newTags = newTags.filter(tag => tag !== tagNameToRemove);
       }
-      return utxo;
-    });
-    
-    setWalletData({
-      ...walletData,
-      utxos: updatedUtxos
+      
+      if (tagToAdd && !newTags.includes(tagToAdd.name)) {
+        console.log(`Adding tag "${tagToAdd.name}" to UTXO ${outpoint}`);
+        newTags.push(tagToAdd.name);
+      }
+      
+      return {
+        ...utxo,
+        tags: newTags
+      };
     });
   };
 
-  const removeTagFromUTXO = (utxoId: string, tagId: string) => {
-    if (!walletData) return;
-    
+  const removeTagFromUTXO = (outpoint: string, tagId: string) => {
     const tagName = tags.find(t => t.id === tagId)?.name;
     if (!tagName) return;
     
-    console.log(`WalletContext: Removing tag ${tagName} from UTXO ${utxoId.substring(0, 6)}`);
-    
-    const utxoBeforeUpdate = walletData.utxos.find(utxo => utxo.txid === utxoId);
-    console.log(`UTXO before tag removal: ${utxoBeforeUpdate?.txid.substring(0, 6)}, Tags: ${utxoBeforeUpdate?.tags.join(', ')}`);
-    
-    const updatedUtxos = walletData.utxos.map(utxo => {
-      if (utxo.txid === utxoId) {
-        return {
-          ...utxo,
-          tags: utxo.tags.filter(t => t !== tagName)
-        };
-      }
-      return utxo;
-    });
-    
-    const updatedUtxo = updatedUtxos.find(utxo => utxo.txid === utxoId);
-    console.log(`UTXO after tag removal: ${updatedUtxo?.txid.substring(0, 6)}, Tags: ${updatedUtxo?.tags.join(', ')}`);
+    console.log(`WalletContext: Removing tag ${tagName} from UTXO ${outpoint}`);
     
-    setWalletData({
-      ...walletData,
-      utxos: updatedUtxos
-    });
+    updateUTXO(outpoint, 'tag', utxo => `Removed tag "${tagName}" from ${describeOutpoint(utxo)}`, utxo => ({
+      ...utxo,
+      tags: utxo.tags.filter(t => t !== tagName)
+    }));
   };
 
-  const deleteUTXO = useCallback((utxoId: string) => {
-    if (!walletData) return;
+  const deleteUTXO = useCallback((outpoint: string) => {
+    const location = utxoLocations.get(outpoint);
+    if (!location) return;
+    const { wallet, index } = location;
     
-    console.log(`WalletContext: Deleting UTXO ${utxoId.substring(0, 8)}`);
+    console.log(`WalletContext: Deleting UTXO ${outpoint}`);
     
     // Remove from selected UTXOs if present
     setSelectedUTXOs(prev => 
-      prev.filter(utxo => utxo.txid !== utxoId)
+      prev.filter(utxo => getOutpoint(utxo) !== outpoint)
     );
     
-    // Remove from wallet data
-    const updatedUtxos = walletData.utxos.filter(utxo => utxo.txid !== utxoId);
-    const newTotalBalance = updatedUtxos.reduce((sum, utxo) => sum + utxo.amount, 0);
+    // Remove from its wallet
+    const updatedUtxos = wallet.utxos.filter((_, i) => i !== index);
+    const newTotalBalance = calculateBalance(updatedUtxos);
     
-    setWalletData({
-      ...walletData,
+    replaceWallet({
+      ...wallet,
       utxos: updatedUtxos,
       totalBalance: newTotalBalance
     });
-  }, [walletData]);
+
+    const utxo = wallet.utxos[index];
+    recordEdit(createDeletion(`Deleted ${describeOutpoint(utxo)}`, wallet.id, index, utxo));
+  }, [utxoLocations, replaceWallet, recordEdit]);
 
   const selectUTXO = useCallback((utxo: UTXO) => {
     setSelectedUTXOs(prev => addUTXOToSelection(prev, utxo));
@@ -290,68 +918,74 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   };
 
   const updateUtxoCostBasis = (
-    utxoId: string, 
+    outpoint: string, 
     acquisitionDate: string | null, 
     acquisitionFiatValue: number | null,
     notes: string | null
   ) => {
-    if (!walletData) return;
-    
-    const updatedUtxos = walletData.utxos.map(utxo => {
-      if (utxo.txid === utxoId) {
-        // If we're updating the acquisition date, we should also try to get the BTC price
-        let btcPrice = utxo.acquisitionBtcPrice;
-        
-        // If acquisition date has changed or we don't have a BTC price yet, 
-        // make sure we update the price when we auto-populate next time
-        if (acquisitionDate !== utxo.acquisitionDate) {
-          btcPrice = null;
-        }
-        
-        return {
-          ...utxo,
-          acquisitionDate,
-          acquisitionFiatValue,
-          acquisitionBtcPrice: btcPrice,
-          costAutoPopulated: false,
-          notes: notes !== undefined ? notes : utxo.notes
-        };
+    // Editing only the notes is its own kind of change in the history
+    const current = getUTXO(outpoint);
+    const notesOnly = current !== undefined &&
+      acquisitionDate === current.acquisitionDate &&
+      acquisitionFiatValue === current.acquisitionFiatValue;
+    const describe = (utxo: UTXO) => notesOnly
+      ? `Edited notes on ${describeOutpoint(utxo)}`
+      : `Edited cost basis of ${describeOutpoint(utxo)}`;
+
+    updateUTXO(outpoint, notesOnly ? 'notes' : 'cost-basis', describe, utxo => {
+      // If we're updating the acquisition date, we should also try to get the BTC price
+      let btcPrice = utxo.acquisitionBtcPrice;
+      
+      // If acquisition date has changed or we don't have a BTC price yet, 
+      // make sure we update the price when we auto-populate next time
+      if (acquisitionDate !== utxo.acquisitionDate) {
+        btcPrice = null;
       }
-      return utxo;
-    });
-    
-    setWalletData({
-      ...walletData,
-      utxos: updatedUtxos
+      
+      return {
+        ...utxo,
+        acquisitionDate,
+        acquisitionFiatValue,
+        acquisitionBtcPrice: btcPrice,
+        costAutoPopulated: false,
+        notes: notes !== undefined ? notes : utxo.notes
+      };
     });
   };
   
-  const updateUtxoAddresses = useCallback((utxoId: string, senderAddress: string, receiverAddress: string) => {
-    if (!walletData) return;
-    
-    console.log(`WalletContext: Updating UTXO ${utxoId.substring(0, 8)} addresses:`, {sender: senderAddress, receiver: receiverAddress});
-    
-    const updatedUtxos = walletData.utxos.map(utxo => {
-      if (utxo.txid === utxoId) {
-        return {
-          ...utxo,
-          senderAddress,
-          receiverAddress
-        };
-      }
-      return utxo;
-    });
+  const updateUtxoAddresses = useCallback((outpoint: string, senderAddress: string, receiverAddress: string) => {
+    console.log(`WalletContext: Updating UTXO ${outpoint} addresses:`, {sender: senderAddress, receiver: receiverAddress});
     
-    setWalletData({
-      ...walletData,
-      utxos: updatedUtxos
-    });
-  }, [walletData]);
+    updateUTXO(outpoint, 'addresses', utxo => `Edited addresses of ${describeOutpoint(utxo)}`, utxo => ({
+      ...utxo,
+      senderAddress,
+      receiverAddress
+    }));
+  }, [updateUTXO]);
 
-  const autoPopulateUTXOCostBasis = async (utxoId: string): Promise<boolean> => {
-    if (!walletData) return false;
-    
-    const utxo = walletData.utxos.find(u => u.txid === utxoId);
+  // Spending, abandoning or restoring a coin; coins that leave the wallet also leave the simulation
+  const updateUtxoLifecycle = useCallback((outpoint: string, status: UTXOStatus, details?: LifecycleDetails) => {
+    const describe = (utxo: UTXO) => {
+      switch (status) {
+        case 'spent':
+          return `Marked ${describeOutpoint(utxo)} as spent`;
+        case 'pending-spend':
+          return `Marked ${describeOutpoint(utxo)} as pending spend`;
+        case 'abandoned':
+          return `Abandoned ${describeOutpoint(utxo)}`;
+        default:
+          return `Marked ${describeOutpoint(utxo)} as unspent`;
+      }
+    };
+
+    updateUTXO(outpoint, 'lifecycle', describe, utxo => applyUtxoLifecycle(utxo, status, details));
+    if (status === 'spent' || status === 'abandoned') {
+      setSelectedUTXOs(prev => prev.filter(utxo => getOutpoint(utxo) !== outpoint));
+    }
+  }, [updateUTXO]);
+
+  const autoPopulateUTXOCostBasis = async (outpoint: string): Promise<boolean> => {
+    const utxo = getUTXO(outpoint);
     if (!utxo) return false;
     
     try {
@@ -364,23 +998,13 @@ export function WalletProvider({ children }: { children: ReactNode }) {
       
       const fiatValue = historicalPrice * utxo.amount;
       
-      const updatedUtxos = walletData.utxos.map(u => {
-        if (u.txid === utxoId) {
-          return { 
-            ...u, 
-            acquisitionDate,
-            acquisitionFiatValue: fiatValue,
-            acquisitionBtcPrice: historicalPrice,
-            costAutoPopulated: true 
-          };
-        }
-        return u;
-      });
-      
-      setWalletData({
-        ...walletData,
-        utxos: updatedUtxos
-      });
+      updateUTXO(outpoint, 'cost-basis', u => `Filled in cost basis of ${describeOutpoint(u)} from historical price`, u => ({ 
+        ...u, 
+        acquisitionDate,
+        acquisitionFiatValue: fiatValue,
+        acquisitionBtcPrice: historicalPrice,
+        costAutoPopulated: true 
+      }), 'automatic');
       
       return true;
     } catch (error) {
@@ -574,11 +1198,27 @@ export function WalletProvider({ children }: { children: ReactNode }) {
 
   const contextValue = {
     walletData,
+    wallets,
+    scopedWallets,
+    spentUtxos,
+    chainTransactions,
+    clusters,
+    walletScope,
+    setWalletScope,
+    updateWalletInfo,
+    removeWallet,
+    addUTXO,
     tags,
     selectedUTXOs,
     importWallet,
+    importWallets,
     importFromJson,
+    importFromDescriptor,
+    importFromXpub,
+    importBip329Labels,
+    importFromCsv,
     addTag,
+    getUTXO,
     tagUTXO,
     removeTagFromUTXO,
     selectUTXO,
@@ -592,13 +1232,31 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     setPreselectedForSimulation,
     updateUtxoCostBasis,
     updateUtxoAddresses,
+    updateUtxoLifecycle,
     autoPopulateUTXOCostBasis,
     getPortfolioData,
     selectedCurrency,
     setSelectedCurrency,
-    deleteUTXO
+    deleteUTXO,
+    chainBackendConfig,
+    setChainBackendConfig,
+    getChainBackend,
+    refreshChainData,
+    syncFromBitcoinCore,
+    clearSavedWorkspace,
+    restoreWorkspace,
+    editHistory,
+    canUndo: editHistory.past.length > 0,
+    canRedo: editHistory.future.length > 0,
+    undo,
+    redo,
+    auditLog,
+    getAuditTrail
   };
 
+  // Pages redirect when no wallet is loaded, so wait for the saved one before rendering them
+  if (!isHydrated) return null;
+
   return (
     <WalletContext.Provider value={contextValue}>
       {children}
@@ -0,0 +1,52 @@
+import { Tag, WalletData } from "./utxo";
+import { AuditEntry } from "./history";
+import { ChainBackendConfig } from "./chain";
+import { TaxConfig } from "./tax";
+
+// Historical BTC prices keyed by "<currency>:<yyyy-MM-dd>"
+export type PriceCache = Record<string, number>;
+
+// Everything a backup can restore, as the app holds it
+export interface WorkspaceSnapshot {
+  wallets: WalletData[];
+  tags: Tag[];
+  selectedCurrency: string;
+  chainBackendConfig: ChainBackendConfig | null; // Never includes the Bitcoin Core RPC password
+  taxJurisdictionId: string | null;
+  taxOverrides: Partial<TaxConfig>;
+  simulationOutpoints: string[]; // Coins selected in the risk simulator
+  priceCache: PriceCache;
+  auditLog: AuditEntry[];
+}
+
+export interface WorkspaceBackup extends WorkspaceSnapshot {
+  format: 'utxo-intelligence-backup';
+  version: number;
+  createdAt: string;
+}
+
+// Merge keeps current settings and adds what the backup has; replace restores the backup exactly
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export interface WalletDiff {
+  name: string;
+  status: 'added' | 'updated' | 'removed' | 'unchanged';
+  addedUtxos: number;
+  updatedUtxos: number;
+  removedUtxos: number;
+}
+
+export interface SettingChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface WorkspaceDiff {
+  wallets: WalletDiff[];
+  addedTags: string[];
+  removedTags: string[];
+  settings: SettingChange[];
+  auditEntries: { added: number; removed: number };
+  priceCacheEntries: { added: number; removed: number };
+}
@@ -0,0 +1,65 @@
+export type BitcoinNetwork = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+export type ScriptType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr';
+
+// Address script types plus the output templates that have no address
+export type OutputScriptType = ScriptType | 'p2pk' | 'multisig' | 'op_return' | 'nonstandard';
+
+// Top-level descriptor forms we know how to turn into addresses
+export type DescriptorType =
+  | 'pkh'
+  | 'wpkh'
+  | 'sh-wpkh'
+  | 'tr'
+  | 'sh-multi'
+  | 'wsh-multi'
+  | 'sh-wsh-multi';
+
+export interface DescriptorKeyOrigin {
+  fingerprint: string; // 8 hex chars
+  path: string; // e.g. "m/84'/0'/0'"
+}
+
+export interface DescriptorKey {
+  raw: string; // The key expression exactly as written in the descriptor
+  origin: DescriptorKeyOrigin | null;
+  key: string; // xpub/tpub or hex public key
+  isExtended: boolean;
+  // Unhardened steps applied after the extended key, excluding the wildcard.
+  // A step of -1 marks a BIP389 multipath placeholder (<0;1>).
+  steps: number[];
+  multipath: number[] | null; // e.g. [0, 1] for <0;1>
+  wildcard: boolean;
+}
+
+export interface ParsedDescriptor {
+  descriptor: string; // Descriptor without checksum
+  checksum: string;
+  type: DescriptorType;
+  scriptType: ScriptType;
+  network: BitcoinNetwork;
+  keys: DescriptorKey[];
+  threshold: number | null; // Only for multisig
+  sorted: boolean; // sortedmulti vs multi
+  isRanged: boolean;
+}
+
+export interface DerivedAddress {
+  address: string;
+  scriptPubKey: string; // hex
+  chain: 0 | 1; // 0 = receive, 1 = change
+  index: number;
+  used?: boolean; // Set once the address has been checked against a chain backend
+}
+
+// BIP329 label record types
+export type Bip329Type = 'tx' | 'addr' | 'pubkey' | 'input' | 'output' | 'xpub';
+
+export interface Bip329Record {
+  type: Bip329Type;
+  ref: string; // txid, address, pubkey, txid:vout or xpub depending on type
+  label?: string;
+  origin?: string; // Abbreviated descriptor of the wallet the record came from
+  spendable?: boolean; // Output records only
+  tags?: string[]; // Extension field for this app's tags; other wallets ignore it
+}
@@ -0,0 +1,80 @@
+import { BitcoinNetwork } from "./bitcoin";
+
+export interface ChainTxStatus {
+  confirmed: boolean;
+  blockHeight: number | null;
+  blockTime: number | null; // Unix timestamp in seconds
+}
+
+export interface ChainUtxo {
+  txid: string;
+  vout: number;
+  value: number; // In satoshis
+  address: string;
+  status: ChainTxStatus;
+}
+
+export interface ChainTxInput {
+  txid: string; // Previous output being spent
+  vout: number;
+  address: string | null;
+  value: number | null; // In satoshis, when the backend knows the prevout
+}
+
+export interface ChainTxOutput {
+  address: string | null;
+  value: number; // In satoshis
+  scriptPubKey: string; // hex
+}
+
+export interface ChainTransaction {
+  txid: string;
+  inputs: ChainTxInput[];
+  outputs: ChainTxOutput[];
+  fee: number | null; // In satoshis
+  status: ChainTxStatus;
+}
+
+export interface ChainOutspend {
+  spent: boolean | null; // Null when the backend can't tell, e.g. for an output it doesn't know
+  txid: string | null; // Spending transaction, when the backend can tell
+  status: ChainTxStatus | null; // Of the spending transaction
+}
+
+/**
+ * Minimal interface every chain data source (offline, Esplora, Core, Electrum) implements
+ * so wallet discovery and refresh don't care where the data comes from.
+ */
+export interface ChainBackend {
+  id: string;
+  name: string;
+  getTipHeight: () => Promise<number>;
+  getAddressTxCount: (address: string) => Promise<number>;
+  getAddressUtxos: (address: string) => Promise<ChainUtxo[]>;
+  getTransaction: (txid: string) => Promise<ChainTransaction>;
+  getTransactionHex?: (txid: string) => Promise<string>; // Serialized transaction, where the backend can serve it
+  getOutspend?: (txid: string, vout: number) => Promise<ChainOutspend>; // Whether an output is spent, where the backend can tell
+}
+
+export interface BitcoinCoreRpcConfig {
+  url: string; // e.g. http://127.0.0.1:8332, usually behind a CORS-enabled proxy
+  username: string;
+  password: string;
+  wallet: string; // Loaded wallet name, empty for the default wallet
+}
+
+export type ChainBackendType = 'none' | 'esplora' | 'electrum' | 'bitcoin-core';
+
+export interface ChainBackendConfig {
+  type: ChainBackendType;
+  esploraUrl: string;
+  electrumUrl: string; // WebSocket endpoint, e.g. ws://127.0.0.1:50003
+  electrumNetwork: BitcoinNetwork; // The chain the Electrum server follows, for script hashes and addresses
+  bitcoinCore: BitcoinCoreRpcConfig;
+}
+
+export interface DiscoveryProgress {
+  chain: 0 | 1;
+  index: number;
+  usedCount: number;
+}
@@ -0,0 +1,35 @@
+// Standard heuristics a chain observer uses to tell a transaction's change from its payments
+export type ChangeHeuristic =
+  | 'address-reuse' // Pays an address that is also an input
+  | 'script-type' // The only output of the inputs' script type
+  | 'round-amount' // The one unround amount next to round payments
+  | 'unnecessary-input' // Smaller than an input, or payable without one: not what the inputs were gathered for
+  | 'output-order' // Last of unsorted outputs, where many wallets put change
+  | 'value-fingerprint'; // Far more precise than the other outputs, like a computed leftover
+
+export interface ChangeSignal {
+  heuristic: ChangeHeuristic;
+  weight: number; // 0 to 1, how much an observer trusts this heuristic on its own
+  detail: string;
+}
+
+export interface OutputChangeScore {
+  index: number; // Output index
+  confidence: number; // 0 to 1 that an observer takes this output for change
+  signals: ChangeSignal[];
+}
+
+export interface ChangeAnalysis {
+  outputs: OutputChangeScore[]; // One per transaction output, in order
+  likelyChange: number | null; // Output an observer would pick as change, when one stands out
+}
+
+// The change output of a simulated or loaded transaction, as an observer would see it
+export interface SimulatedChange {
+  index: number; // Our change output
+  amount: number; // In BTC
+  confidence: number; // 0 to 1 that an observer takes it for change
+  identified: boolean; // An observer would pick this output as the change
+  observerPick: number | null; // The output an observer would pick as change, or null when none stands out
+  signals: ChangeSignal[];
+}
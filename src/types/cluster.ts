@@ -0,0 +1,20 @@
+// Heuristics an outside observer can run on public transaction data to tie addresses to one owner
+export type ClusterHeuristic =
+  | 'common-input' // Spent together as inputs of one transaction
+  | 'change-output'; // The change output goes back to whoever owned the inputs
+
+export interface ClusterLink {
+  txid: string;
+  heuristic: ClusterHeuristic;
+  addresses: string[]; // Tied together by this transaction
+  confidence?: number; // For change links, how sure an observer is of the change
+}
+
+export interface AddressCluster {
+  id: string;
+  label: string; // "Cluster 1" when it holds wallet addresses, "Counterparty 1" otherwise
+  addresses: string[];
+  isOwn: boolean; // Holds at least one wallet address
+  outpoints: string[]; // Wallet coins at its addresses, which an observer can link to each other
+  links: ClusterLink[];
+}
@@ -0,0 +1,12 @@
+// Coinjoin implementations recognizable from a transaction's shape alone
+export type CoinjoinProtocol =
+  | 'whirlpool' // Samourai/Sparrow: 5 inputs, 5 outputs of one pool denomination
+  | 'wabisabi' // Wasabi 2: many inputs, several standard denominations
+  | 'joinmarket' // One equal-output group of 3 or more, with a change output for nearly every participant
+  | 'generic'; // Any other transaction where equal outputs of 3 or more participants make up most outputs
+
+export interface CoinjoinDetection {
+  protocol: CoinjoinProtocol;
+  denominations: number[]; // Output values, in satoshis, that two or more outputs share, largest first
+  anonsets: number[]; // Per output: how many outputs share its value, 1 for change
+}
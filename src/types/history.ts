@@ -0,0 +1,45 @@
+import { UTXO } from "./utxo";
+
+export type UTXOEditKind = 'tag' | 'cost-basis' | 'addresses' | 'notes' | 'lifecycle' | 'delete';
+
+interface UTXOEditBase {
+  id: string;
+  label: string; // Human readable, e.g. 'Added tag "Exchange" to 3f2a...9c1b:0'
+  walletId: string; // Workspace wallet holding the coin
+  outpoint: string;
+  index: number; // Position of the coin in its wallet when the edit was made
+  timestamp: string;
+}
+
+// Field edits keep only the fields that changed, so undo doesn't roll back a chain refresh in between
+export interface UTXOFieldEdit extends UTXOEditBase {
+  kind: Exclude<UTXOEditKind, 'delete'>;
+  before: Partial<UTXO>;
+  after: Partial<UTXO>;
+}
+
+export interface UTXODeletion extends UTXOEditBase {
+  kind: 'delete';
+  utxo: UTXO;
+}
+
+export type UTXOEditCommand = UTXOFieldEdit | UTXODeletion;
+
+export interface EditHistory {
+  past: UTXOEditCommand[]; // Oldest first; the last entry is the next to undo
+  future: UTXOEditCommand[]; // Undone commands; the last entry is the next to redo
+}
+
+// Automatic changes come from the app itself: price lookups, chain refreshes
+export type AuditSource = 'manual' | 'automatic';
+
+// One field of one coin changing. The journal only ever grows.
+export interface AuditEntry {
+  outpoint: string;
+  field: string; // A UTXO field, or "deleted" when the coin was removed or restored
+  oldValue: unknown;
+  newValue: unknown;
+  timestamp: string;
+  source: AuditSource;
+  reason: string; // What caused the change, e.g. 'Edited cost basis of 3f2a...9c1b:0'
+}
@@ -0,0 +1,22 @@
+// Concrete signals the risk engine looks for on each coin
+export type RiskSignal =
+  | 'address-reuse'
+  | 'round-amount'
+  | 'kyc-source'
+  | 'unmixed-change'
+  | 'script-mismatch'
+  | 'dust'
+  | 'linked-coins';
+
+export interface RiskFactor {
+  signal: RiskSignal;
+  points: number; // Added to the coin's score
+  detail: string; // Why it applies to this coin, e.g. "Address shared with 2 other coins"
+  remedy: string; // What the user can do about it, e.g. "Coinjoin this before spending it"
+}
+
+export interface RiskAssessment {
+  score: number; // 0 (nothing links the coin to anything) to 100
+  level: 'low' | 'medium' | 'high';
+  factors: RiskFactor[];
+}
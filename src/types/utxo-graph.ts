@@ -24,6 +24,7 @@ export interface GraphLink {
   target: string | GraphNode;
   value: number;
   isChangeOutput?: boolean;
+  changeConfidence?: number; // 0 to 1 that an observer takes the output for change, when its transaction is known
   riskLevel?: "low" | "medium" | "high";
   path?: string; // SVG path for curved edges
 }
@@ -40,7 +41,7 @@ export type UTXOViewType = "table" | "visual" | "map" | "timeline" | "treemap";
 export type NodeSelectionCallback = (nodeId: string, nodeType: "utxo" | "transaction" | "address", data: any) => void;
 
 // Define grouping options for treemap
-export type TreemapGroupingOption = "risk" | "wallet" | "tag" | "none";
+export type TreemapGroupingOption = "risk" | "wallet" | "tag" | "cluster" | "none";
 
 // Define filtering options
 export interface UTXOFiltersState {
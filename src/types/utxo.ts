@@ -1,3 +1,8 @@
+import { Bip329Record, BitcoinNetwork, DerivedAddress, OutputScriptType } from "./bitcoin";
+import { RiskFactor } from "./risk";
+import { SimulatedChange } from "./change";
+import { CoinjoinProtocol } from "./coinjoin";
+
 export interface UTXO {
   txid: string;
   vout: number;
@@ -5,9 +10,13 @@ export interface UTXO {
   amount: number; // In BTC
   confirmations: number;
   scriptPubKey: string;
+  scriptType?: OutputScriptType; // Parsed from scriptPubKey, or from the address when no script is known
+  scriptMismatch?: boolean; // The address doesn't encode scriptPubKey
   tags: string[];
   createdAt: string; // ISO date string
-  privacyRisk: 'low' | 'medium' | 'high';
+  privacyRisk: 'low' | 'medium' | 'high'; // Derived from riskScore by the risk engine
+  riskScore?: number; // 0-100, scored from the coin and the rest of its wallet
+  riskFactors?: RiskFactor[]; // What contributed to riskScore
   acquisitionDate: string | null;
   acquisitionFiatValue: number | null;
   acquisitionBtcPrice: number | null; // Added field for BTC price at acquisition
@@ -18,16 +27,74 @@ export interface UTXO {
   notes: string | null;
   senderAddress: string | null;
   receiverAddress: string | null;
+  walletId?: string; // Id of the workspace wallet holding this UTXO
   walletName?: string; // Which wallet this UTXO belongs to
   fee?: number; // Fee in BTC
+  status?: UTXOStatus; // Missing on coins saved before spends were tracked, which counts as unspent
+  spend?: UTXOSpend | null; // Set once the coin is spent or a spend is pending
+  coinjoin?: CoinjoinProtocol | null; // Detected from the creating transaction, null when it isn't a coinjoin
+  anonset?: number; // Outputs of the creating coinjoin that share this coin's value, 1 for its change
+}
+
+// Spent and abandoned coins stay in their wallet for tax and ancestry analysis, but no longer count as holdings.
+// Abandoned coins are ones the user gave up on, e.g. dust not worth spending or coins whose keys are lost.
+export type UTXOStatus = 'unspent' | 'pending-spend' | 'spent' | 'abandoned';
+
+export interface UTXOSpend {
+  txid: string | null; // Spending transaction; null when a wallet backend only reported the coin gone
+  date: string | null; // ISO date string of the spending block, null while unconfirmed
+  feeShare: number | null; // In BTC: this coin's part of the spending transaction's fee, by input value
+}
+
+// Files exported by other wallets that the import page understands
+export type WalletExportFormat =
+  | 'utxo-intelligence'
+  | 'sparrow-utxos-csv'
+  | 'sparrow-transactions-csv'
+  | 'sparrow-json'
+  | 'electrum-history-csv'
+  | 'electrum-history-json'
+  | 'specter-json'
+  | 'coldcard-json';
+
+export interface WalletSource {
+  type: 'json' | 'csv' | 'descriptor' | 'xpub' | 'bitcoin-core' | 'wallet-export' | 'psbt' | 'demo';
+  importedAt: string; // ISO date string
+  descriptor?: string; // Normalized descriptor with checksum
+  xpub?: string; // Extended public key as entered by the user
+  network?: BitcoinNetwork;
+  backend?: string; // Chain backend id used for discovery
+  gapLimit?: number;
+  exportFormat?: WalletExportFormat; // Set when type is 'wallet-export'
 }
 
 export interface WalletData {
   name: string;
   totalBalance: number; // In BTC
   utxos: UTXO[];
+  source?: WalletSource; // Where this wallet was imported from
+  watchOnly?: boolean;
+  addresses?: DerivedAddress[]; // Addresses derived from a descriptor or xpub
+  externalLabels?: Bip329Record[]; // Imported BIP329 records with no matching UTXO, kept for re-export
 }
 
+export interface WalletSyncState {
+  status: 'idle' | 'syncing' | 'synced' | 'error';
+  lastSyncedAt: string | null; // ISO date string
+  error?: string;
+}
+
+// A wallet in the workspace. Its coins carry its id and name, so views mixing wallets can tell them apart.
+export interface Wallet extends WalletData {
+  id: string;
+  color: string;
+  network: BitcoinNetwork;
+  sync: WalletSyncState;
+}
+
+// Which wallets the pages show: all of them, or the listed ids
+export type WalletScope = 'all' | string[];
+
 export interface Tag {
   id: string;
   name: string;
@@ -53,6 +120,7 @@ export interface SimulationResult {
   reasons: string[];
   recommendations: string[];
   safeAlternative?: string | null;
+  change?: SimulatedChange | null; // Our change output, null when the transaction has none
 }
 
 export interface Report {
@@ -0,0 +1,240 @@
+import { bech32, bech32m, createBase58check } from "@scure/base";
+import { sha256 } from "@noble/hashes/sha2";
+import { ripemd160 } from "@noble/hashes/legacy";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { BitcoinNetwork, ScriptType } from "@/types/bitcoin";
+
+export const base58check = createBase58check(sha256);
+
+// Per-network address prefixes. Testnet, signet and regtest share base58 versions.
+const NETWORK_PARAMS: Record<BitcoinNetwork, { bech32: string; pubKeyHash: number; scriptHash: number }> = {
+  mainnet: { bech32: 'bc', pubKeyHash: 0x00, scriptHash: 0x05 },
+  testnet: { bech32: 'tb', pubKeyHash: 0x6f, scriptHash: 0xc4 },
+  signet: { bech32: 'tb', pubKeyHash: 0x6f, scriptHash: 0xc4 },
+  regtest: { bech32: 'bcrt', pubKeyHash: 0x6f, scriptHash: 0xc4 },
+};
+
+export const getNetworkParams = (network: BitcoinNetwork) => NETWORK_PARAMS[network];
+
+// RIPEMD160(SHA256(data)), used for P2PKH and P2SH commitments
+export const hash160 = (data: Uint8Array): Uint8Array => ripemd160(sha256(data));
+
+export { bytesToHex, hexToBytes };
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+// Encode a base58check address from a version byte and a 20-byte hash
+const encodeBase58Address = (version: number, hash: Uint8Array): string => {
+  return base58check.encode(concatBytes(new Uint8Array([version]), hash));
+};
+
+// Encode a segwit address (BIP173 for v0, BIP350 for v1+)
+export const encodeSegwitAddress = (
+  witnessVersion: number,
+  program: Uint8Array,
+  network: BitcoinNetwork = 'mainnet'
+): string => {
+  const { bech32: hrp } = NETWORK_PARAMS[network];
+  const words = [witnessVersion, ...bech32.toWords(program)];
+  return witnessVersion === 0
+    ? bech32.encode(hrp, words)
+    : bech32m.encode(hrp, words);
+};
+
+// Build the scriptPubKey for a given script type and its hash/program
+export const buildScriptPubKey = (scriptType: ScriptType, program: Uint8Array): Uint8Array => {
+  switch (scriptType) {
+    case 'p2pkh':
+      // OP_DUP OP_HASH160 <20> OP_EQUALVERIFY OP_CHECKSIG
+      return concatBytes(new Uint8Array([0x76, 0xa9, 0x14]), program, new Uint8Array([0x88, 0xac]));
+    case 'p2sh':
+      // OP_HASH160 <20> OP_EQUAL
+      return concatBytes(new Uint8Array([0xa9, 0x14]), program, new Uint8Array([0x87]));
+    case 'p2wpkh':
+    case 'p2wsh':
+      return concatBytes(new Uint8Array([0x00, program.length]), program);
+    case 'p2tr':
+      return concatBytes(new Uint8Array([0x51, 0x20]), program);
+  }
+};
+
+// Encode the address for a given script type and its hash/program
+export const encodeAddress = (
+  scriptType: ScriptType,
+  program: Uint8Array,
+  network: BitcoinNetwork = 'mainnet'
+): string => {
+  const params = NETWORK_PARAMS[network];
+  switch (scriptType) {
+    case 'p2pkh':
+      return encodeBase58Address(params.pubKeyHash, program);
+    case 'p2sh':
+      return encodeBase58Address(params.scriptHash, program);
+    case 'p2wpkh':
+    case 'p2wsh':
+      return encodeSegwitAddress(0, program, network);
+    case 'p2tr':
+      return encodeSegwitAddress(1, program, network);
+  }
+};
+
+export interface DecodedAddress {
+  scriptType: ScriptType;
+  program: Uint8Array; // Hash or witness program
+  network: BitcoinNetwork;
+}
+
+const HRP_NETWORKS: Record<string, BitcoinNetwork> = {
+  bc: 'mainnet',
+  tb: 'testnet',
+  bcrt: 'regtest',
+};
+
+const decodeSegwitAddress = (address: string): DecodedAddress => {
+  // v0 programs use bech32 (BIP173), v1+ use bech32m (BIP350)
+  const bech32Result = bech32.decodeUnsafe(address);
+  const bech32mResult = bech32Result ? undefined : bech32m.decodeUnsafe(address);
+  const decoded = bech32Result || bech32mResult;
+  if (!decoded) throw new Error('Invalid bech32 checksum');
+
+  const isBech32m = !!bech32mResult;
+  const { prefix, words } = decoded;
+
+  const network = HRP_NETWORKS[prefix.toLowerCase()];
+  if (!network) throw new Error(`Unknown address prefix "${prefix}"`);
+
+  const [version, ...programWords] = words;
+  const program = bech32.fromWords(programWords);
+
+  if (version === 0 && !isBech32m) {
+    if (program.length === 20) return { scriptType: 'p2wpkh', program, network };
+    if (program.length === 32) return { scriptType: 'p2wsh', program, network };
+  }
+  if (version === 1 && isBech32m && program.length === 32) {
+    return { scriptType: 'p2tr', program, network };
+  }
+  throw new Error('Unsupported segwit version or program length');
+};
+
+/**
+ * Decodes a base58check or bech32/bech32m address into its script type and program.
+ * Throws on anything that isn't a valid address.
+ */
+export const decodeAddress = (address: string): DecodedAddress => {
+  const trimmed = address.trim();
+
+  if (/^(bc|tb|bcrt)1/i.test(trimmed)) {
+    return decodeSegwitAddress(trimmed);
+  }
+
+  let payload: Uint8Array;
+  try {
+    payload = base58check.decode(trimmed);
+  } catch {
+    throw new Error('Not a valid base58 or bech32 address');
+  }
+  if (payload.length !== 21) throw new Error('Invalid base58 address length');
+
+  const [version] = payload;
+  const program = payload.slice(1);
+  switch (version) {
+    case 0x00: return { scriptType: 'p2pkh', program, network: 'mainnet' };
+    case 0x05: return { scriptType: 'p2sh', program, network: 'mainnet' };
+    case 0x6f: return { scriptType: 'p2pkh', program, network: 'testnet' };
+    case 0xc4: return { scriptType: 'p2sh', program, network: 'testnet' };
+    default: throw new Error(`Unknown address version byte 0x${version.toString(16)}`);
+  }
+};
+
+export interface AddressValidation {
+  valid: boolean;
+  error: string | null;
+  scriptType: ScriptType | null;
+  networks: BitcoinNetwork[]; // Every network the address could belong to, prefixes are shared
+}
+
+/**
+ * Checks an address typed in by the user. Unlike decodeAddress it never throws and,
+ * when a network is given, rejects addresses from other networks.
+ */
+export const validateAddress = (address: string, network?: BitcoinNetwork): AddressValidation => {
+  const trimmed = address.trim();
+  if (!trimmed) {
+    return { valid: false, error: 'Address is required', scriptType: null, networks: [] };
+  }
+
+  let decoded: DecodedAddress;
+  try {
+    decoded = decodeAddress(trimmed);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Invalid address';
+    return { valid: false, error: reason, scriptType: null, networks: [] };
+  }
+
+  // Testnet and signet share the tb prefix, and regtest also shares their base58 versions
+  const isSegwit = /^(bc|tb|bcrt)1/i.test(trimmed);
+  const networks: BitcoinNetwork[] = decoded.network === 'mainnet' ? ['mainnet']
+    : decoded.network === 'regtest' ? ['regtest']
+    : isSegwit ? ['testnet', 'signet']
+    : ['testnet', 'signet', 'regtest'];
+
+  if (network && !networks.includes(network)) {
+    return {
+      valid: false,
+      error: `This is a ${networks.join('/')} address, expected ${network}`,
+      scriptType: decoded.scriptType,
+      networks,
+    };
+  }
+
+  return { valid: true, error: null, scriptType: decoded.scriptType, networks };
+};
+
+export const isValidAddress = (address: string, network?: BitcoinNetwork): boolean =>
+  validateAddress(address, network).valid;
+
+export const addressToScriptPubKey = (address: string): string => {
+  const { scriptType, program } = decodeAddress(address);
+  return bytesToHex(buildScriptPubKey(scriptType, program));
+};
+
+/**
+ * Recognizes the standard output script templates and returns their address.
+ * Returns null for non-standard scripts (bare multisig, OP_RETURN, ...).
+ */
+export const scriptPubKeyToAddress = (
+  scriptHex: string,
+  network: BitcoinNetwork = 'mainnet'
+): { scriptType: ScriptType; address: string } | null => {
+  const script = hexToBytes(scriptHex);
+  let scriptType: ScriptType | null = null;
+  let program: Uint8Array | null = null;
+
+  if (script.length === 25 && script[0] === 0x76 && script[1] === 0xa9 && script[2] === 0x14 && script[23] === 0x88 && script[24] === 0xac) {
+    scriptType = 'p2pkh';
+    program = script.slice(3, 23);
+  } else if (script.length === 23 && script[0] === 0xa9 && script[1] === 0x14 && script[22] === 0x87) {
+    scriptType = 'p2sh';
+    program = script.slice(2, 22);
+  } else if (script.length === 22 && script[0] === 0x00 && script[1] === 0x14) {
+    scriptType = 'p2wpkh';
+    program = script.slice(2);
+  } else if (script.length === 34 && script[0] === 0x00 && script[1] === 0x20) {
+    scriptType = 'p2wsh';
+    program = script.slice(2);
+  } else if (script.length === 34 && script[0] === 0x51 && script[1] === 0x20) {
+    scriptType = 'p2tr';
+    program = script.slice(2);
+  }
+
+  if (!scriptType || !program) return null;
+  return { scriptType, address: encodeAddress(scriptType, program, network) };
+};
@@ -0,0 +1,293 @@
+import { Tag, UTXO, WalletData } from "@/types/utxo";
+import { AuditEntry } from "@/types/history";
+import {
+  BackupRestoreMode,
+  SettingChange,
+  WalletDiff,
+  WorkspaceBackup,
+  WorkspaceDiff,
+  WorkspaceSnapshot
+} from "@/types/backup";
+import { getOutpoint } from "@/utils/utxo-utils";
+import { calculateBalance, isHeldUtxo } from "@/utils/lifecycle-utils";
+
+export const BACKUP_FORMAT = 'utxo-intelligence-backup';
+
+// Bump when the file layout changes, and teach parseWorkspaceBackup to read the older versions
+export const BACKUP_VERSION = 1;
+
+// Fields a person sets on a coin; everything else comes from the chain or the wallet import
+const ANNOTATION_FIELDS = [
+  'tags',
+  'notes',
+  'acquisitionDate',
+  'acquisitionFiatValue',
+  'acquisitionBtcPrice',
+  'costAutoPopulated',
+  'disposalDate',
+  'disposalFiatValue',
+  'realizedGainFiat',
+  'status',
+  'spend',
+  'senderAddress',
+  'receiverAddress',
+] as const satisfies readonly (keyof UTXO)[];
+
+// Annotations that move a coin along its lifecycle; a spend is never undone by merging an older backup
+const LIFECYCLE_FIELDS = new Set<keyof UTXO>(['status', 'spend', 'disposalDate', 'disposalFiatValue', 'realizedGainFiat']);
+
+export const createWorkspaceBackup = (snapshot: WorkspaceSnapshot): WorkspaceBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: new Date().toISOString(),
+  ...snapshot,
+  chainBackendConfig: snapshot.chainBackendConfig && {
+    ...snapshot.chainBackendConfig,
+    bitcoinCore: { ...snapshot.chainBackendConfig.bitcoinCore, password: '' }
+  },
+});
+
+export const createDownloadableBackup = (backup: WorkspaceBackup): string => {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  return URL.createObjectURL(blob);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isNullable = (value: unknown, type: 'string' | 'number') => value === null || typeof value === type;
+
+const validateUtxo = (utxo: unknown, where: string): UTXO => {
+  if (!isObject(utxo)) throw new Error(`${where} is not an object`);
+  // Demo coins carry txids that aren't 64 hex characters, so only presence is checked
+  if (typeof utxo.txid !== 'string' || !utxo.txid) throw new Error(`${where} has no txid`);
+  if (!Number.isInteger(utxo.vout) || (utxo.vout as number) < 0) throw new Error(`${where} has an invalid vout`);
+  if (typeof utxo.amount !== 'number' || utxo.amount < 0) throw new Error(`${where} has an invalid amount`);
+  if (typeof utxo.address !== 'string') throw new Error(`${where} has no address`);
+  if (!isStringArray(utxo.tags)) throw new Error(`${where} has invalid tags`);
+  if (!isNullable(utxo.notes, 'string')) throw new Error(`${where} has invalid notes`);
+  if (!isNullable(utxo.acquisitionFiatValue, 'number') || !isNullable(utxo.acquisitionBtcPrice, 'number')) {
+    throw new Error(`${where} has an invalid cost basis`);
+  }
+  return utxo as unknown as UTXO;
+};
+
+const validateWallet = (wallet: unknown, index: number): WalletData => {
+  const where = `Wallet ${index + 1}`;
+  if (!isObject(wallet) || typeof wallet.name !== 'string' || !wallet.name) throw new Error(`${where} has no name`);
+  if (!Array.isArray(wallet.utxos)) throw new Error(`Wallet "${wallet.name}" has no UTXO list`);
+  const utxos = wallet.utxos.map((utxo, utxoIndex) => validateUtxo(utxo, `UTXO ${utxoIndex + 1} of "${wallet.name}"`));
+  return { ...(wallet as unknown as WalletData), utxos };
+};
+
+const validateTag = (tag: unknown, index: number): Tag => {
+  if (!isObject(tag) || typeof tag.id !== 'string' || typeof tag.name !== 'string' || typeof tag.color !== 'string') {
+    throw new Error(`Tag ${index + 1} is invalid`);
+  }
+  return { id: tag.id, name: tag.name, color: tag.color };
+};
+
+const validateAuditEntry = (entry: unknown, index: number): AuditEntry => {
+  if (
+    !isObject(entry) ||
+    typeof entry.outpoint !== 'string' ||
+    typeof entry.field !== 'string' ||
+    typeof entry.timestamp !== 'string' ||
+    (entry.source !== 'manual' && entry.source !== 'automatic')
+  ) {
+    throw new Error(`Audit entry ${index + 1} is invalid`);
+  }
+  return entry as unknown as AuditEntry;
+};
+
+/**
+ * Parses and validates a backup file. Errors name the part of the file that is wrong,
+ * so nothing is restored from a file that was truncated or edited by hand.
+ */
+export const parseWorkspaceBackup = (content: string): WorkspaceBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('The backup file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error('This is not a UTXO Intelligence backup file');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${String(data.version)} is not supported. Update the app to restore it.`);
+  }
+  if (!Array.isArray(data.wallets)) throw new Error('The backup has no wallet list');
+  if (!Array.isArray(data.tags)) throw new Error('The backup has no tag list');
+  if (typeof data.selectedCurrency !== 'string') throw new Error('The backup has no currency preference');
+  if (!isNullable(data.taxJurisdictionId, 'string')) throw new Error('The backup has an invalid tax jurisdiction');
+  if (!isObject(data.taxOverrides)) throw new Error('The backup has invalid tax overrides');
+  if (!isStringArray(data.simulationOutpoints)) throw new Error('The backup has an invalid simulation selection');
+  if (data.chainBackendConfig !== null && !isObject(data.chainBackendConfig)) {
+    throw new Error('The backup has invalid backend settings');
+  }
+  if (!isObject(data.priceCache) || !Object.values(data.priceCache).every(price => typeof price === 'number')) {
+    throw new Error('The backup has an invalid price cache');
+  }
+  if (!Array.isArray(data.auditLog)) throw new Error('The backup has no audit log');
+
+  const wallets = data.wallets.map(validateWallet);
+  const names = new Set(wallets.map(wallet => wallet.name));
+  if (names.size !== wallets.length) throw new Error('The backup contains two wallets with the same name');
+
+  return {
+    ...(data as unknown as WorkspaceBackup),
+    wallets,
+    tags: data.tags.map(validateTag),
+    auditLog: data.auditLog.map(validateAuditEntry),
+  };
+};
+
+// Coins from the backup overwrite the annotations of matching coins; coins only one side has are kept.
+// Lifecycle fields only come from the backup while the current coin is still held.
+const mergeWallet = <T extends WalletData>(current: T, backup: WalletData): T => {
+  const backupByOutpoint = new Map(backup.utxos.map(utxo => [getOutpoint(utxo), utxo]));
+  const currentOutpoints = new Set(current.utxos.map(getOutpoint));
+
+  const utxos = [
+    ...current.utxos.map(utxo => {
+      const saved = backupByOutpoint.get(getOutpoint(utxo));
+      if (!saved) return utxo;
+      // Older backups have no lifecycle fields at all
+      const held = isHeldUtxo(utxo);
+      const annotations = Object.fromEntries(
+        ANNOTATION_FIELDS
+          .filter(field => saved[field] !== undefined && (held || !LIFECYCLE_FIELDS.has(field)))
+          .map(field => [field, saved[field]])
+      );
+      return { ...utxo, ...annotations };
+    }),
+    ...backup.utxos.filter(utxo => !currentOutpoints.has(getOutpoint(utxo))),
+  ];
+
+  return {
+    ...current,
+    utxos,
+    totalBalance: calculateBalance(utxos),
+  };
+};
+
+const auditEntryKey = (entry: AuditEntry) =>
+  JSON.stringify([entry.timestamp, entry.outpoint, entry.field, entry.oldValue, entry.newValue]);
+
+/**
+ * Works out the workspace a restore would produce. Merging matches wallets by name:
+ * matching wallets are merged coin by coin, the backup's other wallets are added.
+ */
+export const applyWorkspaceBackup = (
+  current: WorkspaceSnapshot,
+  backup: WorkspaceBackup,
+  mode: BackupRestoreMode
+): WorkspaceSnapshot => {
+  const { format: _format, version: _version, createdAt: _createdAt, ...restored } = backup;
+  if (mode === 'replace') return restored;
+
+  const backupByName = new Map(backup.wallets.map(wallet => [wallet.name, wallet]));
+  const currentNames = new Set(current.wallets.map(wallet => wallet.name));
+  const wallets = [
+    ...current.wallets.map(wallet => {
+      const matching = backupByName.get(wallet.name);
+      return matching ? mergeWallet(wallet, matching) : wallet;
+    }),
+    ...backup.wallets.filter(wallet => !currentNames.has(wallet.name)),
+  ];
+
+  const tagNames = new Set(current.tags.map(tag => tag.name));
+  const seenEntries = new Set(current.auditLog.map(auditEntryKey));
+
+  return {
+    ...current,
+    wallets,
+    tags: [...current.tags, ...backup.tags.filter(tag => !tagNames.has(tag.name))],
+    taxJurisdictionId: current.taxJurisdictionId ?? backup.taxJurisdictionId,
+    chainBackendConfig: current.chainBackendConfig ?? backup.chainBackendConfig,
+    priceCache: { ...backup.priceCache, ...current.priceCache },
+    auditLog: [...current.auditLog, ...backup.auditLog.filter(entry => !seenEntries.has(auditEntryKey(entry)))]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+  };
+};
+
+const diffWallet = (before: WalletData, after: WalletData): WalletDiff => {
+  const beforeByOutpoint = new Map(before.utxos.map(utxo => [getOutpoint(utxo), utxo]));
+  const afterOutpoints = new Set(after.utxos.map(getOutpoint));
+
+  let addedUtxos = 0;
+  let updatedUtxos = 0;
+  after.utxos.forEach(utxo => {
+    const previous = beforeByOutpoint.get(getOutpoint(utxo));
+    if (!previous) addedUtxos++;
+    else if (ANNOTATION_FIELDS.some(field => JSON.stringify(previous[field]) !== JSON.stringify(utxo[field]))) updatedUtxos++;
+  });
+  const removedUtxos = before.utxos.filter(utxo => !afterOutpoints.has(getOutpoint(utxo))).length;
+
+  return {
+    name: after.name,
+    status: addedUtxos || updatedUtxos || removedUtxos ? 'updated' : 'unchanged',
+    addedUtxos,
+    updatedUtxos,
+    removedUtxos,
+  };
+};
+
+const describeSetting = (value: unknown) =>
+  value === null || value === undefined ? 'Not set' : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Summarizes what a restore changes, for the preview shown before anything is written
+ */
+export const diffWorkspaces = (before: WorkspaceSnapshot, after: WorkspaceSnapshot): WorkspaceDiff => {
+  const beforeWallets = new Map(before.wallets.map(wallet => [wallet.name, wallet]));
+  const afterNames = new Set(after.wallets.map(wallet => wallet.name));
+
+  const wallets: WalletDiff[] = [
+    ...after.wallets.map(wallet => {
+      const previous = beforeWallets.get(wallet.name);
+      return previous
+        ? diffWallet(previous, wallet)
+        : { name: wallet.name, status: 'added' as const, addedUtxos: wallet.utxos.length, updatedUtxos: 0, removedUtxos: 0 };
+    }),
+    ...before.wallets
+      .filter(wallet => !afterNames.has(wallet.name))
+      .map(wallet => ({ name: wallet.name, status: 'removed' as const, addedUtxos: 0, updatedUtxos: 0, removedUtxos: wallet.utxos.length })),
+  ];
+
+  const beforeTags = new Set(before.tags.map(tag => tag.name));
+  const afterTags = new Set(after.tags.map(tag => tag.name));
+
+  const settings: SettingChange[] = [
+    { label: 'Currency', from: before.selectedCurrency.toUpperCase(), to: after.selectedCurrency.toUpperCase() },
+    { label: 'Tax jurisdiction', from: describeSetting(before.taxJurisdictionId), to: describeSetting(after.taxJurisdictionId) },
+    { label: 'Tax overrides', from: describeSetting(before.taxOverrides), to: describeSetting(after.taxOverrides) },
+    { label: 'Chain backend', from: describeSetting(before.chainBackendConfig?.type), to: describeSetting(after.chainBackendConfig?.type) },
+    { label: 'Simulation selection', from: `${before.simulationOutpoints.length} UTXOs`, to: `${after.simulationOutpoints.length} UTXOs` },
+  ].filter(change => change.from !== change.to);
+
+  const beforeEntries = new Set(before.auditLog.map(auditEntryKey));
+  const afterEntries = new Set(after.auditLog.map(auditEntryKey));
+  const beforePrices = Object.keys(before.priceCache);
+  const afterPrices = Object.keys(after.priceCache);
+
+  return {
+    wallets,
+    addedTags: [...afterTags].filter(name => !beforeTags.has(name)),
+    removedTags: [...beforeTags].filter(name => !afterTags.has(name)),
+    settings,
+    auditEntries: {
+      added: [...afterEntries].filter(key => !beforeEntries.has(key)).length,
+      removed: [...beforeEntries].filter(key => !afterEntries.has(key)).length,
+    },
+    priceCacheEntries: {
+      added: afterPrices.filter(key => !(key in before.priceCache)).length,
+      removed: beforePrices.filter(key => !(key in after.priceCache)).length,
+    },
+  };
+};
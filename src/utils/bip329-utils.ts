@@ -0,0 +1,172 @@
+import { Bip329Record, Bip329Type } from "@/types/bitcoin";
+import { UTXO, WalletData } from "@/types/utxo";
+import { labelToAnnotations } from "@/utils/wallet-export-utils";
+
+const BIP329_TYPES: Bip329Type[] = ['tx', 'addr', 'pubkey', 'input', 'output', 'xpub'];
+
+const isBip329Record = (value: unknown): value is Bip329Record => {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return BIP329_TYPES.includes(record.type as Bip329Type) && typeof record.ref === 'string';
+};
+
+const recordKey = (record: Bip329Record) => `${record.type}:${record.ref}`;
+
+/**
+ * Checks whether the content looks like a BIP329 JSONL file (one label object per line)
+ */
+export const isBip329Content = (content: string): boolean => {
+  const firstLine = content.trim().split('\n')[0]?.trim();
+  if (!firstLine || !firstLine.startsWith('{')) return false;
+  try {
+    return isBip329Record(JSON.parse(firstLine));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Parses BIP329 JSONL. Malformed lines throw with their line number; records with
+ * a type this version doesn't know are skipped, as the BIP asks importers to do.
+ */
+export const parseBip329 = (content: string): Bip329Record[] => {
+  const records: Bip329Record[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch {
+      throw new Error(`Invalid JSON on line ${index + 1}`);
+    }
+
+    if (!isBip329Record(value)) {
+      console.warn(`Skipping unsupported BIP329 record on line ${index + 1}:`, value);
+      return;
+    }
+    records.push(value);
+  });
+
+  return records;
+};
+
+export const serializeBip329 = (records: Bip329Record[]): string =>
+  records.map(record => JSON.stringify(record)).join('\n') + '\n';
+
+// The app's own export carries tags separately; labels from other wallets are matched against known tags
+const recordAnnotations = (record: Bip329Record, knownTags: string[]) => {
+  if (Array.isArray(record.tags)) {
+    const label = record.label?.trim() || null;
+    return { tags: record.tags, notes: label && label !== record.tags.join(', ') ? label : null };
+  }
+  return labelToAnnotations(record.label, knownTags);
+};
+
+export interface Bip329ApplyResult {
+  walletData: WalletData;
+  labeledCount: number; // UTXOs that received a label or tag
+  unmatchedCount: number; // Records kept in externalLabels
+  newTagNames: string[]; // Tags referenced by the file that aren't defined yet
+}
+
+/**
+ * Applies BIP329 records to a wallet. Output labels are the most specific and replace
+ * the UTXO's notes; address and transaction labels only fill in empty notes. Tags are
+ * always merged. Records that match nothing are kept so a later export round-trips them.
+ */
+export const applyBip329Labels = (
+  walletData: WalletData,
+  records: Bip329Record[],
+  knownTags: string[] = []
+): Bip329ApplyResult => {
+  const byKey = new Map(records.map(record => [recordKey(record), record]));
+  const matched = new Set<string>();
+  const newTagNames = new Set<string>();
+  let labeledCount = 0;
+
+  const utxos = walletData.utxos.map((utxo): UTXO => {
+    // Most specific first, so the output label wins the notes field
+    const applicable = [
+      byKey.get(`output:${utxo.txid}:${utxo.vout}`),
+      byKey.get(`addr:${utxo.address}`),
+      byKey.get(`tx:${utxo.txid}`),
+    ].filter((record): record is Bip329Record => !!record);
+
+    if (applicable.length === 0) return utxo;
+
+    let tags = [...utxo.tags];
+    let notes = utxo.notes;
+    applicable.forEach(record => {
+      matched.add(recordKey(record));
+      const annotations = recordAnnotations(record, knownTags);
+      annotations.tags.forEach(tag => {
+        if (!knownTags.includes(tag)) newTagNames.add(tag);
+      });
+      tags = [...new Set([...tags, ...annotations.tags])];
+      if (annotations.notes && (record.type === 'output' || !notes)) {
+        notes = annotations.notes;
+      }
+    });
+
+    labeledCount++;
+    return { ...utxo, tags, notes };
+  });
+
+  // An xpub label names the wallet it belongs to
+  let name = walletData.name;
+  const xpubRecord = walletData.source?.xpub ? byKey.get(`xpub:${walletData.source.xpub}`) : undefined;
+  if (xpubRecord) {
+    matched.add(recordKey(xpubRecord));
+    if (xpubRecord.label) name = xpubRecord.label;
+  }
+
+  const unmatched = records.filter(record => !matched.has(recordKey(record)));
+  const unmatchedKeys = new Set(unmatched.map(recordKey));
+  const externalLabels = [
+    ...(walletData.externalLabels || []).filter(record => !unmatchedKeys.has(recordKey(record))),
+    ...unmatched
+  ];
+
+  return {
+    walletData: { ...walletData, name, utxos, externalLabels },
+    labeledCount,
+    unmatchedCount: unmatched.length,
+    newTagNames: [...newTagNames]
+  };
+};
+
+/**
+ * Builds BIP329 records for every labeled or tagged UTXO, the wallet's xpub and any
+ * imported records that didn't match a UTXO
+ */
+export const walletToBip329 = (walletData: WalletData): Bip329Record[] => {
+  const records: Bip329Record[] = walletData.utxos
+    .filter(utxo => utxo.notes || utxo.tags.length > 0)
+    .map(utxo => ({
+      type: 'output',
+      ref: `${utxo.txid}:${utxo.vout}`,
+      // Other wallets only show the label, so fall back to the tag names
+      label: utxo.notes || utxo.tags.join(', '),
+      ...(utxo.tags.length > 0 ? { tags: utxo.tags } : {})
+    }));
+
+  if (walletData.source?.xpub) {
+    records.push({ type: 'xpub', ref: walletData.source.xpub, label: walletData.name });
+  }
+
+  const exported = new Set(records.map(recordKey));
+  (walletData.externalLabels || [])
+    .filter(record => !exported.has(recordKey(record)))
+    .forEach(record => records.push(record));
+
+  return records;
+};
+
+// Object URL for downloading the wallet's labels, like createDownloadableJSON
+export const createDownloadableBip329 = (walletData: WalletData) => {
+  const blob = new Blob([serializeBip329(walletToBip329(walletData))], { type: 'application/jsonl' });
+  return URL.createObjectURL(blob);
+};
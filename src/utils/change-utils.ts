@@ -0,0 +1,168 @@
+import { ScriptType } from "@/types/bitcoin";
+import { ChangeAnalysis, ChangeHeuristic, ChangeSignal, SimulatedChange } from "@/types/change";
+import { validateAddress } from "@/utils/address-utils";
+import { isRoundAmount } from "@/utils/risk-utils";
+import { getScriptTypeLabel } from "@/utils/script-utils";
+
+const SATS_PER_BTC = 100000000;
+
+// How far an observer trusts each heuristic on its own
+const HEURISTIC_WEIGHTS: Record<ChangeHeuristic, number> = {
+  'address-reuse': 0.95,
+  'script-type': 0.6,
+  'round-amount': 0.6,
+  'unnecessary-input': 0.5,
+  'value-fingerprint': 0.3,
+  'output-order': 0.2,
+};
+
+// An observer picks an output as change from this confidence up
+export const CHANGE_CONFIDENCE_THRESHOLD = 0.5;
+
+export const CHANGE_HEURISTIC_LABELS: Record<ChangeHeuristic, string> = {
+  'address-reuse': 'Address reuse',
+  'script-type': 'Script type match',
+  'round-amount': 'Round payment',
+  'unnecessary-input': 'Unnecessary input',
+  'output-order': 'Output order',
+  'value-fingerprint': 'Value fingerprint',
+};
+
+// Values in satoshis. Chain transactions fit as they are; drafted outputs without an address can name their script type.
+export interface ChangeTxInput {
+  address: string | null;
+  value: number | null;
+}
+
+export interface ChangeTxOutput {
+  address: string | null;
+  value: number;
+  scriptPubKey?: string;
+  scriptType?: ScriptType | null;
+}
+
+export interface ChangeTx {
+  inputs: ChangeTxInput[];
+  outputs: ChangeTxOutput[];
+}
+
+const getOutputScriptType = (output: ChangeTxOutput): ScriptType | null =>
+  output.scriptType ?? (output.address ? validateAddress(output.address).scriptType : null);
+
+const countTrailingZeros = (sats: number) => {
+  let zeros = 0;
+  for (let value = sats; value > 0 && value % 10 === 0; value /= 10) zeros++;
+  return zeros;
+};
+
+// BIP69 sorts outputs by value, then script. Sorted outputs say nothing about which one is change.
+const isBip69Ordered = (outputs: ChangeTxOutput[]) => outputs.every((output, index) => {
+  if (index === 0) return true;
+  const previous = outputs[index - 1];
+  return previous.value < output.value
+    || (previous.value === output.value && (previous.scriptPubKey ?? '') <= (output.scriptPubKey ?? ''));
+});
+
+// Each heuristic that singles out exactly one output, with that output's index
+const findSignals = (tx: ChangeTx): { index: number; signal: ChangeSignal }[] => {
+  const signals: { index: number; signal: ChangeSignal }[] = [];
+  const add = (indices: number[], heuristic: ChangeHeuristic, detail: string) => {
+    indices.forEach(index => signals.push({ index, signal: { heuristic, weight: HEURISTIC_WEIGHTS[heuristic], detail } }));
+  };
+  const indices = tx.outputs.map((_, index) => index);
+  const single = (matches: number[]) => matches.length === 1 && tx.outputs.length > 1 ? matches : [];
+
+  const inputAddresses = new Set(tx.inputs.map(input => input.address).filter(Boolean));
+  add(
+    indices.filter(index => inputAddresses.has(tx.outputs[index].address)),
+    'address-reuse',
+    'Pays an address the transaction also spends from'
+  );
+
+  const inputTypes = new Set(tx.inputs.map(input => input.address ? validateAddress(input.address).scriptType : null));
+  const [inputType] = inputTypes;
+  if (inputTypes.size === 1 && inputType) {
+    add(
+      single(indices.filter(index => getOutputScriptType(tx.outputs[index]) === inputType)),
+      'script-type',
+      `Only output paying ${getScriptTypeLabel(inputType)}, like the inputs`
+    );
+  }
+
+  const unround = single(indices.filter(index => !isRoundAmount(tx.outputs[index].value)));
+  add(unround, 'round-amount', 'The other outputs are round amounts, which look like payments');
+
+  const inputValues = tx.inputs.map(input => input.value);
+  if (inputValues.length > 0 && inputValues.every((value): value is number => value !== null)) {
+    const totalIn = inputValues.reduce((sum, value) => sum + value, 0);
+    const fee = totalIn - tx.outputs.reduce((sum, output) => sum + output.value, 0);
+    const smallestInput = Math.min(...inputValues);
+    add(
+      single(indices.filter(index => {
+        const { value } = tx.outputs[index];
+        return value < smallestInput || (inputValues.length > 1 && value + fee <= totalIn - smallestInput);
+      })),
+      'unnecessary-input',
+      'Paying this alone would not have needed every input'
+    );
+  }
+
+  // Leftovers carry every digit; amounts people chose end in zeros
+  if (unround.length === 0 && tx.outputs.length > 1) {
+    const zeros = tx.outputs.map(output => countTrailingZeros(output.value));
+    const fewest = Math.min(...zeros);
+    const precise = indices.filter(index => zeros[index] === fewest);
+    if (precise.length === 1 && zeros.every((count, index) => index === precise[0] || count >= fewest + 2)) {
+      add(precise, 'value-fingerprint', 'Far more precise than the other outputs');
+    }
+  }
+
+  if (tx.outputs.length > 1 && !isBip69Ordered(tx.outputs)) {
+    add([tx.outputs.length - 1], 'output-order', 'Last of outputs that are not sorted, where many wallets put change');
+  }
+
+  return signals;
+};
+
+/**
+ * Scores each output of a transaction on how likely an observer is to take it for change.
+ * Heuristics pointing at one output add up; heuristics pointing at other outputs take away from it.
+ */
+export const analyzeChange = (tx: ChangeTx): ChangeAnalysis => {
+  const found = findSignals(tx);
+  const evidence = tx.outputs.map((_, index) => {
+    const signals = found.filter(entry => entry.index === index).map(entry => entry.signal);
+    return { signals, strength: 1 - signals.reduce((rest, signal) => rest * (1 - signal.weight), 1) };
+  });
+
+  const outputs = evidence.map(({ signals, strength }, index) => ({
+    index,
+    signals,
+    confidence: evidence.reduce((confidence, other, otherIndex) =>
+      otherIndex === index ? confidence : confidence * (1 - other.strength), strength),
+  }));
+
+  const best = outputs.reduce<typeof outputs[number] | null>(
+    (top, output) => !top || output.confidence > top.confidence ? output : top, null
+  );
+  const likelyChange = best && best.confidence >= CHANGE_CONFIDENCE_THRESHOLD ? best.index : null;
+
+  return { outputs, likelyChange };
+};
+
+/**
+ * Shows how an observer sees our change output in a transaction we built: how sure they are it's
+ * change, and whether they would pick it or another output.
+ */
+export const assessOwnChange = (tx: ChangeTx, changeIndex: number): SimulatedChange => {
+  const { outputs, likelyChange } = analyzeChange(tx);
+  const { confidence, signals } = outputs[changeIndex];
+  return {
+    index: changeIndex,
+    amount: tx.outputs[changeIndex].value / SATS_PER_BTC,
+    confidence,
+    identified: likelyChange === changeIndex,
+    observerPick: likelyChange,
+    signals,
+  };
+};
@@ -0,0 +1,141 @@
+import { ChainTransaction } from "@/types/chain";
+import { AddressCluster, ClusterHeuristic, ClusterLink } from "@/types/cluster";
+import { UTXO } from "@/types/utxo";
+import { analyzeChange } from "@/utils/change-utils";
+import { detectCoinjoin } from "@/utils/coinjoin-utils";
+import { getOutpoint } from "@/utils/utxo-utils";
+
+export const CLUSTER_HEURISTIC_LABELS: Record<ClusterHeuristic, string> = {
+  'common-input': 'Spent together',
+  'change-output': 'Change output',
+};
+
+export interface ClusterGroup {
+  cluster: AddressCluster | null; // null for coins nothing links to another wallet coin
+  utxos: UTXO[];
+}
+
+/**
+ * Groups addresses the way a chain observer would: the inputs of a transaction share an owner, and
+ * so does the change output the change heuristics pick out. Coinjoins link nothing. Parent transactions extend the clusters to the
+ * wallet's counterparties. Wallet coins recorded as spent together count even when their spending
+ * transaction was never fetched.
+ *
+ * Returns the clusters that link several wallet coins or addresses, and the counterparty clusters
+ * that sent to the wallet, largest first.
+ */
+export const clusterAddresses = (transactions: ChainTransaction[], utxos: UTXO[]): AddressCluster[] => {
+  const parents = new Map<string, string>();
+  const find = (address: string): string => {
+    const parent = parents.get(address);
+    if (parent === undefined) {
+      parents.set(address, address);
+      return address;
+    }
+    if (parent === address) return address;
+    const root = find(parent);
+    parents.set(address, root);
+    return root;
+  };
+
+  const links: ClusterLink[] = [];
+  const link = (txid: string, heuristic: ClusterHeuristic, addresses: string[], confidence?: number) => {
+    const unique = [...new Set(addresses)];
+    if (unique.length < 2) return;
+    const root = find(unique[0]);
+    unique.slice(1).forEach(address => {
+      const other = find(address);
+      if (other !== root) parents.set(other, root);
+    });
+    links.push({ txid, heuristic, addresses: unique, ...(confidence !== undefined && { confidence }) });
+  };
+
+  // A coinjoin's inputs and outputs belong to many owners; linking them is what the coinjoin defeats
+  transactions.filter(tx => !detectCoinjoin(tx)).forEach(tx => {
+    const inputAddresses = tx.inputs.map(input => input.address).filter((address): address is string => Boolean(address));
+    link(tx.txid, 'common-input', inputAddresses);
+
+    const { outputs, likelyChange } = analyzeChange(tx);
+    const changeAddress = likelyChange !== null ? tx.outputs[likelyChange].address : null;
+    if (likelyChange !== null && changeAddress && inputAddresses.length > 0) {
+      link(tx.txid, 'change-output', [inputAddresses[0], changeAddress], outputs[likelyChange].confidence);
+    }
+  });
+
+  const fetched = new Set(transactions.map(tx => tx.txid));
+  const coSpent = new Map<string, string[]>();
+  utxos.forEach(utxo => {
+    const spendTxid = utxo.spend?.txid;
+    if (spendTxid && !fetched.has(spendTxid)) coSpent.set(spendTxid, [...(coSpent.get(spendTxid) ?? []), utxo.address]);
+  });
+  coSpent.forEach((addresses, txid) => link(txid, 'common-input', addresses));
+
+  const ownAddresses = new Set(utxos.map(utxo => utxo.address).filter(Boolean));
+  const senderAddresses = new Set(utxos.map(utxo => utxo.senderAddress).filter((address): address is string => Boolean(address)));
+  [...ownAddresses, ...senderAddresses].forEach(find);
+
+  const membersByRoot = new Map<string, string[]>();
+  parents.forEach((_, address) => {
+    const root = find(address);
+    membersByRoot.set(root, [...(membersByRoot.get(root) ?? []), address]);
+  });
+
+  const candidates = [...membersByRoot.entries()].flatMap(([root, members]) => {
+    const addresses = [...members].sort();
+    const isOwn = addresses.some(address => ownAddresses.has(address));
+    const memberSet = new Set(addresses);
+    const outpoints = utxos.filter(utxo => memberSet.has(utxo.address)).map(getOutpoint);
+    const linksWallet = isOwn && (addresses.length > 1 || outpoints.length > 1);
+    const isCounterparty = !isOwn && addresses.length > 1 && addresses.some(address => senderAddresses.has(address));
+    if (!linksWallet && !isCounterparty) return [];
+    return [{
+      addresses,
+      isOwn,
+      outpoints,
+      links: links.filter(clusterLink => find(clusterLink.addresses[0]) === root),
+    }];
+  });
+
+  const rank = (own: boolean) => candidates
+    .filter(candidate => candidate.isOwn === own)
+    .sort((a, b) => b.outpoints.length - a.outpoints.length || b.addresses.length - a.addresses.length);
+
+  return [
+    ...rank(true).map((candidate, index) => ({ ...candidate, label: `Cluster ${index + 1}` })),
+    ...rank(false).map((candidate, index) => ({ ...candidate, label: `Counterparty ${index + 1}` })),
+  ].map(cluster => ({ id: `cluster-${cluster.addresses[0]}`, ...cluster }));
+};
+
+// A stable color per cluster, so hulls and treemap groups match
+export const getClusterColor = (clusterId: string) =>
+  `hsl(${Math.abs(clusterId.split('').reduce((a, b) => {
+    a = (a << 5) - a + b.charCodeAt(0);
+    return a & a;
+  }, 0)) % 360}, 70%, 50%)`;
+
+export const getClusterByAddress = (clusters: AddressCluster[]) => {
+  const byAddress = new Map<string, AddressCluster>();
+  clusters.forEach(cluster => cluster.addresses.forEach(address => byAddress.set(address, cluster)));
+  return byAddress;
+};
+
+/**
+ * Sorts coins into the clusters that link them, in cluster order. Coins that no cluster
+ * links to another of the given coins come last, in one group without a cluster.
+ */
+export const groupUtxosByCluster = (utxos: UTXO[], clusters: AddressCluster[]): ClusterGroup[] => {
+  const byAddress = getClusterByAddress(clusters);
+  const grouped = new Map<string, UTXO[]>();
+  utxos.forEach(utxo => {
+    const cluster = byAddress.get(utxo.address);
+    if (cluster) grouped.set(cluster.id, [...(grouped.get(cluster.id) ?? []), utxo]);
+  });
+
+  const groups = clusters
+    .filter(cluster => (grouped.get(cluster.id)?.length ?? 0) > 1)
+    .map(cluster => ({ cluster, utxos: grouped.get(cluster.id) ?? [] }));
+  const linked = new Set(groups.flatMap(group => group.utxos));
+  const unlinked = utxos.filter(utxo => !linked.has(utxo));
+
+  return unlinked.length > 0 ? [...groups, { cluster: null, utxos: unlinked }] : groups;
+};
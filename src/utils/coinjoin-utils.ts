@@ -0,0 +1,92 @@
+import { ChainTransaction } from "@/types/chain";
+import { CoinjoinDetection, CoinjoinProtocol } from "@/types/coinjoin";
+
+export const COINJOIN_PROTOCOL_LABELS: Record<CoinjoinProtocol, string> = {
+  'whirlpool': 'Whirlpool',
+  'wabisabi': 'Wasabi 2 (WabiSabi)',
+  'joinmarket': 'JoinMarket',
+  'generic': 'Equal-output coinjoin',
+};
+
+// Coins hidden among fewer outputs than a Whirlpool pool add little cover when merged with mixed ones
+export const HIGH_ANONSET = 5;
+
+// Whirlpool pool denominations in satoshis: 0.001, 0.01, 0.05 and 0.5 BTC
+const WHIRLPOOL_POOLS = [100000, 1000000, 5000000, 50000000];
+const WHIRLPOOL_SIZE = 5;
+
+// Two equal outputs are as likely two payments of one amount; a coinjoin needs a third participant
+const MIN_PARTICIPANTS = 3;
+
+// Wasabi 2 rounds need this many inputs to start
+const WABISABI_MIN_INPUTS = 20;
+
+// Wasabi 2 output values: powers of 2 and 3, twice powers of 3, and 1, 2 and 5 times powers of 10
+const WABISABI_DENOMINATIONS = (() => {
+  const denominations = new Set<number>();
+  const min = 5000;
+  const max = 2 ** 37;
+  [2, 3, 10].forEach(base => {
+    for (let power = 1; power <= max; power *= base) {
+      const multiples = base === 3 ? [1, 2] : base === 10 ? [1, 2, 5] : [1];
+      multiples.forEach(multiple => {
+        if (power * multiple >= min && power * multiple <= max) denominations.add(power * multiple);
+      });
+    }
+  });
+  return denominations;
+})();
+
+const findProtocol = (tx: ChainTransaction, denominations: number[], equalOutputs: number): CoinjoinProtocol | null => {
+  const change = tx.outputs.length - equalOutputs;
+
+  if (
+    tx.inputs.length === WHIRLPOOL_SIZE && tx.outputs.length === WHIRLPOOL_SIZE && change === 0
+    && denominations.length === 1 && WHIRLPOOL_POOLS.includes(denominations[0])
+  ) {
+    return 'whirlpool';
+  }
+
+  const standardOutputs = tx.outputs.filter(output => WABISABI_DENOMINATIONS.has(output.value)).length;
+  if (tx.inputs.length >= WABISABI_MIN_INPUTS && denominations.length > 1 && standardOutputs * 2 >= tx.outputs.length) {
+    return 'wabisabi';
+  }
+
+  // Makers always get change back; the taker may have swept a whole coin
+  if (denominations.length === 1 && change <= equalOutputs && change >= equalOutputs - 1) {
+    return 'joinmarket';
+  }
+
+  // Payments and batch withdrawals can hold a few equal amounts, but not mostly equal ones
+  return equalOutputs * 2 > tx.outputs.length ? 'generic' : null;
+};
+
+/**
+ * Recognizes a coinjoin from its outputs: at least three of the same value, paid for by inputs that
+ * don't all come from one address, with at least one input per equal output, in the shape of a
+ * known coinjoin or with equal outputs making up most of the outputs. Each output's
+ * anonymity set is the number of outputs it can't be told apart from.
+ *
+ * Returns null for transactions that aren't coinjoins.
+ */
+export const detectCoinjoin = (tx: ChainTransaction): CoinjoinDetection | null => {
+  const counts = new Map<number, number>();
+  tx.outputs.forEach(output => counts.set(output.value, (counts.get(output.value) ?? 0) + 1));
+
+  const anonsets = tx.outputs.map(output => counts.get(output.value) ?? 1);
+  const denominations = [...counts.entries()]
+    .filter(([, count]) => count > 1)
+    .map(([value]) => value)
+    .sort((a, b) => b - a);
+  if (denominations.length === 0) return null;
+
+  // Every participant brings at least one input, and one address paying itself several times is a batch
+  const largestGroup = Math.max(...anonsets);
+  const inputAddresses = tx.inputs.map(input => input.address);
+  const singleSpender = inputAddresses.every(Boolean) && new Set(inputAddresses).size < 2;
+  if (largestGroup < MIN_PARTICIPANTS || tx.inputs.length < largestGroup || singleSpender) return null;
+
+  const equalOutputs = anonsets.filter(anonset => anonset > 1).length;
+  const protocol = findProtocol(tx, denominations, equalOutputs);
+  return protocol ? { protocol, denominations, anonsets } : null;
+};
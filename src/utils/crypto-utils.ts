@@ -0,0 +1,70 @@
+import { bytesToHex } from "@noble/hashes/utils";
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_PBKDF2_ITERATIONS = 600000;
+
+export interface VaultKeys {
+  encryptionKey: CryptoKey; // AES-256-GCM
+  indexKey: CryptoKey; // HMAC-SHA256, turns record ids into opaque storage keys
+}
+
+// AES-GCM ciphertext with its nonce, as stored in IndexedDB
+export interface EncryptedValue {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export const randomBytes = (length: number): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Stretches a passphrase into an encryption key and an index key with PBKDF2-SHA256.
+ * Neither key is extractable.
+ */
+export const deriveVaultKeys = async (
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<VaultKeys> => {
+  const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    512
+  ));
+
+  const [encryptionKey, indexKey] = await Promise.all([
+    crypto.subtle.importKey('raw', bits.slice(0, 32), { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']),
+    crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+  ]);
+  bits.fill(0);
+  return { encryptionKey, indexKey };
+};
+
+/**
+ * Encrypts any JSON-serializable value with a fresh 96-bit nonce
+ */
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedValue> => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, textEncoder.encode(JSON.stringify(value)));
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+};
+
+/**
+ * Decrypts a value from encryptJson. Throws if the key is wrong or the data was tampered with.
+ */
+export const decryptJson = async <T>(key: CryptoKey, encrypted: EncryptedValue): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: encrypted.iv }, key, encrypted.ciphertext);
+  return JSON.parse(textDecoder.decode(plaintext)) as T;
+};
+
+export const isEncryptedValue = (value: unknown): value is EncryptedValue =>
+  typeof value === 'object' && value !== null &&
+  (value as EncryptedValue).iv instanceof Uint8Array &&
+  (value as EncryptedValue).ciphertext instanceof Uint8Array;
+
+// Keyed hash, so equal ids map to equal storage keys without revealing the id
+export const hmacHex = async (key: CryptoKey, message: string): Promise<string> =>
+  bytesToHex(new Uint8Array(await crypto.subtle.sign('HMAC', key, textEncoder.encode(message))));
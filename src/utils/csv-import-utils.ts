@@ -0,0 +1,235 @@
+import { UTXO, WalletData } from "@/types/utxo";
+import { decodeAddress } from "@/utils/address-utils";
+import { normalizeCsvHeader } from "@/utils/csv-utils";
+
+export type CsvField =
+  | 'txid'
+  | 'vout'
+  | 'outpoint'
+  | 'amount'
+  | 'date'
+  | 'address'
+  | 'tags'
+  | 'notes'
+  | 'costBasis';
+
+export type CsvAmountUnit = 'btc' | 'sats';
+
+export interface CsvColumnMapping {
+  columns: Partial<Record<CsvField, number>>; // Field -> column index
+  amountUnit: CsvAmountUnit;
+}
+
+export interface CsvRowError {
+  row: number; // 1-based line number in the file, header included
+  message: string;
+}
+
+export interface CsvMappingResult {
+  utxos: UTXO[];
+  errors: CsvRowError[];
+}
+
+export const CSV_FIELDS: { field: CsvField; label: string; hint: string }[] = [
+  { field: 'txid', label: 'Transaction ID', hint: '64 hex characters' },
+  { field: 'vout', label: 'Output index (vout)', hint: 'Defaults to 0 when not mapped' },
+  { field: 'outpoint', label: 'Outpoint (txid:vout)', hint: 'Use instead of separate txid/vout columns' },
+  { field: 'amount', label: 'Amount', hint: 'BTC or sats, see unit below' },
+  { field: 'date', label: 'Acquisition date', hint: 'ISO date, MM/DD/YYYY or unix time' },
+  { field: 'address', label: 'Address', hint: 'Receiving address' },
+  { field: 'tags', label: 'Tags', hint: 'Separated by ; or |' },
+  { field: 'notes', label: 'Notes', hint: 'Free text' },
+  { field: 'costBasis', label: 'Cost basis (fiat)', hint: 'Total acquisition value' },
+];
+
+// Header names accountants' spreadsheets commonly use for each field
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  txid: ['txid', 'tx id', 'transaction id', 'transaction_hash', 'tx hash', 'hash'],
+  vout: ['vout', 'output index', 'index', 'n', 'tx_pos'],
+  outpoint: ['outpoint', 'output', 'utxo'],
+  amount: ['amount', 'value', 'amount (btc)', 'btc', 'quantity', 'sats', 'amount (sats)'],
+  date: ['date', 'acquisition date', 'date acquired', 'timestamp', 'time', 'date (utc)'],
+  address: ['address', 'receiving address', 'receiver address'],
+  tags: ['tags', 'tag', 'category', 'categories'],
+  notes: ['notes', 'note', 'label', 'memo', 'description', 'comment'],
+  costBasis: ['cost basis', 'cost', 'acquisition value', 'fiat value', 'cost basis (usd)', 'value (usd)'],
+};
+
+const MAPPINGS_STORAGE_KEY = 'utxo-intelligence:csv-mappings';
+
+// Files with the same header row are treated as coming from the same source
+export const csvHeaderSignature = (header: string[]) => normalizeCsvHeader(header).join('|');
+
+/**
+ * Guesses a mapping from header names. Exact alias matches win over prefix matches,
+ * and each column is used for at most one field.
+ */
+export const guessCsvMapping = (header: string[]): CsvColumnMapping => {
+  const normalized = normalizeCsvHeader(header);
+  const used = new Set<number>();
+  const columns: CsvColumnMapping['columns'] = {};
+
+  (Object.keys(FIELD_ALIASES) as CsvField[]).forEach(field => {
+    const aliases = FIELD_ALIASES[field];
+    let index = normalized.findIndex((cell, i) => !used.has(i) && aliases.includes(cell));
+    if (index < 0) {
+      index = normalized.findIndex((cell, i) => !used.has(i) && aliases.some(alias => cell.startsWith(alias)));
+    }
+    if (index >= 0) {
+      columns[field] = index;
+      used.add(index);
+    }
+  });
+
+  // An outpoint column makes separate txid/vout guesses redundant
+  if (columns.outpoint !== undefined && columns.txid === undefined) {
+    delete columns.vout;
+  }
+
+  const amountHeader = columns.amount !== undefined ? normalized[columns.amount] : '';
+  return { columns, amountUnit: /sat/.test(amountHeader) ? 'sats' : 'btc' };
+};
+
+const readSavedMappings = (): Record<string, CsvColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedCsvMapping = (header: string[]): CsvColumnMapping | null =>
+  readSavedMappings()[csvHeaderSignature(header)] ?? null;
+
+export const saveCsvMapping = (header: string[], mapping: CsvColumnMapping) => {
+  const saved = readSavedMappings();
+  saved[csvHeaderSignature(header)] = mapping;
+  localStorage.setItem(MAPPINGS_STORAGE_KEY, JSON.stringify(saved));
+};
+
+/**
+ * Returns what is missing for the mapping to be usable, or null if it is complete
+ */
+export const validateCsvMapping = (mapping: CsvColumnMapping): string | null => {
+  const { columns } = mapping;
+  if (columns.txid === undefined && columns.outpoint === undefined) {
+    return 'Map either a transaction ID or an outpoint column';
+  }
+  if (columns.amount === undefined) return 'Map the amount column';
+  return null;
+};
+
+// Strips thousands separators and currency symbols; null for empty cells
+const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[\s,$€£¥]/g, '');
+  if (cleaned === '') return null;
+  const number = Number(cleaned);
+  if (isNaN(number)) throw new Error(`"${value}" is not a number`);
+  return number;
+};
+
+const parseCsvDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{9,10}$/.test(trimmed)) {
+    return new Date(Number(trimmed) * 1000).toISOString();
+  }
+  // Date-only and "YYYY-MM-DD HH:MM" values are read as UTC rather than local time
+  const isoLike = trimmed.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/);
+  const date = isoLike
+    ? new Date(`${isoLike[1]}T${isoLike[2] || '00:00:00'}Z`)
+    : new Date(trimmed);
+
+  if (isNaN(date.getTime())) throw new Error(`"${value}" is not a recognizable date`);
+  return date.toISOString();
+};
+
+const splitTags = (value: string): string[] =>
+  value.split(/[;|]/).map(tag => tag.trim()).filter(Boolean);
+
+/**
+ * Converts data rows into UTXOs using the mapping. Rows that fail validation are
+ * reported with their line number instead of aborting the whole import.
+ */
+export const mapCsvRows = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  walletName: string
+): CsvMappingResult => {
+  const { columns, amountUnit } = mapping;
+  const cell = (row: string[], field: CsvField) =>
+    columns[field] !== undefined ? (row[columns[field]!] ?? '').trim() : '';
+
+  const utxos: UTXO[] = [];
+  const errors: CsvRowError[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const line = index + 2; // Data starts after the header line
+    try {
+      let txid = cell(row, 'txid');
+      let voutText = cell(row, 'vout');
+      const outpoint = cell(row, 'outpoint');
+      if (!txid && outpoint) {
+        [txid, voutText] = outpoint.split(':');
+      }
+
+      txid = (txid || '').toLowerCase();
+      if (!/^[0-9a-f]{64}$/.test(txid)) throw new Error('Transaction ID must be 64 hex characters');
+
+      const vout = voutText ? Number(voutText) : 0;
+      if (!Number.isInteger(vout) || vout < 0) throw new Error(`Invalid output index "${voutText}"`);
+
+      const outpointKey = `${txid}:${vout}`;
+      if (seen.has(outpointKey)) throw new Error(`Duplicate output ${txid.substring(0, 8)}…:${vout}`);
+
+      const rawAmount = parseNumber(cell(row, 'amount'));
+      if (rawAmount === null || rawAmount <= 0) throw new Error('Amount must be a positive number');
+      if (amountUnit === 'sats' && !Number.isInteger(rawAmount)) throw new Error('Amount in sats must be a whole number');
+      const amount = amountUnit === 'sats' ? rawAmount / 100000000 : rawAmount;
+
+      const address = cell(row, 'address');
+      if (address) decodeAddress(address);
+
+      const createdAt = parseCsvDate(cell(row, 'date'));
+      const costBasis = parseNumber(cell(row, 'costBasis'));
+      if (costBasis !== null && costBasis < 0) throw new Error('Cost basis cannot be negative');
+
+      seen.add(outpointKey);
+      utxos.push({
+        txid,
+        vout,
+        address,
+        amount,
+        confirmations: 0, // Unknown until refreshed from a chain backend
+        scriptPubKey: '',
+        tags: splitTags(cell(row, 'tags')),
+        createdAt: createdAt || new Date().toISOString(),
+        privacyRisk: 'medium',
+        acquisitionDate: createdAt ? createdAt.split('T')[0] : null,
+        acquisitionFiatValue: costBasis,
+        acquisitionBtcPrice: costBasis !== null ? costBasis / amount : null,
+        disposalDate: null,
+        disposalFiatValue: null,
+        realizedGainFiat: null,
+        costAutoPopulated: false,
+        notes: cell(row, 'notes') || null,
+        senderAddress: null,
+        receiverAddress: address || null,
+        walletName
+      });
+    } catch (error) {
+      errors.push({ row: line, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  return { utxos, errors };
+};
+
+export const csvUtxosToWalletData = (name: string, utxos: UTXO[]): WalletData => ({
+  name,
+  totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+  utxos,
+  source: { type: 'csv', importedAt: new Date().toISOString() }
+});
@@ -0,0 +1,53 @@
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF line endings)
+ * into rows of trimmed cells. Blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM, which spreadsheet apps like to prepend
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endField = () => {
+    row.push(field.trim());
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    if (row.some(cell => cell !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+// Lowercased header names, for case-insensitive column lookup
+export const normalizeCsvHeader = (header: string[]) => header.map(cell => cell.toLowerCase().trim());
@@ -0,0 +1,467 @@
+import { HDKey } from "@scure/bip32";
+import { sha256 } from "@noble/hashes/sha2";
+import { schnorr, secp256k1 } from "@noble/curves/secp256k1";
+import {
+  BitcoinNetwork,
+  DerivedAddress,
+  DescriptorKey,
+  DescriptorType,
+  ParsedDescriptor,
+  ScriptType
+} from "@/types/bitcoin";
+import { WalletData } from "@/types/utxo";
+import {
+  buildScriptPubKey,
+  bytesToHex,
+  concatBytes,
+  encodeAddress,
+  hash160,
+  hexToBytes
+} from "./address-utils";
+
+// BIP380 checksum character sets
+const INPUT_CHARSET = "0123456789()[],'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#\"\\ ";
+const CHECKSUM_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+const POLYMOD_GENERATORS = [
+  0xf5dee51989n,
+  0xa9fdca3312n,
+  0x1bab10e32dn,
+  0x3706b1677an,
+  0x644d626ffdn
+];
+
+// Extended key version bytes (BIP32). Descriptors only allow xpub/tpub.
+export const EXTENDED_KEY_VERSIONS = {
+  mainnet: { public: 0x0488b21e, private: 0x0488ade4 },
+  testnet: { public: 0x043587cf, private: 0x04358394 },
+};
+
+const HARDENED_OFFSET = 0x80000000;
+const MULTIPATH_STEP = -1;
+
+const polymod = (c: bigint, value: number): bigint => {
+  const c0 = c >> 35n;
+  let result = ((c & 0x7ffffffffn) << 5n) ^ BigInt(value);
+  POLYMOD_GENERATORS.forEach((generator, i) => {
+    if ((c0 >> BigInt(i)) & 1n) result ^= generator;
+  });
+  return result;
+};
+
+/**
+ * Computes the 8-character BIP380 checksum for a descriptor (without "#...")
+ */
+export const getDescriptorChecksum = (descriptor: string): string => {
+  let c = 1n;
+  let cls = 0;
+  let clsCount = 0;
+
+  for (const ch of descriptor) {
+    const pos = INPUT_CHARSET.indexOf(ch);
+    if (pos === -1) {
+      throw new Error(`Invalid character "${ch}" in descriptor`);
+    }
+    c = polymod(c, pos & 31);
+    cls = cls * 3 + (pos >> 5);
+    if (++clsCount === 3) {
+      c = polymod(c, cls);
+      cls = 0;
+      clsCount = 0;
+    }
+  }
+
+  if (clsCount > 0) c = polymod(c, cls);
+  for (let i = 0; i < 8; i++) c = polymod(c, 0);
+  c ^= 1n;
+
+  let checksum = '';
+  for (let j = 0; j < 8; j++) {
+    checksum += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - j))) & 31n)];
+  }
+  return checksum;
+};
+
+// Returns the inner expression of `name(...)`, or null if it doesn't match
+const unwrap = (expression: string, name: string): string | null => {
+  if (expression.startsWith(`${name}(`) && expression.endsWith(')')) {
+    return expression.slice(name.length + 1, -1);
+  }
+  return null;
+};
+
+// Splits on commas that are not nested inside brackets
+const splitArguments = (expression: string): string[] => {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of expression) {
+    if (ch === '(' || ch === '[' || ch === '<') depth++;
+    if (ch === ')' || ch === ']' || ch === '>') depth--;
+    if (ch === ',' && depth === 0) {
+      args.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  args.push(current);
+  return args;
+};
+
+const parseStep = (step: string): number => {
+  const hardened = step.endsWith("'") || step.endsWith('h');
+  const index = Number(hardened ? step.slice(0, -1) : step);
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Invalid derivation step "${step}"`);
+  }
+  return hardened ? index + HARDENED_OFFSET : index;
+};
+
+const getKeyNetwork = (key: string): BitcoinNetwork | null => {
+  if (key.startsWith('xpub')) return 'mainnet';
+  if (key.startsWith('tpub')) return 'testnet';
+  return null;
+};
+
+const parseKeyExpression = (raw: string): DescriptorKey => {
+  let rest = raw;
+  let origin: DescriptorKey['origin'] = null;
+
+  if (rest.startsWith('[')) {
+    const end = rest.indexOf(']');
+    if (end === -1) throw new Error(`Unterminated key origin in "${raw}"`);
+    const [fingerprint, ...path] = rest.slice(1, end).split('/');
+    if (!/^[0-9a-fA-F]{8}$/.test(fingerprint)) {
+      throw new Error(`Invalid key origin fingerprint "${fingerprint}"`);
+    }
+    path.forEach(parseStep);
+    origin = {
+      fingerprint: fingerprint.toLowerCase(),
+      path: ['m', ...path].join('/')
+    };
+    rest = rest.slice(end + 1);
+  }
+
+  const [key, ...pathParts] = rest.split('/');
+
+  if (/^[xt]prv/.test(key)) {
+    throw new Error('Private keys are not accepted: import is watch-only, use the xpub/tpub instead');
+  }
+
+  const isExtended = getKeyNetwork(key) !== null;
+  if (!isExtended) {
+    if (!/^([0-9a-fA-F]{64}|[0-9a-fA-F]{66}|[0-9a-fA-F]{130})$/.test(key)) {
+      throw new Error(`Unsupported key "${key}"`);
+    }
+    if (pathParts.length > 0) {
+      throw new Error(`Derivation steps are only allowed after an extended key ("${raw}")`);
+    }
+  }
+
+  const steps: number[] = [];
+  let multipath: number[] | null = null;
+  let wildcard = false;
+
+  pathParts.forEach((part, i) => {
+    const isLast = i === pathParts.length - 1;
+    if (part === '*') {
+      if (!isLast) throw new Error(`Wildcard must be the last step in "${raw}"`);
+      wildcard = true;
+    } else if (part === "*'" || part === '*h') {
+      throw new Error('Hardened wildcards require private keys and cannot be watched');
+    } else if (part.startsWith('<') && part.endsWith('>')) {
+      if (multipath) throw new Error(`Only one multipath step is allowed in "${raw}"`);
+      multipath = part.slice(1, -1).split(';').map(parseStep);
+      steps.push(MULTIPATH_STEP);
+    } else {
+      const step = parseStep(part);
+      if (step >= HARDENED_OFFSET) {
+        throw new Error('Hardened derivation after an xpub requires private keys');
+      }
+      steps.push(step);
+    }
+  });
+
+  if (multipath && multipath.some(step => step >= HARDENED_OFFSET)) {
+    throw new Error('Hardened multipath steps require private keys');
+  }
+
+  return { raw, origin, key, isExtended, steps, multipath, wildcard };
+};
+
+const parseMulti = (expression: string): { threshold: number; sorted: boolean; keys: DescriptorKey[] } | null => {
+  const sortedInner = unwrap(expression, 'sortedmulti');
+  const inner = sortedInner ?? unwrap(expression, 'multi');
+  if (inner === null) return null;
+
+  const [thresholdStr, ...keyExpressions] = splitArguments(inner);
+  const threshold = Number(thresholdStr);
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > keyExpressions.length) {
+    throw new Error(`Invalid multisig threshold "${thresholdStr}"`);
+  }
+  if (keyExpressions.length > 16) {
+    throw new Error('Multisig descriptors with more than 16 keys are not supported');
+  }
+
+  return {
+    threshold,
+    sorted: sortedInner !== null,
+    keys: keyExpressions.map(parseKeyExpression)
+  };
+};
+
+const SCRIPT_TYPES: Record<DescriptorType, ScriptType> = {
+  'pkh': 'p2pkh',
+  'wpkh': 'p2wpkh',
+  'sh-wpkh': 'p2sh',
+  'tr': 'p2tr',
+  'sh-multi': 'p2sh',
+  'wsh-multi': 'p2wsh',
+  'sh-wsh-multi': 'p2sh',
+};
+
+/**
+ * Parses a BIP380 output descriptor. A trailing "#checksum" is verified when present.
+ * Supports pkh, wpkh, sh(wpkh), tr (key path only), and sh/wsh/sh(wsh) multi and sortedmulti.
+ */
+export const parseDescriptor = (input: string): ParsedDescriptor => {
+  const trimmed = input.trim();
+  const [descriptor, providedChecksum, ...extra] = trimmed.split('#');
+
+  if (extra.length > 0) throw new Error('Descriptor contains more than one "#"');
+
+  const checksum = getDescriptorChecksum(descriptor);
+  if (providedChecksum !== undefined && providedChecksum !== checksum) {
+    throw new Error(`Invalid descriptor checksum: expected #${checksum}`);
+  }
+
+  let type: DescriptorType;
+  let keys: DescriptorKey[];
+  let threshold: number | null = null;
+  let sorted = false;
+
+  const shInner = unwrap(descriptor, 'sh');
+  const wshInner = unwrap(descriptor, 'wsh');
+  const shWshInner = shInner !== null ? unwrap(shInner, 'wsh') : null;
+  const shWpkhInner = shInner !== null ? unwrap(shInner, 'wpkh') : null;
+
+  const multi =
+    (shWshInner !== null && parseMulti(shWshInner)) ||
+    (wshInner !== null && parseMulti(wshInner)) ||
+    (shInner !== null && parseMulti(shInner)) ||
+    null;
+
+  if (unwrap(descriptor, 'pkh') !== null) {
+    type = 'pkh';
+    keys = [parseKeyExpression(unwrap(descriptor, 'pkh')!)];
+  } else if (unwrap(descriptor, 'wpkh') !== null) {
+    type = 'wpkh';
+    keys = [parseKeyExpression(unwrap(descriptor, 'wpkh')!)];
+  } else if (shWpkhInner !== null) {
+    type = 'sh-wpkh';
+    keys = [parseKeyExpression(shWpkhInner)];
+  } else if (unwrap(descriptor, 'tr') !== null) {
+    const args = splitArguments(unwrap(descriptor, 'tr')!);
+    if (args.length > 1) {
+      throw new Error('Taproot descriptors with script trees are not supported yet');
+    }
+    type = 'tr';
+    keys = [parseKeyExpression(args[0])];
+  } else if (multi) {
+    type = shWshInner !== null ? 'sh-wsh-multi' : wshInner !== null ? 'wsh-multi' : 'sh-multi';
+    keys = multi.keys;
+    threshold = multi.threshold;
+    sorted = multi.sorted;
+  } else {
+    throw new Error('Unsupported descriptor. Expected pkh, wpkh, sh(wpkh), tr, or a multi/sortedmulti script');
+  }
+
+  // Check key formats allowed by each context
+  keys.forEach(key => {
+    if (key.isExtended) return;
+    if (type === 'tr' && key.key.length === 130) {
+      throw new Error('Uncompressed keys are not allowed in tr()');
+    }
+    if (type !== 'tr' && key.key.length === 64) {
+      throw new Error('X-only keys are only allowed in tr()');
+    }
+    if ((type === 'wpkh' || type === 'sh-wpkh' || type === 'wsh-multi' || type === 'sh-wsh-multi') && key.key.length === 130) {
+      throw new Error('Uncompressed keys are not allowed in segwit descriptors');
+    }
+  });
+
+  const networks = new Set(keys.map(key => getKeyNetwork(key.key)).filter(Boolean));
+  if (networks.size > 1) {
+    throw new Error('Descriptor mixes mainnet and testnet keys');
+  }
+  const network: BitcoinNetwork = networks.size === 1 ? [...networks][0]! : 'mainnet';
+
+  return {
+    descriptor,
+    checksum,
+    type,
+    scriptType: SCRIPT_TYPES[type],
+    network,
+    keys,
+    threshold,
+    sorted,
+    isRanged: keys.some(key => key.wildcard)
+  };
+};
+
+/**
+ * Resolves the unhardened path below the extended key for a given chain/index.
+ * Returns null when the key has no path for the requested chain.
+ */
+const resolveKeyPath = (key: DescriptorKey, chain: 0 | 1, index: number): number[] | null => {
+  let steps = [...key.steps];
+
+  if (key.multipath) {
+    if (chain >= key.multipath.length) return null;
+    steps = steps.map(step => step === MULTIPATH_STEP ? key.multipath![chain] : step);
+  } else if (chain === 1) {
+    // By convention "/0/*" is the receive chain, so "/1/*" is its change chain
+    if (!key.wildcard || steps[steps.length - 1] !== 0) return null;
+    steps[steps.length - 1] = 1;
+  }
+
+  return key.wildcard ? [...steps, index] : steps;
+};
+
+const derivePublicKey = (key: DescriptorKey, chain: 0 | 1, index: number): Uint8Array | null => {
+  if (!key.isExtended) {
+    return chain === 0 ? hexToBytes(key.key) : null;
+  }
+
+  const path = resolveKeyPath(key, chain, index);
+  if (!path) return null;
+
+  const network = getKeyNetwork(key.key) === 'testnet' ? 'testnet' : 'mainnet';
+  let node = HDKey.fromExtendedKey(key.key, EXTENDED_KEY_VERSIONS[network]);
+  path.forEach(step => {
+    node = node.deriveChild(step);
+  });
+  return node.publicKey;
+};
+
+// BIP341 key-path-only output key: Q = P + H_TapTweak(P)G
+export const taprootTweakPublicKey = (publicKey: Uint8Array): Uint8Array => {
+  const xOnly = publicKey.length === 33 ? publicKey.slice(1) : publicKey;
+  const tweak = schnorr.utils.taggedHash('TapTweak', xOnly);
+  const point = schnorr.utils.lift_x(BigInt(`0x${bytesToHex(xOnly)}`));
+  const tweaked = point.add(secp256k1.ProjectivePoint.BASE.multiply(BigInt(`0x${bytesToHex(tweak)}`)));
+  return schnorr.utils.pointToBytes(tweaked);
+};
+
+const encodeSmallInt = (n: number): number => n === 0 ? 0x00 : 0x50 + n;
+
+const buildMultisigScript = (threshold: number, publicKeys: Uint8Array[], sorted: boolean): Uint8Array => {
+  const keys = sorted
+    ? [...publicKeys].sort((a, b) => bytesToHex(a).localeCompare(bytesToHex(b)))
+    : publicKeys;
+
+  return concatBytes(
+    new Uint8Array([encodeSmallInt(threshold)]),
+    ...keys.map(key => concatBytes(new Uint8Array([key.length]), key)),
+    new Uint8Array([encodeSmallInt(keys.length), 0xae]) // OP_CHECKMULTISIG
+  );
+};
+
+const deriveAddressAt = (parsed: ParsedDescriptor, chain: 0 | 1, index: number): DerivedAddress | null => {
+  const publicKeys = parsed.keys.map(key => derivePublicKey(key, chain, index));
+  if (publicKeys.some(key => key === null)) return null;
+
+  let program: Uint8Array;
+  switch (parsed.type) {
+    case 'pkh':
+    case 'wpkh':
+      program = hash160(publicKeys[0]!);
+      break;
+    case 'sh-wpkh':
+      program = hash160(buildScriptPubKey('p2wpkh', hash160(publicKeys[0]!)));
+      break;
+    case 'tr':
+      program = taprootTweakPublicKey(publicKeys[0]!);
+      break;
+    case 'sh-multi':
+      program = hash160(buildMultisigScript(parsed.threshold!, publicKeys, parsed.sorted));
+      break;
+    case 'wsh-multi':
+      program = sha256(buildMultisigScript(parsed.threshold!, publicKeys, parsed.sorted));
+      break;
+    case 'sh-wsh-multi': {
+      const witnessScript = buildMultisigScript(parsed.threshold!, publicKeys, parsed.sorted);
+      program = hash160(buildScriptPubKey('p2wsh', sha256(witnessScript)));
+      break;
+    }
+  }
+
+  return {
+    address: encodeAddress(parsed.scriptType, program, parsed.network),
+    scriptPubKey: bytesToHex(buildScriptPubKey(parsed.scriptType, program)),
+    chain,
+    index
+  };
+};
+
+/**
+ * Derives addresses for one chain (0 = receive, 1 = change) of a parsed descriptor.
+ * Non-ranged descriptors yield a single receive address.
+ */
+export const deriveDescriptorAddresses = (
+  parsed: ParsedDescriptor,
+  chain: 0 | 1,
+  start: number,
+  count: number
+): DerivedAddress[] => {
+  if (!parsed.isRanged) {
+    const single = chain === 0 && start === 0 ? deriveAddressAt(parsed, 0, 0) : null;
+    return single ? [single] : [];
+  }
+
+  const addresses: DerivedAddress[] = [];
+  for (let index = start; index < start + count; index++) {
+    const derived = deriveAddressAt(parsed, chain, index);
+    if (!derived) break;
+    addresses.push(derived);
+  }
+  return addresses;
+};
+
+export interface DescriptorImportOptions {
+  name?: string;
+  start?: number;
+  receiveCount?: number;
+  changeCount?: number;
+}
+
+/**
+ * Builds a watch-only wallet from a descriptor. The wallet has no UTXOs until
+ * it is synced against a chain backend; it only carries the derived addresses.
+ */
+export const descriptorToWalletData = (
+  input: string,
+  { name, start = 0, receiveCount = 20, changeCount = 20 }: DescriptorImportOptions = {}
+): WalletData => {
+  const parsed = parseDescriptor(input);
+
+  const addresses = [
+    ...deriveDescriptorAddresses(parsed, 0, start, receiveCount),
+    ...deriveDescriptorAddresses(parsed, 1, start, changeCount)
+  ];
+
+  return {
+    name: name || `${parsed.type} descriptor wallet`,
+    totalBalance: 0,
+    utxos: [],
+    watchOnly: true,
+    addresses,
+    source: {
+      type: 'descriptor',
+      importedAt: new Date().toISOString(),
+      descriptor: `${parsed.descriptor}#${parsed.checksum}`,
+      network: parsed.network
+    }
+  };
+};
@@ -0,0 +1,167 @@
+import { UTXO, WalletData } from "@/types/utxo";
+import { AuditEntry, AuditSource, EditHistory, UTXODeletion, UTXOEditCommand, UTXOFieldEdit } from "@/types/history";
+import { formatTxid, getOutpoint } from "@/utils/utxo-utils";
+import { calculateBalance } from "@/utils/lifecycle-utils";
+
+// Older commands are dropped once the history grows past this
+export const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+export const describeOutpoint = (utxo: Pick<UTXO, 'txid' | 'vout'>) => `${formatTxid(utxo.txid, 4)}:${utxo.vout}`;
+
+const createCommandBase = (label: string, walletId: string, utxo: UTXO, index: number) => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  label,
+  walletId,
+  outpoint: getOutpoint(utxo),
+  index,
+  timestamp: new Date().toISOString(),
+});
+
+const sameValue = (a: unknown, b: unknown) => Object.is(a, b) || JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Records the fields that differ between two versions of a coin. Returns null when nothing changed.
+ */
+export const createFieldEdit = (
+  kind: UTXOFieldEdit['kind'],
+  label: string,
+  walletId: string,
+  index: number,
+  before: UTXO,
+  after: UTXO
+): UTXOFieldEdit | null => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof UTXO)[]);
+  const changedBefore: Partial<UTXO> = {};
+  const changedAfter: Partial<UTXO> = {};
+
+  keys.forEach(key => {
+    if (sameValue(before[key], after[key])) return;
+    Object.assign(changedBefore, { [key]: before[key] });
+    Object.assign(changedAfter, { [key]: after[key] });
+  });
+
+  if (Object.keys(changedAfter).length === 0) return null;
+  return { ...createCommandBase(label, walletId, before, index), kind, before: changedBefore, after: changedAfter };
+};
+
+export const createDeletion = (label: string, walletId: string, index: number, utxo: UTXO): UTXODeletion => ({
+  ...createCommandBase(label, walletId, utxo, index),
+  kind: 'delete',
+  utxo,
+});
+
+const withUtxos = <T extends WalletData>(walletData: T, utxos: UTXO[]): T => ({
+  ...walletData,
+  utxos,
+  totalBalance: calculateBalance(utxos),
+});
+
+/**
+ * Applies a command to the wallet (redo) or reverts it (undo). Coins that no longer exist
+ * are skipped, so the result is the unchanged wallet when there is nothing to do.
+ */
+export const applyEditCommand = <T extends WalletData>(
+  walletData: T,
+  command: UTXOEditCommand,
+  direction: 'undo' | 'redo'
+): T => {
+  const index = walletData.utxos.findIndex(utxo => getOutpoint(utxo) === command.outpoint);
+
+  if (command.kind === 'delete') {
+    if (direction === 'redo') {
+      return index === -1 ? walletData : withUtxos(walletData, walletData.utxos.filter((_, i) => i !== index));
+    }
+    if (index !== -1) return walletData;
+    const utxos = [...walletData.utxos];
+    utxos.splice(Math.min(command.index, utxos.length), 0, command.utxo);
+    return withUtxos(walletData, utxos);
+  }
+
+  if (index === -1) return walletData;
+  const utxos = [...walletData.utxos];
+  utxos[index] = { ...utxos[index], ...(direction === 'undo' ? command.before : command.after) };
+  // Lifecycle edits move coins in and out of the balance
+  return withUtxos(walletData, utxos);
+};
+
+/**
+ * Journal entries for a command, one per changed field. Undo records the reverse change.
+ */
+export const createAuditEntries = (
+  command: UTXOEditCommand,
+  source: AuditSource,
+  direction: 'apply' | 'undo' = 'apply',
+  reason: string = command.label
+): AuditEntry[] => {
+  const timestamp = new Date().toISOString();
+  const undoing = direction === 'undo';
+
+  if (command.kind === 'delete') {
+    return [{
+      outpoint: command.outpoint,
+      field: 'deleted',
+      oldValue: undoing,
+      newValue: !undoing,
+      timestamp,
+      source,
+      reason,
+    }];
+  }
+
+  const from = undoing ? command.after : command.before;
+  const to = undoing ? command.before : command.after;
+  return (Object.keys(command.after) as (keyof UTXO)[]).map(field => ({
+    outpoint: command.outpoint,
+    field,
+    oldValue: from[field] ?? null,
+    newValue: to[field] ?? null,
+    timestamp,
+    source,
+    reason,
+  }));
+};
+
+/**
+ * Journal entries for the listed fields that differ between two versions of a coin
+ */
+export const createFieldAuditEntries = (
+  before: UTXO,
+  after: UTXO,
+  fields: (keyof UTXO)[],
+  source: AuditSource,
+  reason: string
+): AuditEntry[] => {
+  const timestamp = new Date().toISOString();
+  return fields
+    .filter(field => !sameValue(before[field] ?? null, after[field] ?? null))
+    .map(field => ({
+      outpoint: getOutpoint(before),
+      field,
+      oldValue: before[field] ?? null,
+      newValue: after[field] ?? null,
+      timestamp,
+      source,
+      reason,
+    }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Flat rows for a CSV export of the journal
+export const auditEntriesToRows = (entries: AuditEntry[]) =>
+  entries.map(entry => ({
+    timestamp: entry.timestamp,
+    outpoint: entry.outpoint,
+    field: entry.field,
+    oldValue: formatAuditValue(entry.oldValue),
+    newValue: formatAuditValue(entry.newValue),
+    source: entry.source,
+    reason: entry.reason,
+  }));
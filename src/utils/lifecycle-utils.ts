@@ -0,0 +1,81 @@
+import { UTXO, UTXOSpend, UTXOStatus } from "@/types/utxo";
+
+const SATS_PER_BTC = 100000000;
+
+export const UTXO_STATUS_LABELS: Record<UTXOStatus, string> = {
+  'unspent': 'Unspent',
+  'pending-spend': 'Pending spend',
+  'spent': 'Spent',
+  'abandoned': 'Abandoned',
+};
+
+export const getUtxoStatus = (utxo: Pick<UTXO, 'status'>): UTXOStatus => utxo.status ?? 'unspent';
+
+// Coins still held: unspent, or spent by a transaction that hasn't confirmed yet
+export const isHeldUtxo = (utxo: Pick<UTXO, 'status'>) => {
+  const status = getUtxoStatus(utxo);
+  return status === 'unspent' || status === 'pending-spend';
+};
+
+export const calculateBalance = (utxos: UTXO[]) =>
+  utxos.filter(isHeldUtxo).reduce((sum, utxo) => sum + utxo.amount, 0);
+
+/**
+ * Proceeds minus the coin's share of the spending fee minus its cost basis. The fee is valued
+ * at the same price as the proceeds. Null until both proceeds and cost basis are known.
+ */
+export const calculateRealizedGain = (
+  utxo: Pick<UTXO, 'amount' | 'acquisitionFiatValue' | 'disposalFiatValue' | 'spend'>
+): number | null => {
+  if (utxo.disposalFiatValue === null || utxo.acquisitionFiatValue === null) return null;
+  const feeShare = utxo.spend?.feeShare ?? 0;
+  const feeFiat = utxo.amount > 0 ? feeShare * (utxo.disposalFiatValue / utxo.amount) : 0;
+  return utxo.disposalFiatValue - feeFiat - utxo.acquisitionFiatValue;
+};
+
+/**
+ * This coin's part of a transaction fee, split by input value. Inputs of unknown value
+ * make the split even instead.
+ */
+export const calculateFeeShare = (
+  fee: number | null, // In satoshis
+  inputValues: (number | null)[], // In satoshis
+  amount: number // In BTC
+): number | null => {
+  if (fee === null || inputValues.length === 0) return null;
+  const total = inputValues.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+  if (inputValues.some(value => value === null) || total === 0) {
+    return fee / inputValues.length / SATS_PER_BTC;
+  }
+  return (fee * Math.round(amount * SATS_PER_BTC) / total) / SATS_PER_BTC;
+};
+
+export interface LifecycleDetails {
+  spend: UTXOSpend;
+  disposalFiatValue: number | null; // Proceeds in the selected currency
+}
+
+/**
+ * Moves a coin to another lifecycle state and fills in the disposal fields tax reports read.
+ * Abandoning a coin disposes of it for nothing today; marking it unspent clears every spend field.
+ */
+export const applyUtxoLifecycle = (utxo: UTXO, status: UTXOStatus, details?: LifecycleDetails): UTXO => {
+  if (status === 'unspent') {
+    return { ...utxo, status, spend: null, disposalDate: null, disposalFiatValue: null, realizedGainFiat: null };
+  }
+
+  if (status === 'abandoned') {
+    const abandoned = { ...utxo, status, spend: null, disposalDate: new Date().toISOString(), disposalFiatValue: 0 };
+    return { ...abandoned, realizedGainFiat: calculateRealizedGain(abandoned) };
+  }
+
+  const spend = details?.spend ?? utxo.spend ?? { txid: null, date: null, feeShare: null };
+  const spent = {
+    ...utxo,
+    status,
+    spend,
+    disposalDate: spend.date,
+    disposalFiatValue: details ? details.disposalFiatValue : utxo.disposalFiatValue,
+  };
+  return { ...spent, realizedGainFiat: calculateRealizedGain(spent) };
+};
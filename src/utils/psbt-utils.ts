@@ -0,0 +1,343 @@
+import { base64 } from "@scure/base";
+import { BitcoinNetwork, ScriptType } from "@/types/bitcoin";
+import { Transaction, UTXO, WalletData } from "@/types/utxo";
+import { bytesToHex, hexToBytes, scriptPubKeyToAddress } from "@/utils/address-utils";
+import { getTransactionId, parseRawTransaction, RawTransaction } from "@/utils/transaction-utils";
+
+// "psbt" followed by 0xff
+const PSBT_MAGIC = [0x70, 0x73, 0x62, 0x74, 0xff];
+const HARDENED_OFFSET = 0x80000000;
+
+// BIP174 key types we read (global, input and output maps number them independently)
+const PSBT_GLOBAL_UNSIGNED_TX = 0x00;
+const PSBT_GLOBAL_VERSION = 0xfb;
+const PSBT_IN_NON_WITNESS_UTXO = 0x00;
+const PSBT_IN_WITNESS_UTXO = 0x01;
+const PSBT_IN_PARTIAL_SIG = 0x02;
+const PSBT_IN_SIGHASH_TYPE = 0x03;
+const PSBT_IN_BIP32_DERIVATION = 0x06;
+const PSBT_IN_FINAL_SCRIPTSIG = 0x07;
+const PSBT_IN_FINAL_SCRIPTWITNESS = 0x08;
+const PSBT_IN_TAP_KEY_SIG = 0x13;
+const PSBT_IN_TAP_BIP32_DERIVATION = 0x16;
+const PSBT_OUT_BIP32_DERIVATION = 0x02;
+const PSBT_OUT_TAP_BIP32_DERIVATION = 0x07;
+
+export interface PsbtDerivation {
+  pubkey: string; // hex, 33 bytes (or 32-byte x-only for taproot)
+  fingerprint: string; // Master key fingerprint, hex
+  path: string; // e.g. m/84'/0'/0'/0/3
+}
+
+export interface PsbtInput {
+  txid: string;
+  vout: number;
+  sequence: number;
+  value: number | null; // In satoshis, when the PSBT carries the spent output
+  scriptPubKey: string | null;
+  address: string | null;
+  scriptType: ScriptType | null;
+  utxoSource: 'witness_utxo' | 'non_witness_utxo' | null;
+  derivations: PsbtDerivation[];
+  sighashType: number | null;
+  signed: boolean; // Has a partial or final signature
+}
+
+export interface PsbtOutput {
+  value: number; // In satoshis
+  scriptPubKey: string;
+  address: string | null; // Null for OP_RETURN and other non-standard scripts
+  derivations: PsbtDerivation[]; // Present when the output pays back to a signer's wallet
+}
+
+export interface DecodedPsbt {
+  txid: string;
+  version: number;
+  locktime: number;
+  network: BitcoinNetwork;
+  inputs: PsbtInput[];
+  outputs: PsbtOutput[];
+  fee: number | null; // In satoshis, null when an input value is unknown
+}
+
+interface PsbtMap {
+  entries: { keyType: number; keyData: Uint8Array; value: Uint8Array }[];
+}
+
+const startsWithMagic = (bytes: Uint8Array) => PSBT_MAGIC.every((byte, i) => bytes[i] === byte);
+
+/**
+ * Turns pasted or uploaded PSBT content (binary, base64 or hex) into bytes
+ */
+export const psbtToBytes = (input: string | Uint8Array): Uint8Array => {
+  if (input instanceof Uint8Array) {
+    if (startsWithMagic(input)) return input;
+    // Uploaded files are often base64 text rather than binary
+    return psbtToBytes(new TextDecoder().decode(input));
+  }
+
+  const trimmed = input.replace(/\s+/g, '');
+  let bytes: Uint8Array;
+  try {
+    bytes = /^[0-9a-fA-F]+$/.test(trimmed) && trimmed.startsWith('70736274')
+      ? hexToBytes(trimmed)
+      : base64.decode(trimmed);
+  } catch {
+    throw new Error('PSBT must be base64, hex or a binary .psbt file');
+  }
+
+  if (!startsWithMagic(bytes)) throw new Error('Not a PSBT (missing psbt magic bytes)');
+  return bytes;
+};
+
+export const psbtToBase64 = (input: string | Uint8Array): string => base64.encode(psbtToBytes(input));
+
+// Reads the key-value maps that follow the magic bytes
+const readMaps = (bytes: Uint8Array): PsbtMap[] => {
+  let offset = PSBT_MAGIC.length;
+
+  const readVarInt = (): number => {
+    if (offset >= bytes.length) throw new Error('Unexpected end of PSBT data');
+    const first = bytes[offset++];
+    if (first < 0xfd) return first;
+    const size = first === 0xfd ? 2 : first === 0xfe ? 4 : 8;
+    let value = 0;
+    for (let i = 0; i < size; i++) value += bytes[offset + i] * 2 ** (8 * i);
+    offset += size;
+    return value;
+  };
+
+  const take = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) throw new Error('Unexpected end of PSBT data');
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+
+  const maps: PsbtMap[] = [];
+  while (offset < bytes.length) {
+    const map: PsbtMap = { entries: [] };
+    for (;;) {
+      const keyLength = readVarInt();
+      if (keyLength === 0) break; // Separator ends the map
+      const key = take(keyLength);
+      const value = take(readVarInt());
+      map.entries.push({ keyType: key[0], keyData: key.slice(1), value });
+    }
+    maps.push(map);
+  }
+  return maps;
+};
+
+const readUInt32LE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+// Fingerprint followed by little-endian path elements
+const parseKeyOrigin = (pubkey: Uint8Array, origin: Uint8Array): PsbtDerivation => {
+  if (origin.length < 4 || origin.length % 4 !== 0) throw new Error('Invalid BIP32 derivation in PSBT');
+
+  const steps: string[] = [];
+  for (let offset = 4; offset < origin.length; offset += 4) {
+    const index = readUInt32LE(origin, offset);
+    steps.push(index >= HARDENED_OFFSET ? `${index - HARDENED_OFFSET}'` : String(index));
+  }
+  return {
+    pubkey: bytesToHex(pubkey),
+    fingerprint: bytesToHex(origin.slice(0, 4)),
+    path: ['m', ...steps].join('/'),
+  };
+};
+
+// Taproot derivations prefix the origin with the leaf hashes the key is used in
+const parseTapKeyOrigin = (pubkey: Uint8Array, value: Uint8Array): PsbtDerivation => {
+  const leafCount = value[0];
+  if (leafCount >= 0xfd) throw new Error('Too many taproot leaf hashes in PSBT');
+  return parseKeyOrigin(pubkey, value.slice(1 + leafCount * 32));
+};
+
+const readDerivations = (map: PsbtMap, keyType: number, tapKeyType: number): PsbtDerivation[] =>
+  map.entries
+    .filter(entry => entry.keyType === keyType || entry.keyType === tapKeyType)
+    .map(entry => entry.keyType === keyType
+      ? parseKeyOrigin(entry.keyData, entry.value)
+      : parseTapKeyOrigin(entry.keyData, entry.value));
+
+// A serialized transaction output: 8-byte value and a length-prefixed script
+const parseTxOut = (bytes: Uint8Array): { value: number; scriptPubKey: string } => {
+  const value = readUInt32LE(bytes, 0) + readUInt32LE(bytes, 4) * 0x100000000;
+  const scriptLength = bytes[8];
+  if (scriptLength >= 0xfd || bytes.length !== 9 + scriptLength) {
+    throw new Error('Invalid witness_utxo in PSBT');
+  }
+  return { value, scriptPubKey: bytesToHex(bytes.slice(9)) };
+};
+
+const findValue = (map: PsbtMap, keyType: number) => map.entries.find(entry => entry.keyType === keyType)?.value;
+
+// Derivation paths carry the BIP44 coin type: 1' means a test network
+const guessNetwork = (derivations: PsbtDerivation[]): BitcoinNetwork =>
+  derivations.some(derivation => derivation.path.split('/')[2] === "1'") ? 'testnet' : 'mainnet';
+
+/**
+ * Decodes a BIP174 (version 0) PSBT: the unsigned transaction, what each input spends,
+ * BIP32 derivation paths and outputs. Throws on malformed or unsupported PSBTs.
+ */
+export const decodePsbt = (input: string | Uint8Array): DecodedPsbt => {
+  const maps = readMaps(psbtToBytes(input));
+  const [globalMap, ...rest] = maps;
+  if (!globalMap) throw new Error('PSBT has no global map');
+
+  const version = findValue(globalMap, PSBT_GLOBAL_VERSION);
+  if (version && readUInt32LE(version, 0) !== 0) {
+    throw new Error('Only PSBT version 0 is supported');
+  }
+
+  const unsignedTxBytes = findValue(globalMap, PSBT_GLOBAL_UNSIGNED_TX);
+  if (!unsignedTxBytes) throw new Error('PSBT is missing its unsigned transaction');
+  const tx: RawTransaction = parseRawTransaction(bytesToHex(unsignedTxBytes));
+
+  if (rest.length < tx.inputs.length + tx.outputs.length) {
+    throw new Error('PSBT has fewer input/output maps than its transaction');
+  }
+  const inputMaps = rest.slice(0, tx.inputs.length);
+  const outputMaps = rest.slice(tx.inputs.length, tx.inputs.length + tx.outputs.length);
+
+  const network = guessNetwork([
+    ...inputMaps.flatMap(map => readDerivations(map, PSBT_IN_BIP32_DERIVATION, PSBT_IN_TAP_BIP32_DERIVATION)),
+    ...outputMaps.flatMap(map => readDerivations(map, PSBT_OUT_BIP32_DERIVATION, PSBT_OUT_TAP_BIP32_DERIVATION)),
+  ]);
+
+  const inputs = tx.inputs.map((txInput, index): PsbtInput => {
+    const map = inputMaps[index];
+    let spent: { value: number; scriptPubKey: string } | null = null;
+    let utxoSource: PsbtInput['utxoSource'] = null;
+
+    const witnessUtxo = findValue(map, PSBT_IN_WITNESS_UTXO);
+    const nonWitnessUtxo = findValue(map, PSBT_IN_NON_WITNESS_UTXO);
+    if (nonWitnessUtxo) {
+      const prevTx = parseRawTransaction(bytesToHex(nonWitnessUtxo));
+      // BIP174 requires the full previous transaction to match the outpoint it claims
+      if (getTransactionId(prevTx) !== txInput.txid) {
+        throw new Error(`Input ${index} non_witness_utxo does not match its txid`);
+      }
+      const prevOut = prevTx.outputs[txInput.vout];
+      if (!prevOut) throw new Error(`Input ${index} spends a missing output`);
+      spent = prevOut;
+      utxoSource = 'non_witness_utxo';
+    } else if (witnessUtxo) {
+      spent = parseTxOut(witnessUtxo);
+      utxoSource = 'witness_utxo';
+    }
+
+    const decodedScript = spent ? scriptPubKeyToAddress(spent.scriptPubKey, network) : null;
+    const sighash = findValue(map, PSBT_IN_SIGHASH_TYPE);
+    const signed = map.entries.some(entry => [
+      PSBT_IN_PARTIAL_SIG,
+      PSBT_IN_FINAL_SCRIPTSIG,
+      PSBT_IN_FINAL_SCRIPTWITNESS,
+      PSBT_IN_TAP_KEY_SIG,
+    ].includes(entry.keyType));
+
+    return {
+      txid: txInput.txid,
+      vout: txInput.vout,
+      sequence: txInput.sequence,
+      value: spent?.value ?? null,
+      scriptPubKey: spent?.scriptPubKey ?? null,
+      address: decodedScript?.address ?? null,
+      scriptType: decodedScript?.scriptType ?? null,
+      utxoSource,
+      derivations: readDerivations(map, PSBT_IN_BIP32_DERIVATION, PSBT_IN_TAP_BIP32_DERIVATION),
+      sighashType: sighash ? readUInt32LE(sighash, 0) : null,
+      signed,
+    };
+  });
+
+  const outputs = tx.outputs.map((txOutput, index): PsbtOutput => ({
+    value: txOutput.value,
+    scriptPubKey: txOutput.scriptPubKey,
+    address: scriptPubKeyToAddress(txOutput.scriptPubKey, network)?.address ?? null,
+    derivations: readDerivations(outputMaps[index], PSBT_OUT_BIP32_DERIVATION, PSBT_OUT_TAP_BIP32_DERIVATION),
+  }));
+
+  const inputTotal = inputs.every(input => input.value !== null)
+    ? inputs.reduce((sum, input) => sum + (input.value ?? 0), 0)
+    : null;
+  const outputTotal = outputs.reduce((sum, output) => sum + output.value, 0);
+
+  return {
+    txid: getTransactionId(tx),
+    version: tx.version,
+    locktime: tx.locktime,
+    network,
+    inputs,
+    outputs,
+    fee: inputTotal !== null ? inputTotal - outputTotal : null,
+  };
+};
+
+/**
+ * Resolves PSBT inputs to UTXOs, preferring the wallet's own records (with their
+ * tags, notes and risk) and falling back to what the PSBT says about the output
+ */
+export const psbtInputsToUtxos = (psbt: DecodedPsbt, walletUtxos: UTXO[] = [], walletName?: string): UTXO[] =>
+  psbt.inputs.map(input => {
+    const known = walletUtxos.find(utxo => utxo.txid === input.txid && utxo.vout === input.vout);
+    if (known) return known;
+
+    const now = new Date().toISOString();
+    return {
+      txid: input.txid,
+      vout: input.vout,
+      address: input.address || '',
+      amount: (input.value ?? 0) / 100000000,
+      confirmations: 0,
+      scriptPubKey: input.scriptPubKey || '',
+      tags: [],
+      createdAt: now,
+      privacyRisk: 'medium',
+      acquisitionDate: null,
+      acquisitionFiatValue: null,
+      acquisitionBtcPrice: null,
+      disposalDate: null,
+      disposalFiatValue: null,
+      realizedGainFiat: null,
+      costAutoPopulated: false,
+      notes: input.derivations[0] ? `PSBT input (${input.derivations[0].path})` : 'PSBT input',
+      senderAddress: null,
+      receiverAddress: input.address,
+      walletName
+    };
+  });
+
+/**
+ * Shows a decoded PSBT as the app's Transaction shape. Risk fields start neutral;
+ * the caller fills them in from calculateTransactionPrivacyRisk.
+ */
+export const psbtToTransaction = (psbt: DecodedPsbt, inputs: UTXO[]): Transaction => ({
+  id: psbt.txid,
+  inputs,
+  outputs: psbt.outputs.map(output => ({
+    address: output.address || `script:${output.scriptPubKey}`,
+    amount: output.value / 100000000,
+  })),
+  fee: (psbt.fee ?? 0) / 100000000,
+  timestamp: new Date().toISOString(),
+  privacyRisk: 'low',
+  reasons: [],
+});
+
+/**
+ * Watch-only wallet holding just the PSBT's inputs, for analyzing a PSBT with no wallet loaded
+ */
+export const psbtToWalletData = (psbt: DecodedPsbt): WalletData => {
+  const name = `PSBT ${psbt.txid.substring(0, 8)}`;
+  const utxos = psbtInputsToUtxos(psbt, [], name);
+  return {
+    name,
+    totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+    utxos,
+    watchOnly: true,
+    source: { type: 'psbt', importedAt: new Date().toISOString(), network: psbt.network }
+  };
+};
@@ -0,0 +1,201 @@
+import { OutputScriptType } from "@/types/bitcoin";
+import { RiskAssessment, RiskFactor, RiskSignal } from "@/types/risk";
+import { UTXO, WalletData } from "@/types/utxo";
+import { getScriptTypeLabel } from "@/utils/script-utils";
+import { getOutpoint } from "@/utils/utxo-utils";
+import { describeOutpoint } from "@/utils/history-utils";
+import { isHeldUtxo } from "@/utils/lifecycle-utils";
+
+const SATS_PER_BTC = 100000000;
+
+// Outputs at or below this are too small to spend economically and often sent to track a wallet
+export const DUST_THRESHOLD_SATS = 1000;
+
+// Scores at or above these are medium and high risk
+export const MEDIUM_RISK_SCORE = 25;
+export const HIGH_RISK_SCORE = 50;
+
+export const RISK_SIGNAL_LABELS: Record<RiskSignal, string> = {
+  'address-reuse': 'Address reuse',
+  'round-amount': 'Round amount',
+  'kyc-source': 'KYC source',
+  'unmixed-change': 'Unmixed change',
+  'script-mismatch': 'Script type mismatch',
+  'dust': 'Dust',
+  'linked-coins': 'Linked coins',
+};
+
+// Tags saying where coins came from. "No KYC" tags name a private source, not a KYC one.
+const KYC_TAG = /kyc|exchange|coinbase|kraken|binance|bitstamp|gemini|bitfinex/i;
+const NON_KYC_TAG = /\bno[\s-]?kyc\b|\bnon[\s-]?kyc\b/i;
+const MIXED_TAG = /coin\s?join|mixed|whirlpool|wasabi|joinmarket/i;
+const CHANGE_TAG = /\bchange\b/i;
+
+// What the engine needs to know about the rest of the wallet, counted once per wallet
+interface WalletRiskContext {
+  coinsByAddress: Map<string, UTXO[]>;
+  coinsByTxid: Map<string, UTXO[]>;
+  coinsBySender: Map<string, UTXO[]>;
+  changeAddresses: Set<string>;
+  dominantScriptType: OutputScriptType | null;
+}
+
+// 0.05 or 0.0015 BTC, but not 0.281: at most two significant digits, ending in at least 10,000 sats
+export const isRoundAmount = (sats: number) => {
+  if (sats <= DUST_THRESHOLD_SATS || sats % 10000 !== 0) return false;
+  return String(sats).replace(/0+$/, '').length <= 2;
+};
+
+const groupBy = (utxos: UTXO[], key: (utxo: UTXO) => string | null) => {
+  const groups = new Map<string, UTXO[]>();
+  utxos.forEach(utxo => {
+    const value = key(utxo);
+    if (value) groups.set(value, [...(groups.get(value) ?? []), utxo]);
+  });
+  return groups;
+};
+
+// The script type most coins use, once there are enough coins for a majority to mean something
+const findDominantScriptType = (utxos: UTXO[]): OutputScriptType | null => {
+  const groups = groupBy(utxos, utxo => utxo.scriptType ?? null);
+  const known = [...groups.values()].reduce((sum, group) => sum + group.length, 0);
+  if (known < 3) return null;
+  const [type, group] = [...groups.entries()].sort((a, b) => b[1].length - a[1].length)[0];
+  return group.length / known > 0.5 ? type as OutputScriptType : null;
+};
+
+// Other coins under the same key, without the coin itself
+const othersIn = (group: UTXO[] | undefined, utxo: UTXO) =>
+  (group ?? []).filter(other => getOutpoint(other) !== getOutpoint(utxo));
+
+// "ab12…cd34:0, ef56…7890:1 and 3 more"
+const listOutpoints = (utxos: UTXO[]) => {
+  const named = utxos.slice(0, 2).map(describeOutpoint).join(', ');
+  return utxos.length > 2 ? `${named} and ${utxos.length - 2} more` : named;
+};
+
+// Spent coins count too: an address that received coins before is reused whether or not they were spent
+const createRiskContext = (walletData: WalletData): WalletRiskContext => ({
+  coinsByAddress: groupBy(walletData.utxos, utxo => utxo.address || null),
+  coinsByTxid: groupBy(walletData.utxos, utxo => utxo.txid),
+  coinsBySender: groupBy(walletData.utxos, utxo => utxo.senderAddress),
+  changeAddresses: new Set((walletData.addresses ?? []).filter(address => address.chain === 1).map(address => address.address)),
+  dominantScriptType: findDominantScriptType(walletData.utxos),
+});
+
+export const getRiskLevel = (score: number): RiskAssessment['level'] => {
+  if (score >= HIGH_RISK_SCORE) return 'high';
+  if (score >= MEDIUM_RISK_SCORE) return 'medium';
+  return 'low';
+};
+
+const assessUtxo = (utxo: UTXO, context: WalletRiskContext): RiskAssessment => {
+  const factors: RiskFactor[] = [];
+  const sats = Math.round(utxo.amount * SATS_PER_BTC);
+
+  const sharingAddress = othersIn(context.coinsByAddress.get(utxo.address), utxo).length;
+  if (sharingAddress > 0) {
+    factors.push({
+      signal: 'address-reuse',
+      points: 25 + Math.min(15, (sharingAddress - 1) * 5),
+      detail: `Address shared with ${sharingAddress} other coin${sharingAddress === 1 ? '' : 's'}`,
+      remedy: 'Stop receiving to this address; spend its coins together or coinjoin them',
+    });
+  }
+
+  if (isRoundAmount(sats)) {
+    factors.push({
+      signal: 'round-amount',
+      points: 15,
+      detail: `Round amount of ${utxo.amount} BTC looks like a payment`,
+      remedy: "Spend alone so the payment isn't tied to your other coins",
+    });
+  }
+
+  const kycTag = utxo.tags.find(tag => KYC_TAG.test(tag) && !NON_KYC_TAG.test(tag));
+  if (kycTag) {
+    factors.push({
+      signal: 'kyc-source',
+      points: 35,
+      detail: `Tagged "${kycTag}": the source knows who received it`,
+      remedy: "Coinjoin this, and don't merge it with coins from private sources",
+    });
+  }
+
+  const isChange = context.changeAddresses.has(utxo.address) || utxo.tags.some(tag => CHANGE_TAG.test(tag));
+  const isMixed = (utxo.anonset ?? 1) > 1 || utxo.tags.some(tag => MIXED_TAG.test(tag));
+  if (isChange && !isMixed) {
+    factors.push({
+      signal: 'unmixed-change',
+      points: 15,
+      detail: 'Change from an ordinary spend links back to its inputs',
+      remedy: 'Coinjoin this before spending it',
+    });
+  }
+
+  if (context.dominantScriptType && utxo.scriptType && utxo.scriptType !== context.dominantScriptType) {
+    const dominant = getScriptTypeLabel(context.dominantScriptType);
+    factors.push({
+      signal: 'script-mismatch',
+      points: 15,
+      detail: `${getScriptTypeLabel(utxo.scriptType)} among mostly ${dominant} coins stands out`,
+      remedy: `Spend alone, or move it to a ${dominant} address on its own first`,
+    });
+  }
+
+  if (sats <= DUST_THRESHOLD_SATS) {
+    factors.push({
+      signal: 'dust',
+      points: 25,
+      detail: `${sats} sats is dust, possibly sent to track the wallet`,
+      remedy: "Don't spend it; abandon it so it never joins a transaction",
+    });
+  }
+
+  const linked = [
+    ...othersIn(context.coinsByTxid.get(utxo.txid), utxo),
+    ...(utxo.senderAddress ? othersIn(context.coinsBySender.get(utxo.senderAddress), utxo) : []),
+  ];
+  // A coin sharing both the transaction and the sender counts once
+  const unique = [...new Map(linked.map(other => [getOutpoint(other), other])).values()];
+  const links = unique.length;
+  if (links > 0) {
+    const held = unique.filter(isHeldUtxo);
+    factors.push({
+      signal: 'linked-coins',
+      points: Math.min(20, links * 5),
+      detail: `Linked to ${links} other wallet coin${links === 1 ? '' : 's'} by transaction or sender`,
+      remedy: held.length > 0
+        ? `Don't merge with ${listOutpoints(held)}; spending them together confirms they're yours`
+        : 'Spend it on its own; the coins it is linked to are already spent',
+    });
+  }
+
+  const score = Math.min(100, factors.reduce((sum, factor) => sum + factor.points, 0));
+  return { score, level: getRiskLevel(score), factors };
+};
+
+/**
+ * Scores every coin of a wallet against the rest of it, by outpoint
+ */
+export const assessWalletRisk = (walletData: WalletData): Map<string, RiskAssessment> => {
+  const context = createRiskContext(walletData);
+  return new Map(walletData.utxos.map(utxo => [getOutpoint(utxo), assessUtxo(utxo, context)]));
+};
+
+const sameFactors = (a: RiskFactor[] | undefined, b: RiskFactor[]) => JSON.stringify(a ?? []) === JSON.stringify(b);
+
+/**
+ * Stores each coin's risk score, level and factors on it, keeping the objects when nothing changes
+ */
+export const scoreWalletRisk = <T extends WalletData>(walletData: T): T => {
+  const context = createRiskContext(walletData);
+  let changed = false;
+  const utxos = walletData.utxos.map(utxo => {
+    const { score, level, factors } = assessUtxo(utxo, context);
+    if (utxo.riskScore === score && utxo.privacyRisk === level && sameFactors(utxo.riskFactors, factors)) return utxo;
+    changed = true;
+    return { ...utxo, riskScore: score, privacyRisk: level, riskFactors: factors };
+  });
+  return changed ? { ...walletData, utxos } : walletData;
+};
@@ -0,0 +1,98 @@
+import { BitcoinNetwork, OutputScriptType } from "@/types/bitcoin";
+import { UTXO, WalletData } from "@/types/utxo";
+import { addressToScriptPubKey, hexToBytes, scriptPubKeyToAddress, validateAddress } from "@/utils/address-utils";
+
+export const SCRIPT_TYPE_LABELS: Record<OutputScriptType, string> = {
+  p2pkh: 'Legacy (P2PKH)',
+  p2sh: 'Script hash (P2SH)',
+  p2wpkh: 'Native SegWit (P2WPKH)',
+  p2wsh: 'SegWit script (P2WSH)',
+  p2tr: 'Taproot (P2TR)',
+  p2pk: 'Pay to pubkey (P2PK)',
+  multisig: 'Bare multisig',
+  op_return: 'OP_RETURN',
+  nonstandard: 'Non-standard',
+};
+
+// Display order for grouping, newest script types first
+export const SCRIPT_TYPE_ORDER: OutputScriptType[] = [
+  'p2tr', 'p2wpkh', 'p2wsh', 'p2sh', 'p2pkh', 'p2pk', 'multisig', 'op_return', 'nonstandard',
+];
+
+export const getScriptTypeLabel = (scriptType?: OutputScriptType) =>
+  scriptType ? SCRIPT_TYPE_LABELS[scriptType] : 'Unknown';
+
+const isHexScript = (value: string) => value.length > 0 && /^([0-9a-f]{2})+$/i.test(value);
+
+/**
+ * Names the template of an output script, with the address when it has one
+ */
+export const classifyOutputScript = (
+  scriptHex: string,
+  network: BitcoinNetwork = 'mainnet'
+): { scriptType: OutputScriptType; address: string | null } => {
+  const standard = scriptPubKeyToAddress(scriptHex, network);
+  if (standard) return standard;
+
+  const script = hexToBytes(scriptHex);
+  if (script[0] === 0x6a) return { scriptType: 'op_return', address: null };
+  if ((script.length === 35 && script[0] === 0x21) || (script.length === 67 && script[0] === 0x41)) {
+    if (script[script.length - 1] === 0xac) return { scriptType: 'p2pk', address: null };
+  }
+  // OP_m <pubkeys> OP_n OP_CHECKMULTISIG
+  if (script.length > 3 && script[0] >= 0x51 && script[0] <= 0x60 && script[script.length - 1] === 0xae) {
+    return { scriptType: 'multisig', address: null };
+  }
+  return { scriptType: 'nonstandard', address: null };
+};
+
+/**
+ * Fills in a UTXO's script type from its scriptPubKey, or from its address when no script
+ * was recorded, and flags addresses that don't encode the scriptPubKey.
+ * Returns the same object when nothing changes.
+ */
+export const deriveUtxoScript = (utxo: UTXO, network: BitcoinNetwork = 'mainnet'): UTXO => {
+  const scriptHex = (utxo.scriptPubKey || '').trim().toLowerCase();
+  const addressCheck = validateAddress(utxo.address || '');
+
+  let { address, scriptPubKey } = utxo;
+  let scriptType: OutputScriptType | undefined;
+  let scriptMismatch = false;
+
+  if (isHexScript(scriptHex)) {
+    const parsed = classifyOutputScript(scriptHex, network);
+    scriptType = parsed.scriptType;
+    if (!address && parsed.address) {
+      address = parsed.address;
+    } else if (address) {
+      scriptMismatch = !addressCheck.valid || addressToScriptPubKey(address) !== scriptHex;
+    }
+  } else if (addressCheck.valid) {
+    scriptType = addressCheck.scriptType ?? undefined;
+    if (!scriptHex) scriptPubKey = addressToScriptPubKey(utxo.address);
+  }
+
+  if (
+    utxo.scriptType === scriptType &&
+    Boolean(utxo.scriptMismatch) === scriptMismatch &&
+    utxo.address === address &&
+    utxo.scriptPubKey === scriptPubKey
+  ) {
+    return utxo;
+  }
+  return { ...utxo, address, scriptPubKey, scriptType, scriptMismatch };
+};
+
+/**
+ * Runs deriveUtxoScript over every coin of a wallet, keeping the object when nothing changes
+ */
+export const deriveWalletScripts = <T extends WalletData>(walletData: T): T => {
+  const network = walletData.source?.network ?? 'mainnet';
+  let changed = false;
+  const utxos = walletData.utxos.map(utxo => {
+    const derived = deriveUtxoScript(utxo, network);
+    if (derived !== utxo) changed = true;
+    return derived;
+  });
+  return changed ? { ...walletData, utxos } : walletData;
+};
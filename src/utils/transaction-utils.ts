@@ -0,0 +1,319 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, concatBytes, hexToBytes } from "@/utils/address-utils";
+import { classifyOutputScript } from "@/utils/script-utils";
+import { BitcoinNetwork, OutputScriptType, ScriptType } from "@/types/bitcoin";
+
+export interface RawTxInput {
+  txid: string; // Previous output txid, display (big-endian) order
+  vout: number;
+  scriptSig: string; // hex
+  sequence: number;
+  witness: string[]; // hex items, empty for non-segwit inputs
+}
+
+export interface RawTxOutput {
+  value: number; // In satoshis
+  scriptPubKey: string; // hex
+}
+
+export interface RawTransaction {
+  version: number;
+  segwit: boolean;
+  inputs: RawTxInput[];
+  outputs: RawTxOutput[];
+  locktime: number;
+}
+
+// Sequential reader over the serialized transaction bytes
+const createReader = (bytes: Uint8Array) => {
+  let offset = 0;
+
+  const take = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new Error('Unexpected end of transaction data');
+    }
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+
+  const readUInt32 = (): number => {
+    const b = take(4);
+    return (b[0] | (b[1] << 8) | (b[2] << 16) | (b[3] << 24)) >>> 0;
+  };
+
+  const readUInt64 = (): number => {
+    const low = readUInt32();
+    const high = readUInt32();
+    return high * 0x100000000 + low;
+  };
+
+  const readVarInt = (): number => {
+    const [first] = take(1);
+    if (first < 0xfd) return first;
+    if (first === 0xfd) {
+      const b = take(2);
+      return b[0] | (b[1] << 8);
+    }
+    if (first === 0xfe) return readUInt32();
+    return readUInt64();
+  };
+
+  const readVarBytes = (): Uint8Array => take(readVarInt());
+
+  return {
+    take,
+    readUInt32,
+    readUInt64,
+    readVarInt,
+    readVarBytes,
+    peek: () => bytes[offset],
+    remaining: () => bytes.length - offset,
+  };
+};
+
+// Txids are serialized little-endian but displayed reversed
+export const reverseHex = (hex: string): string => bytesToHex(hexToBytes(hex).reverse());
+
+/**
+ * Parses a serialized transaction (legacy or BIP144 segwit) from hex.
+ * Throws if the data is malformed or has trailing bytes.
+ */
+export const parseRawTransaction = (hex: string): RawTransaction => {
+  const reader = createReader(hexToBytes(hex.trim()));
+  const version = reader.readUInt32();
+
+  // BIP144: a zero input count followed by flag 0x01 marks a segwit serialization
+  let segwit = false;
+  if (reader.peek() === 0x00) {
+    reader.take(1);
+    const [flag] = reader.take(1);
+    if (flag !== 0x01) throw new Error('Invalid segwit flag');
+    segwit = true;
+  }
+
+  const inputCount = reader.readVarInt();
+  const inputs: RawTxInput[] = [];
+  for (let i = 0; i < inputCount; i++) {
+    inputs.push({
+      txid: bytesToHex(reader.take(32).reverse()),
+      vout: reader.readUInt32(),
+      scriptSig: bytesToHex(reader.readVarBytes()),
+      sequence: reader.readUInt32(),
+      witness: [],
+    });
+  }
+
+  const outputCount = reader.readVarInt();
+  const outputs: RawTxOutput[] = [];
+  for (let i = 0; i < outputCount; i++) {
+    outputs.push({
+      value: reader.readUInt64(),
+      scriptPubKey: bytesToHex(reader.readVarBytes()),
+    });
+  }
+
+  if (segwit) {
+    inputs.forEach(input => {
+      const itemCount = reader.readVarInt();
+      for (let i = 0; i < itemCount; i++) {
+        input.witness.push(bytesToHex(reader.readVarBytes()));
+      }
+    });
+  }
+
+  const locktime = reader.readUInt32();
+  if (reader.remaining() !== 0) {
+    throw new Error('Unexpected trailing bytes after transaction');
+  }
+
+  return { version, segwit, inputs, outputs, locktime };
+};
+
+const encodeUInt32 = (value: number): Uint8Array =>
+  new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]);
+
+const encodeUInt64 = (value: number): Uint8Array =>
+  concatBytes(encodeUInt32(value % 0x100000000), encodeUInt32(Math.floor(value / 0x100000000)));
+
+const encodeVarInt = (value: number): Uint8Array => {
+  if (value < 0xfd) return new Uint8Array([value]);
+  if (value <= 0xffff) return new Uint8Array([0xfd, value & 0xff, value >>> 8]);
+  if (value <= 0xffffffff) return concatBytes(new Uint8Array([0xfe]), encodeUInt32(value));
+  return concatBytes(new Uint8Array([0xff]), encodeUInt64(value));
+};
+
+const encodeVarBytes = (hex: string): Uint8Array => {
+  const bytes = hexToBytes(hex);
+  return concatBytes(encodeVarInt(bytes.length), bytes);
+};
+
+/**
+ * Serializes a transaction, with witnesses (BIP144) or without them as used for the txid
+ */
+export const serializeRawTransaction = (tx: RawTransaction, includeWitness = tx.segwit): Uint8Array => {
+  const withWitness = includeWitness && tx.inputs.some(input => input.witness.length > 0);
+
+  const parts: Uint8Array[] = [encodeUInt32(tx.version)];
+  if (withWitness) parts.push(new Uint8Array([0x00, 0x01]));
+
+  parts.push(encodeVarInt(tx.inputs.length));
+  tx.inputs.forEach(input => {
+    parts.push(
+      hexToBytes(input.txid).reverse(),
+      encodeUInt32(input.vout),
+      encodeVarBytes(input.scriptSig),
+      encodeUInt32(input.sequence)
+    );
+  });
+
+  parts.push(encodeVarInt(tx.outputs.length));
+  tx.outputs.forEach(output => {
+    parts.push(encodeUInt64(output.value), encodeVarBytes(output.scriptPubKey));
+  });
+
+  if (withWitness) {
+    tx.inputs.forEach(input => {
+      parts.push(encodeVarInt(input.witness.length));
+      input.witness.forEach(item => parts.push(encodeVarBytes(item)));
+    });
+  }
+
+  parts.push(encodeUInt32(tx.locktime));
+  return concatBytes(...parts);
+};
+
+// Double SHA256, displayed reversed
+const hashToId = (bytes: Uint8Array): string => bytesToHex(sha256(sha256(bytes)).reverse());
+
+// The txid commits to the transaction without its witnesses
+export const getTransactionId = (tx: RawTransaction): string => hashToId(serializeRawTransaction(tx, false));
+
+export interface DecodedTxInput extends RawTxInput {
+  coinbase: boolean;
+  scriptType: ScriptType | null; // Inferred from scriptSig/witness, null when it can't be told
+}
+
+export interface DecodedTxOutput extends RawTxOutput {
+  vout: number;
+  scriptType: OutputScriptType;
+  address: string | null;
+}
+
+export interface DecodedTransaction {
+  txid: string;
+  wtxid: string; // Equals the txid for transactions without witnesses
+  version: number;
+  locktime: number;
+  segwit: boolean;
+  size: number; // Serialized bytes including witnesses
+  weight: number; // BIP141 weight units
+  vsize: number; // Virtual bytes, weight / 4 rounded up
+  rbf: boolean; // BIP125 opt-in: any input sequence below 0xfffffffe
+  inputs: DecodedTxInput[];
+  outputs: DecodedTxOutput[];
+  totalOutput: number; // In satoshis
+}
+
+// Splits a push-only script (scriptSig) into its data pushes, null if it has other opcodes
+const parseScriptPushes = (script: Uint8Array): Uint8Array[] | null => {
+  const pushes: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < script.length) {
+    const opcode = script[offset++];
+    let length: number;
+
+    if (opcode === 0x00) {
+      length = 0;
+    } else if (opcode <= 0x4b) {
+      length = opcode;
+    } else if (opcode === 0x4c) {
+      length = script[offset];
+      offset += 1;
+    } else if (opcode === 0x4d) {
+      length = script[offset] | (script[offset + 1] << 8);
+      offset += 2;
+    } else if (opcode === 0x4e) {
+      length = (script[offset] | (script[offset + 1] << 8) | (script[offset + 2] << 16) | (script[offset + 3] << 24)) >>> 0;
+      offset += 4;
+    } else {
+      return null;
+    }
+
+    if (offset + length > script.length) return null;
+    pushes.push(script.slice(offset, offset + length));
+    offset += length;
+  }
+
+  return pushes;
+};
+
+const isPubKey = (bytes: Uint8Array) =>
+  (bytes.length === 33 && (bytes[0] === 0x02 || bytes[0] === 0x03)) || (bytes.length === 65 && bytes[0] === 0x04);
+
+/**
+ * Best-effort guess of the script type an input spends, from what it reveals in scriptSig and witness
+ */
+export const inferInputScriptType = (input: RawTxInput): ScriptType | null => {
+  const scriptSig = hexToBytes(input.scriptSig);
+  const witness = input.witness.map(hexToBytes);
+
+  if (witness.length > 0) {
+    // Nested segwit puts the witness program in the scriptSig
+    if (scriptSig.length > 0) return 'p2sh';
+    if (witness.length === 1 && (witness[0].length === 64 || witness[0].length === 65)) return 'p2tr';
+    if (witness.length === 2 && isPubKey(witness[1])) return 'p2wpkh';
+
+    // Taproot script path ends with a control block (0xc0/0xc1 leaf version, 33 + 32k bytes), possibly followed by an annex
+    const last = witness[witness.length - 1];
+    const controlBlock = last[0] === 0x50 && witness.length > 2 ? witness[witness.length - 2] : last;
+    if ((controlBlock[0] & 0xfe) === 0xc0 && controlBlock.length >= 33 && (controlBlock.length - 33) % 32 === 0) {
+      return 'p2tr';
+    }
+    return 'p2wsh';
+  }
+
+  const pushes = parseScriptPushes(scriptSig);
+  if (!pushes || pushes.length === 0) return null;
+  if (pushes.length === 2 && isPubKey(pushes[1])) return 'p2pkh';
+  // Multisig and other redeem scripts: OP_0 <sigs...> <redeemScript>
+  if (pushes.length > 1 && pushes[0].length === 0) return 'p2sh';
+  return null;
+};
+
+const isCoinbaseInput = (input: RawTxInput) => /^0{64}$/.test(input.txid) && input.vout === 0xffffffff;
+
+/**
+ * Decodes a serialized transaction with its ids, sizes and script types, as a block explorer would show it
+ */
+export const decodeTransaction = (hex: string, network: BitcoinNetwork = 'mainnet'): DecodedTransaction => {
+  const tx = parseRawTransaction(hex);
+  const baseSize = serializeRawTransaction(tx, false).length;
+  const fullBytes = serializeRawTransaction(tx, true);
+  const weight = baseSize * 3 + fullBytes.length;
+
+  const outputs = tx.outputs.map((output, vout) => ({
+    ...output,
+    vout,
+    ...classifyOutputScript(output.scriptPubKey, network),
+  }));
+
+  return {
+    txid: getTransactionId(tx),
+    wtxid: hashToId(fullBytes),
+    version: tx.version,
+    locktime: tx.locktime,
+    segwit: tx.segwit,
+    size: fullBytes.length,
+    weight,
+    vsize: Math.ceil(weight / 4),
+    rbf: tx.inputs.some(input => input.sequence < 0xfffffffe),
+    inputs: tx.inputs.map(input => {
+      const coinbase = isCoinbaseInput(input);
+      return { ...input, coinbase, scriptType: coinbase ? null : inferInputScriptType(input) };
+    }),
+    outputs,
+    totalOutput: outputs.reduce((sum, output) => sum + output.value, 0),
+  };
+};
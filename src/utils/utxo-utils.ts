@@ -1,4 +1,8 @@
 import { UTXO } from "@/types/utxo";
+import { HIGH_ANONSET } from "@/utils/coinjoin-utils";
+
+// A coin's identity: several outputs of one transaction can belong to the wallet
+export const getOutpoint = (utxo: Pick<UTXO, 'txid' | 'vout'>) => `${utxo.txid}:${utxo.vout}`;
 
 // Format BTC amount with options to trim trailing zeros and specify decimal places
 export const formatBTC = (amount: number, options?: { trimZeros?: boolean; minDecimals?: number; maxDecimals?: number }): string => {
@@ -185,6 +189,16 @@ export const calculateTransactionPrivacyRisk = (
     privacyRisk = 'medium';
     issues.push("Transaction includes medium-risk inputs");
   }
+
+  // Spending a mixed coin with an unmixed one ties the mix back to the other coin's history
+  const anonsets = inputs.map(input => input.anonset ?? 1);
+  const highestAnonset = Math.max(0, ...anonsets);
+  const lowestAnonset = Math.min(...anonsets);
+  if (highestAnonset >= HIGH_ANONSET && lowestAnonset < HIGH_ANONSET) {
+    privacyRisk = 'high';
+    issues.push(`Transaction merges a coinjoined coin (anonset ${highestAnonset}) with a coin of anonset ${lowestAnonset}`);
+    suggestions.push("Spend coinjoined coins alone or only with coins of a similar anonset");
+  }
   
   // If no issues found, add a positive note
   if (issues.length === 0) {
@@ -237,8 +251,8 @@ export const createDownloadableCSV = (data: any[]) => {
         if (cell === null || cell === undefined) return '';
         if (Array.isArray(cell)) return `"${cell.join(', ')}"`;
         if (typeof cell === 'object') return `"${JSON.stringify(cell)}"`;
-        // Quote strings that contain commas
-        if (typeof cell === 'string' && cell.includes(',')) return `"${cell}"`;
+        // Quote strings that contain commas, quotes or line breaks
+        if (typeof cell === 'string' && /[",\n]/.test(cell)) return `"${cell.replace(/"/g, '""')}"`;
         return cell;
       }).join(',');
     })
@@ -377,6 +391,9 @@ export const getUtxoSizeScale = (
   };
 };
 
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
 // New function to generate a tooltip content for UTXO visualization
 export const getUtxoTooltipContent = (utxo: UTXO): string => {
   // Format date if available
@@ -386,6 +403,13 @@ export const getUtxoTooltipContent = (utxo: UTXO): string => {
   
   // Format amount
   const amountStr = formatBTC(utxo.amount, { trimZeros: true });
+
+  // Each signal behind the risk level, with what to do about it
+  const factorsStr = (utxo.riskFactors ?? []).map(factor => `
+        <li>
+          <span class="font-medium">+${factor.points}</span> ${escapeHtml(factor.detail)}
+          <div class="opacity-80">${escapeHtml(factor.remedy)}</div>
+        </li>`).join('');
   
   // Create tooltip content with all relevant data
   return `
@@ -393,13 +417,15 @@ export const getUtxoTooltipContent = (utxo: UTXO): string => {
       <div class="font-bold">${amountStr}</div>
       <div class="text-xs opacity-80">${utxo.txid.substring(0, 8)}...${utxo.vout}</div>
       <div class="text-xs">${dateStr}</div>
-      ${utxo.tags.length ? `<div class="text-xs mt-1">Tags: ${utxo.tags.join(', ')}</div>` : ''}
-      ${utxo.walletName ? `<div class="text-xs">Wallet: ${utxo.walletName}</div>` : ''}
+      ${utxo.tags.length ? `<div class="text-xs mt-1">Tags: ${escapeHtml(utxo.tags.join(', '))}</div>` : ''}
+      ${utxo.walletName ? `<div class="text-xs">Wallet: ${escapeHtml(utxo.walletName)}</div>` : ''}
       <div class="text-xs font-medium mt-1">Risk: 
         <span class="${getRiskTextColor(utxo.privacyRisk)}">
-          ${utxo.privacyRisk.toUpperCase()}
+          ${utxo.privacyRisk.toUpperCase()}${utxo.riskScore !== undefined ? ` (${utxo.riskScore}/100)` : ''}
         </span>
       </div>
+      ${factorsStr ? `<ul class="text-xs mt-1 space-y-1">${factorsStr}
+      </ul>` : ''}
     </div>
   `;
 };
@@ -1,16 +1,33 @@
 import { GraphData, GraphNode, GraphLink, TreemapGroupingOption, UTXOFiltersState, TreemapTile } from "@/types/utxo-graph";
 import { UTXO } from "@/types/utxo";
+import { AddressCluster } from "@/types/cluster";
+import { ChainTransaction } from "@/types/chain";
 import { getRiskColor as getUtxoRiskColor } from "@/utils/utxo-utils";
+import { getClusterColor, groupUtxosByCluster } from "@/utils/cluster-utils";
+import { analyzeChange, CHANGE_CONFIDENCE_THRESHOLD } from "@/utils/change-utils";
 
 /**
- * Creates a traceability graph from UTXOs
+ * Creates a traceability graph from UTXOs. Outputs of the given transactions are marked as change
+ * by the change heuristics; coins of other transactions only by a "Change" tag.
  */
-export const createTraceabilityGraph = (utxos: UTXO[]): GraphData => {
+export const createTraceabilityGraph = (utxos: UTXO[], transactions: ChainTransaction[] = []): GraphData => {
   const nodes: GraphNode[] = [];
   const links: GraphLink[] = [];
   const nodeMap = new Map<string, GraphNode>();
   const addedTxs = new Set<string>();
   const addedAddresses = new Set<string>();
+
+  // How sure an observer is that each coin is change, by outpoint
+  const changeConfidence = new Map<string, number>();
+  const utxoTxids = new Set(utxos.map(utxo => utxo.txid));
+  transactions.filter(tx => utxoTxids.has(tx.txid)).forEach(tx => {
+    analyzeChange(tx).outputs.forEach(output => changeConfidence.set(`${tx.txid}:${output.index}`, output.confidence));
+  });
+  const getChangeConfidence = (utxo: UTXO) => changeConfidence.get(`${utxo.txid}:${utxo.vout}`);
+  const isChange = (utxo: UTXO) => {
+    const confidence = getChangeConfidence(utxo);
+    return confidence !== undefined ? confidence >= CHANGE_CONFIDENCE_THRESHOLD : utxo.tags.includes("Change");
+  };
   
   // Group UTXOs by transaction first - this is key for unified transaction nodes
   const txGroups = new Map<string, UTXO[]>();
@@ -78,7 +95,8 @@ export const createTraceabilityGraph = (utxos: UTXO[]): GraphData => {
           source: txNodeId,
           target: addrNodeId,
           value: utxo.amount || 0,
-          isChangeOutput: utxo.tags.includes("Change"),
+          isChangeOutput: isChange(utxo),
+          changeConfidence: getChangeConfidence(utxo),
           riskLevel: utxo.privacyRisk
         });
       }
@@ -134,7 +152,7 @@ export const createTraceabilityGraph = (utxos: UTXO[]): GraphData => {
       
       // Check for change output connections
       const changeConnection = sourceUtxos.some(u => 
-        u.tags.includes("Change") && targetUtxos.some(t => 
+        isChange(u) && targetUtxos.some(t => 
           t.senderAddress === u.address || t.receiverAddress === u.address
         )
       );
@@ -215,9 +233,13 @@ export const createPrivacyTreemap = (utxos: UTXO[]) => {
 };
 
 /**
- * Creates treemap data based on grouping option
+ * Creates treemap data based on grouping option. Grouping by cluster needs the clusters to group by.
  */
-export const createTreemapData = (utxos: UTXO[], groupingOption: TreemapGroupingOption = "risk") => {
+export const createTreemapData = (
+  utxos: UTXO[],
+  groupingOption: TreemapGroupingOption = "risk",
+  clusters: AddressCluster[] = []
+) => {
   if (groupingOption === "none") {
     // Individual UTXO tiles with mempool-style layout
     return createMempoolTreemap(utxos);
@@ -371,11 +393,52 @@ export const createTreemapData = (utxos: UTXO[], groupingOption: TreemapGrouping
     // Convert to array format for treemap
     return Array.from(tagGroups.values());
   }
+  else if (groupingOption === "cluster") {
+    // Group UTXOs an observer can link together; the rest share one "Unlinked" group
+    return groupUtxosByCluster(utxos, clusters).map(({ cluster, utxos: groupUtxos }) => ({
+      name: cluster ? cluster.label : "Unlinked",
+      amount: groupUtxos.reduce((sum, utxo) => sum + (utxo.amount || 0), 0),
+      count: groupUtxos.length,
+      utxos: groupUtxos,
+      color: cluster ? getClusterColor(cluster.id) : "#8E9196" // gray
+    }));
+  }
   
   // Default case - return individual UTXOs with new mempool-style layout
   return createMempoolTreemap(utxos);
 };
 
+/**
+ * SVG path of the convex hull around a set of boxes, grown by `padding` on every side
+ */
+export const getHullPath = (
+  boxes: { x: number; y: number; width: number; height: number }[],
+  padding: number = 10
+): string => {
+  const points = boxes
+    .flatMap(box => [
+      [box.x - padding, box.y - padding],
+      [box.x + box.width + padding, box.y - padding],
+      [box.x + box.width + padding, box.y + box.height + padding],
+      [box.x - padding, box.y + box.height + padding]
+    ])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (points.length === 0) return '';
+
+  // Monotone chain: lower then upper hull, dropping points that don't turn counter-clockwise
+  const cross = (o: number[], a: number[], b: number[]) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const buildChain = (ordered: number[][]) => ordered.reduce<number[][]>((chain, point) => {
+    while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0) chain.pop();
+    chain.push(point);
+    return chain;
+  }, []);
+  const lower = buildChain(points);
+  const upper = buildChain([...points].reverse());
+  const hull = [...lower.slice(0, -1), ...upper.slice(0, -1)];
+
+  return `M ${hull.map(([x, y]) => `${x} ${y}`).join(' L ')} Z`;
+};
+
 /**
  * Format BTC amount with appropriate precision and hide trailing zeros
  * @param amount - BTC amount to format
@@ -0,0 +1,443 @@
+import { UTXO, WalletData, WalletExportFormat } from "@/types/utxo";
+import { normalizeCsvHeader, parseCsv } from "@/utils/csv-utils";
+import { descriptorToWalletData } from "@/utils/descriptor-utils";
+import { XpubScriptType, xpubToDescriptor } from "@/utils/xpub-utils";
+
+export const WALLET_EXPORT_FORMAT_NAMES: Record<WalletExportFormat, string> = {
+  'utxo-intelligence': 'UTXO Intelligence JSON',
+  'sparrow-utxos-csv': 'Sparrow UTXO CSV',
+  'sparrow-transactions-csv': 'Sparrow transaction CSV',
+  'sparrow-json': 'Sparrow wallet JSON',
+  'electrum-history-csv': 'Electrum history CSV',
+  'electrum-history-json': 'Electrum history JSON',
+  'specter-json': 'Specter wallet backup',
+  'coldcard-json': 'Coldcard generic wallet export',
+};
+
+// A label that applies to every wallet output created by a transaction
+export interface TransactionLabel {
+  txid: string;
+  label: string;
+}
+
+export interface WalletExportResult {
+  format: WalletExportFormat;
+  // Null for history-only exports, which carry labels but no outputs
+  walletData: WalletData | null;
+  transactionLabels: TransactionLabel[];
+}
+
+export interface WalletExportOptions {
+  fileName?: string;
+  knownTags?: string[]; // Tag names that labels are matched against
+}
+
+const SATS_PER_BTC = 100000000;
+
+/**
+ * Splits a wallet label into tags and notes. The full label is kept as the note;
+ * known tag names that appear in it as whole words also become tags.
+ */
+export const labelToAnnotations = (
+  label: string | null | undefined,
+  knownTags: string[] = []
+): { tags: string[]; notes: string | null } => {
+  const text = (label || '').trim();
+  if (!text) return { tags: [], notes: null };
+
+  const lowered = text.toLowerCase();
+  const tags = knownTags.filter(tag => {
+    const escaped = tag.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lowered);
+  });
+
+  return { tags, notes: text };
+};
+
+// Wallet name from "My Wallet-utxos.csv" style file names
+const walletNameFromFileName = (fileName?: string): string | null => {
+  if (!fileName) return null;
+  const base = fileName.replace(/\.[^.]+$/, '').replace(/[-_ ](utxos?|transactions?|history|labels)$/i, '').trim();
+  return base || null;
+};
+
+// Parses "2024-01-31 12:34", ISO strings and unix seconds; null when unparseable
+const parseExportDate = (value: string | number | null | undefined): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number' || /^\d+$/.test(value)) {
+    const seconds = Number(value);
+    return seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+  }
+  const date = new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Sparrow writes values in the unit chosen in its preferences: integers are sats, decimals BTC
+const parseExportAmount = (value: string): number => {
+  const cleaned = value.replace(/[^\d.-]/g, '');
+  const amount = Number(cleaned);
+  if (cleaned === '' || isNaN(amount)) throw new Error(`Invalid amount "${value}"`);
+  return cleaned.includes('.') ? amount : amount / SATS_PER_BTC;
+};
+
+interface ImportedOutput {
+  txid: string;
+  vout: number;
+  address: string;
+  amount: number; // In BTC
+  confirmed: boolean;
+  createdAt: string | null;
+  label: string | null;
+  scriptPubKey?: string;
+}
+
+const buildUtxo = (output: ImportedOutput, walletName: string, knownTags: string[]): UTXO => {
+  const createdAt = output.createdAt || new Date().toISOString();
+  const { tags, notes } = labelToAnnotations(output.label, knownTags);
+
+  return {
+    txid: output.txid,
+    vout: output.vout,
+    address: output.address,
+    amount: output.amount,
+    // Exports don't carry a confirmation count; chain refresh fills in the real one
+    confirmations: output.confirmed ? 1 : 0,
+    scriptPubKey: output.scriptPubKey || '',
+    tags,
+    createdAt,
+    privacyRisk: 'medium',
+    acquisitionDate: createdAt.split('T')[0],
+    acquisitionFiatValue: null,
+    acquisitionBtcPrice: null,
+    disposalDate: null,
+    disposalFiatValue: null,
+    realizedGainFiat: null,
+    costAutoPopulated: false,
+    notes,
+    senderAddress: null,
+    receiverAddress: output.address || null,
+    walletName
+  };
+};
+
+const buildWalletData = (
+  name: string,
+  utxos: UTXO[],
+  format: WalletExportFormat
+): WalletData => ({
+  name,
+  totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+  utxos,
+  source: { type: 'wallet-export', importedAt: new Date().toISOString(), exportFormat: format }
+});
+
+const parseOutpoint = (outpoint: string): { txid: string; vout: number } => {
+  const match = outpoint.trim().match(/^([0-9a-f]{64}):(\d+)$/i);
+  if (!match) throw new Error(`Invalid output "${outpoint}"`);
+  return { txid: match[1].toLowerCase(), vout: Number(match[2]) };
+};
+
+// Finds the first header column starting with one of the given names
+const findColumn = (header: string[], ...names: string[]) =>
+  header.findIndex(cell => names.some(name => cell === name || cell.startsWith(`${name} `)));
+
+/**
+ * Sparrow UTXOs tab export: Date, Output (txid:vout), Address, Label, Value
+ */
+const parseSparrowUtxosCsv = (rows: string[][], options: WalletExportOptions): WalletExportResult => {
+  const header = normalizeCsvHeader(rows[0]);
+  const columns = {
+    date: findColumn(header, 'date'),
+    output: findColumn(header, 'output'),
+    address: findColumn(header, 'address'),
+    label: findColumn(header, 'label'),
+    value: findColumn(header, 'value'),
+  };
+
+  const walletName = walletNameFromFileName(options.fileName) || 'Sparrow Wallet';
+  const utxos = rows.slice(1).map(row => {
+    const date = columns.date >= 0 ? row[columns.date] : '';
+    return buildUtxo({
+      ...parseOutpoint(row[columns.output]),
+      address: row[columns.address] || '',
+      amount: parseExportAmount(row[columns.value]),
+      confirmed: !!date && date.toLowerCase() !== 'unconfirmed',
+      createdAt: parseExportDate(date),
+      label: columns.label >= 0 ? row[columns.label] : null,
+    }, walletName, options.knownTags);
+  });
+
+  return {
+    format: 'sparrow-utxos-csv',
+    walletData: buildWalletData(walletName, utxos, 'sparrow-utxos-csv'),
+    transactionLabels: []
+  };
+};
+
+// History exports (Sparrow transactions, Electrum) only label transactions
+const parseHistoryCsv = (
+  rows: string[][],
+  format: WalletExportFormat,
+  txidColumnNames: string[]
+): WalletExportResult => {
+  const header = normalizeCsvHeader(rows[0]);
+  const txidColumn = findColumn(header, ...txidColumnNames);
+  const labelColumn = findColumn(header, 'label');
+
+  const transactionLabels = rows.slice(1)
+    .map(row => ({ txid: (row[txidColumn] || '').toLowerCase(), label: row[labelColumn] || '' }))
+    .filter(entry => /^[0-9a-f]{64}$/.test(entry.txid) && entry.label);
+
+  return { format, walletData: null, transactionLabels };
+};
+
+interface SparrowOutput {
+  hash: string;
+  index: number;
+  height?: number;
+  date?: string | number;
+  value: number; // sats
+  label?: string;
+  spentBy?: unknown;
+}
+
+interface SparrowNode {
+  derivationPath?: string;
+  address?: string;
+  label?: string;
+  children?: SparrowNode[];
+  transactionOutputs?: SparrowOutput[];
+}
+
+interface SparrowWallet {
+  name?: string;
+  purposeNodes: SparrowNode[];
+  transactions?: Record<string, { label?: string }>;
+}
+
+/**
+ * Sparrow's wallet file JSON: outputs live on the address nodes under purposeNodes,
+ * spent ones carry a spentBy reference
+ */
+const parseSparrowJson = (wallet: SparrowWallet, options: WalletExportOptions): WalletExportResult => {
+  const walletName = wallet.name || walletNameFromFileName(options.fileName) || 'Sparrow Wallet';
+  const outputs: ImportedOutput[] = [];
+
+  const visit = (node: SparrowNode) => {
+    (node.transactionOutputs || [])
+      .filter(output => !output.spentBy)
+      .forEach(output => outputs.push({
+        txid: output.hash,
+        vout: output.index,
+        address: node.address || '',
+        amount: output.value / SATS_PER_BTC,
+        confirmed: (output.height ?? 0) > 0,
+        createdAt: parseExportDate(output.date),
+        label: output.label || node.label || wallet.transactions?.[output.hash]?.label || null,
+      }));
+    (node.children || []).forEach(visit);
+  };
+  wallet.purposeNodes.forEach(visit);
+
+  const utxos = outputs.map(output => buildUtxo(output, walletName, options.knownTags));
+  return {
+    format: 'sparrow-json',
+    walletData: buildWalletData(walletName, utxos, 'sparrow-json'),
+    transactionLabels: []
+  };
+};
+
+interface ElectrumHistoryItem {
+  txid: string;
+  label?: string;
+}
+
+interface SpecterBackup {
+  descriptor: string;
+  label?: string;
+  name?: string;
+}
+
+interface ColdcardSection {
+  name?: string;
+  xpub?: string;
+  _pub?: string; // SLIP-132 encoded variant (ypub/zpub)
+  desc?: string;
+}
+
+type ColdcardExport = Record<string, ColdcardSection | string | number> & { xfp: string };
+
+// Native segwit first, as that's what most Coldcard users receive to
+const COLDCARD_SECTIONS: { key: string; scriptType: XpubScriptType }[] = [
+  { key: 'bip84', scriptType: 'p2wpkh' },
+  { key: 'bip86', scriptType: 'p2tr' },
+  { key: 'bip49', scriptType: 'p2sh-p2wpkh' },
+  { key: 'bip44', scriptType: 'p2pkh' },
+];
+
+const withExportSource = (walletData: WalletData, format: WalletExportFormat): WalletData => ({
+  ...walletData,
+  source: { ...walletData.source!, type: 'wallet-export', exportFormat: format }
+});
+
+const parseSpecterJson = (backup: SpecterBackup, options: WalletExportOptions): WalletExportResult => {
+  const name = backup.label || backup.name || walletNameFromFileName(options.fileName) || 'Specter Wallet';
+  return {
+    format: 'specter-json',
+    walletData: withExportSource(descriptorToWalletData(backup.descriptor, { name }), 'specter-json'),
+    transactionLabels: []
+  };
+};
+
+const parseColdcardJson = (data: ColdcardExport): WalletExportResult => {
+  const match = COLDCARD_SECTIONS.find(({ key }) => typeof data[key] === 'object');
+  if (!match) throw new Error('Coldcard export contains no single-signature account');
+
+  const section = data[match.key] as ColdcardSection;
+  // Older firmware omits desc, so fall back to building it from the xpub
+  const descriptor = section.desc || xpubToDescriptor(section.xpub || section._pub || '', match.scriptType);
+  const name = `Coldcard ${data.xfp.toUpperCase()}`;
+
+  return {
+    format: 'coldcard-json',
+    walletData: withExportSource(descriptorToWalletData(descriptor, { name }), 'coldcard-json'),
+    transactionLabels: []
+  };
+};
+
+interface NativeExport {
+  name?: string;
+  utxos: (Partial<UTXO> & Pick<UTXO, 'txid' | 'vout' | 'amount'>)[];
+}
+
+// This app's own {name, utxos} format
+const parseNativeJson = (data: NativeExport): WalletExportResult => {
+  const utxos: UTXO[] = data.utxos.map(utxo => ({
+    ...utxo,
+    tags: utxo.tags || [],
+    createdAt: new Date().toISOString(),
+    // Scored by the risk engine once the wallet is in the workspace
+    privacyRisk: 'medium'
+  }) as UTXO);
+
+  return {
+    format: 'utxo-intelligence',
+    walletData: {
+      name: data.name || 'Imported Wallet',
+      totalBalance: utxos.reduce((sum, utxo) => sum + utxo.amount, 0),
+      utxos,
+      source: { type: 'json', importedAt: new Date().toISOString() }
+    },
+    transactionLabels: []
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const detectJsonFormat = (data: unknown): WalletExportFormat | null => {
+  const items = Array.isArray(data) ? data : isObject(data) && Array.isArray(data.transactions) ? data.transactions : null;
+  if (items && items.every(item => isObject(item) && typeof item.txid === 'string')) {
+    return 'electrum-history-json';
+  }
+  if (!isObject(data)) return null;
+  if (Array.isArray(data.utxos)) return 'utxo-intelligence';
+  if (Array.isArray(data.purposeNodes)) return 'sparrow-json';
+  if (typeof data.descriptor === 'string') return 'specter-json';
+  if (typeof data.xfp === 'string' && COLDCARD_SECTIONS.some(({ key }) => isObject(data[key]))) {
+    return 'coldcard-json';
+  }
+  return null;
+};
+
+const detectCsvFormat = (header: string[]): WalletExportFormat | null => {
+  if (header.includes('transaction_hash')) return 'electrum-history-csv';
+  if (findColumn(header, 'output') >= 0 && findColumn(header, 'value') >= 0) return 'sparrow-utxos-csv';
+  if (findColumn(header, 'txid') >= 0 && findColumn(header, 'balance') >= 0) return 'sparrow-transactions-csv';
+  return null;
+};
+
+/**
+ * Identifies which wallet exported the given file content, or null if unknown
+ */
+export const detectWalletExportFormat = (content: string): WalletExportFormat | null => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return detectJsonFormat(JSON.parse(trimmed));
+    } catch {
+      return null;
+    }
+  }
+
+  const rows = parseCsv(trimmed);
+  return rows.length > 0 ? detectCsvFormat(normalizeCsvHeader(rows[0])) : null;
+};
+
+/**
+ * Detects the export format and converts the file into wallet data and/or transaction labels.
+ * Throws when the format is unknown or the content doesn't match it.
+ */
+export const parseWalletExport = (content: string, options: WalletExportOptions = {}): WalletExportResult => {
+  const format = detectWalletExportFormat(content);
+  if (!format) {
+    throw new Error('Unrecognized file format. Supported: UTXO Intelligence JSON, Sparrow, Electrum, Specter and Coldcard exports.');
+  }
+
+  const trimmed = content.trim();
+  switch (format) {
+    case 'utxo-intelligence':
+      return parseNativeJson(JSON.parse(trimmed));
+    case 'sparrow-json':
+      return parseSparrowJson(JSON.parse(trimmed), options);
+    case 'specter-json':
+      return parseSpecterJson(JSON.parse(trimmed), options);
+    case 'coldcard-json':
+      return parseColdcardJson(JSON.parse(trimmed));
+    case 'electrum-history-json': {
+      const data = JSON.parse(trimmed);
+      const items: ElectrumHistoryItem[] = Array.isArray(data) ? data : data.transactions;
+      return {
+        format,
+        walletData: null,
+        transactionLabels: items
+          .filter(item => item.label)
+          .map(item => ({ txid: item.txid.toLowerCase(), label: item.label! }))
+      };
+    }
+    case 'sparrow-utxos-csv':
+      return parseSparrowUtxosCsv(parseCsv(trimmed), options);
+    case 'sparrow-transactions-csv':
+      return parseHistoryCsv(parseCsv(trimmed), format, ['txid']);
+    case 'electrum-history-csv':
+      return parseHistoryCsv(parseCsv(trimmed), format, ['transaction_hash']);
+  }
+};
+
+/**
+ * Applies transaction labels to the outputs they created. Existing notes are kept
+ * and tags are merged, so re-importing the same history is harmless.
+ */
+export const applyTransactionLabels = (
+  utxos: UTXO[],
+  labels: TransactionLabel[],
+  knownTags: string[] = []
+): { utxos: UTXO[]; labeledCount: number } => {
+  const labelsByTxid = new Map(labels.map(entry => [entry.txid, entry.label]));
+  let labeledCount = 0;
+
+  const labeled = utxos.map(utxo => {
+    const label = labelsByTxid.get(utxo.txid.toLowerCase());
+    if (!label) return utxo;
+
+    labeledCount++;
+    const { tags, notes } = labelToAnnotations(label, knownTags);
+    return {
+      ...utxo,
+      tags: [...new Set([...utxo.tags, ...tags])],
+      notes: utxo.notes || notes
+    };
+  });
+
+  return { utxos: labeled, labeledCount };
+};
@@ -0,0 +1,98 @@
+import { BitcoinNetwork } from "@/types/bitcoin";
+import { Wallet, WalletData, WalletScope } from "@/types/utxo";
+import { decodeAddress } from "@/utils/address-utils";
+import { calculateBalance, isHeldUtxo } from "@/utils/lifecycle-utils";
+
+// New wallets take the first color no other wallet uses
+export const WALLET_COLORS = ['#f7931a', '#3b82f6', '#10b981', '#a855f7', '#ef4444', '#eab308', '#06b6d4', '#ec4899'];
+
+const createWalletId = () => `wallet-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The source says which network a descriptor or xpub is on; otherwise the first decodable address does
+const detectNetwork = (data: WalletData): BitcoinNetwork => {
+  if (data.source?.network) return data.source.network;
+  for (const utxo of data.utxos) {
+    try {
+      return decodeAddress(utxo.address).network;
+    } catch {
+      // Manual entries and demo coins have no real address
+    }
+  }
+  return 'mainnet';
+};
+
+// "Cold Storage" becomes "Cold Storage (2)" when the name is taken
+const uniqueWalletName = (name: string, taken: Set<string>) => {
+  if (!taken.has(name)) return name;
+  let counter = 2;
+  while (taken.has(`${name} (${counter})`)) counter++;
+  return `${name} (${counter})`;
+};
+
+/**
+ * Stamps every coin with its wallet's id and name. Coins that already carry both are kept as they are,
+ * so unchanged wallets keep their identity and aren't saved again.
+ */
+export const stampWalletUtxos = (wallet: Wallet): Wallet => {
+  let changed = false;
+  const utxos = wallet.utxos.map(utxo => {
+    if (utxo.walletId === wallet.id && utxo.walletName === wallet.name) return utxo;
+    changed = true;
+    return { ...utxo, walletId: wallet.id, walletName: wallet.name };
+  });
+  return changed ? { ...wallet, utxos } : wallet;
+};
+
+/**
+ * Turns imported wallet data into a workspace wallet. Ids, colors and sync state already present
+ * (from a saved workspace or a backup) are kept; names are made unique among `existing`.
+ */
+export const createWallet = (data: WalletData | Wallet, existing: Wallet[]): Wallet => {
+  const others = existing.filter(wallet => !('id' in data) || wallet.id !== data.id);
+  const usedColors = new Set(others.map(wallet => wallet.color));
+  const fallbackColor = WALLET_COLORS.find(color => !usedColors.has(color)) ?? WALLET_COLORS[others.length % WALLET_COLORS.length];
+
+  return stampWalletUtxos({
+    network: detectNetwork(data),
+    sync: { status: 'idle', lastSyncedAt: null },
+    color: fallbackColor,
+    ...data,
+    id: 'id' in data && data.id && !others.some(wallet => wallet.id === data.id) ? data.id : createWalletId(),
+    name: uniqueWalletName(data.name, new Set(others.map(wallet => wallet.name))),
+    totalBalance: calculateBalance(data.utxos),
+  });
+};
+
+export const getScopedWallets = (wallets: Wallet[], scope: WalletScope): Wallet[] => {
+  if (scope === 'all') return wallets;
+  const scoped = wallets.filter(wallet => scope.includes(wallet.id));
+  // A scope whose wallets were all removed falls back to everything rather than an empty workspace
+  return scoped.length > 0 ? scoped : wallets;
+};
+
+export const describeScope = (wallets: Wallet[], scope: WalletScope): string => {
+  const scoped = getScopedWallets(wallets, scope);
+  if (scoped.length === wallets.length) return wallets.length === 1 ? wallets[0].name : 'All wallets';
+  return scoped.length === 1 ? scoped[0].name : `${scoped.length} wallets`;
+};
+
+/**
+ * The wallet data pages work with: the coins still held by the scoped wallet, or by several wallets
+ * combined into one view. Null when the workspace has no wallets.
+ */
+export const combineWallets = (wallets: Wallet[], scope: WalletScope): WalletData | null => {
+  const scoped = getScopedWallets(wallets, scope);
+  if (scoped.length === 0) return null;
+  if (scoped.length === 1 && scoped[0].utxos.every(isHeldUtxo)) return scoped[0];
+  if (scoped.length === 1) return { ...scoped[0], utxos: scoped[0].utxos.filter(isHeldUtxo) };
+
+  const utxos = scoped.flatMap(wallet => wallet.utxos).filter(isHeldUtxo);
+  return {
+    name: describeScope(wallets, scope),
+    totalBalance: calculateBalance(utxos),
+    utxos,
+    watchOnly: scoped.every(wallet => wallet.watchOnly),
+    addresses: scoped.flatMap(wallet => wallet.addresses ?? []),
+    externalLabels: scoped.flatMap(wallet => wallet.externalLabels ?? []),
+  };
+};
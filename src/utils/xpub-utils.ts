@@ -0,0 +1,86 @@
+import { BitcoinNetwork, DescriptorType } from "@/types/bitcoin";
+import { base58check, concatBytes } from "./address-utils";
+import { EXTENDED_KEY_VERSIONS, getDescriptorChecksum } from "./descriptor-utils";
+
+export type XpubScriptType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
+
+interface ExtendedKeyVersion {
+  prefix: string;
+  network: BitcoinNetwork;
+  scriptType: XpubScriptType;
+}
+
+// SLIP-132 version bytes for single-sig public keys
+const XPUB_VERSIONS: Record<number, ExtendedKeyVersion> = {
+  0x0488b21e: { prefix: 'xpub', network: 'mainnet', scriptType: 'p2pkh' },
+  0x049d7cb2: { prefix: 'ypub', network: 'mainnet', scriptType: 'p2sh-p2wpkh' },
+  0x04b24746: { prefix: 'zpub', network: 'mainnet', scriptType: 'p2wpkh' },
+  0x043587cf: { prefix: 'tpub', network: 'testnet', scriptType: 'p2pkh' },
+  0x044a5262: { prefix: 'upub', network: 'testnet', scriptType: 'p2sh-p2wpkh' },
+  0x045f1cf6: { prefix: 'vpub', network: 'testnet', scriptType: 'p2wpkh' },
+};
+
+// SLIP-132 multisig cosigner keys, which can't produce addresses on their own
+const MULTISIG_VERSIONS = new Set([0x0295b43f, 0x02aa7ed3, 0x024289ef, 0x02575483]);
+
+const DESCRIPTOR_WRAPPERS: Record<XpubScriptType, { type: DescriptorType; wrap: (key: string) => string }> = {
+  'p2pkh': { type: 'pkh', wrap: key => `pkh(${key})` },
+  'p2sh-p2wpkh': { type: 'sh-wpkh', wrap: key => `sh(wpkh(${key}))` },
+  'p2wpkh': { type: 'wpkh', wrap: key => `wpkh(${key})` },
+  'p2tr': { type: 'tr', wrap: key => `tr(${key})` },
+};
+
+export interface ExtendedPublicKeyInfo {
+  prefix: string;
+  network: BitcoinNetwork;
+  scriptType: XpubScriptType;
+  normalizedKey: string; // Re-encoded with xpub/tpub version bytes
+}
+
+/**
+ * Detects network and script type from an extended public key's version bytes
+ * and re-encodes it as xpub/tpub, the only form descriptors accept.
+ */
+export const inspectExtendedPublicKey = (key: string): ExtendedPublicKeyInfo => {
+  let payload: Uint8Array;
+  try {
+    payload = base58check.decode(key.trim());
+  } catch {
+    throw new Error('Invalid extended public key: base58 checksum failed');
+  }
+
+  if (payload.length !== 78) {
+    throw new Error('Invalid extended public key length');
+  }
+
+  const version = new DataView(payload.buffer, payload.byteOffset, 4).getUint32(0);
+
+  if (MULTISIG_VERSIONS.has(version)) {
+    throw new Error('Multisig cosigner keys (Ypub/Zpub) need a full multisig descriptor');
+  }
+
+  const info = XPUB_VERSIONS[version];
+  if (!info) {
+    throw new Error('Unknown extended key version. Private keys are not accepted for watch-only import');
+  }
+
+  const standardVersion = EXTENDED_KEY_VERSIONS[info.network === 'mainnet' ? 'mainnet' : 'testnet'].public;
+  const versionBytes = new Uint8Array(4);
+  new DataView(versionBytes.buffer).setUint32(0, standardVersion);
+
+  return {
+    ...info,
+    normalizedKey: base58check.encode(concatBytes(versionBytes, payload.slice(4)))
+  };
+};
+
+/**
+ * Builds a ranged descriptor (with checksum) for an account-level extended public key,
+ * deriving receive and change addresses from /<0;1>/*.
+ */
+export const xpubToDescriptor = (key: string, scriptTypeOverride?: XpubScriptType): string => {
+  const info = inspectExtendedPublicKey(key);
+  const scriptType = scriptTypeOverride || info.scriptType;
+  const descriptor = DESCRIPTOR_WRAPPERS[scriptType].wrap(`${info.normalizedKey}/<0;1>/*`);
+  return `${descriptor}#${getDescriptorChecksum(descriptor)}`;
+};